@@ -1,37 +1,119 @@
-import React, { useEffect, useState, useRef, useMemo } from 'react';
-import { fetchTop50Coins, connectBinanceWS } from './services/binanceService';
+import React, { useCallback, useEffect, useState, useRef, useMemo } from 'react';
+import { MarketDataSource, TickerSubscription } from './services/marketData';
+import { DATA_SOURCES } from './services/dataSources';
+import { buildComposition, computeMarketWeights, PriceMap, toPriceMap } from './services/indexEngine';
+import { applyWeighting, WEIGHTING_STRATEGIES } from './services/weighting';
+import { buildUniverse } from './services/universe';
+import {
+  appendCustomRebalanceRecord,
+  clearCustomIndexData,
+  loadCustomComposition,
+  loadCustomIndices,
+  loadCustomRebalanceLog,
+  rebalanceCustomIndex,
+  saveCustomComposition,
+  saveCustomIndices
+} from './services/customIndex';
+import {
+  appendRebalanceRecord,
+  createRebalanceScheduler,
+  executeRebalance,
+  formatCountdown,
+  getNextScheduledRun,
+  isRebalanceDue,
+  loadRebalanceLog,
+  rebalanceFromSource
+} from './services/rebalance';
+import { backfillIndexHistory } from './services/backfill';
+import { createI18n, loadLang, saveLang } from './services/i18n';
+import { bucketStart, mergeCandles, ROLLUP_TIMEFRAMES, upsertCandles } from './services/candles';
+import { loadCandles, loadEtfState, pruneCandles, readJson, readSettings, saveCandles, saveEtfState } from './services/storage';
+import { createRecorder, downloadRecording, parseRecording, Recorder, Recording, RebalanceEvent } from './services/recording';
+import { computeAttribution, findSnapshotAt, PriceSnapshot, recordPriceSnapshot } from './services/attribution';
+import {
+  appendAlertEvents,
+  clearAlertLog,
+  evaluateAlerts,
+  initialAlertStates,
+  loadAlertLog,
+  loadAlertRules,
+  saveAlertRules,
+  showAlertNotification
+} from './services/alerts';
+import { exportCandlesCsv, exportCandlesJson, exportChartPng, exportFilename } from './services/exports';
+import { createIndexWorker, IndexWorker } from './services/indexWorkerClient';
+import { IndexSnapshot } from './services/indexWorker';
+import { createReplayController, createReplaySource, ReplayController, ReplayState } from './services/replay';
 import CandleChart from './components/CandleChart';
-import { Lang, Coin, EtfState, CandleData, TickerData } from './types';
-import { TRANSLATIONS, BASE_INDEX_VALUE } from './constants';
-import { Globe, ArrowUp, ArrowDown, Activity, Clock } from 'lucide-react';
-
-// Helper to calculate ETF Price based on weighted sum of constituent changes
-const calculateEtfPrice = (coins: Coin[], basePrice: number): number => {
-  // Simplified Logic:
-  // The ETF price moves according to the weighted average change of the top 50 coins.
-  // Current Index = BasePrice * (1 + Sum(Weight_i * Change_i))
-  
-  if (coins.length === 0) return basePrice;
-  
-  let weightedChangeSum = 0;
-  let totalWeight = 0;
+import ComparisonChart, { ComparisonIndex } from './components/ComparisonChart';
+import ReplayControls from './components/ReplayControls';
+import RebalanceHistory from './components/RebalanceHistory';
+import AttributionPanel from './components/AttributionPanel';
+import RiskCard from './components/RiskCard';
+import FundCard from './components/FundCard';
+import ConstituentDrawer from './components/ConstituentDrawer';
+import UniverseSettings from './components/UniverseSettings';
+import CustomIndexManager from './components/CustomIndexManager';
+import AlertsPanel, { describeAlertRule, formatAlertValue } from './components/AlertsPanel';
+import TrackingSimulator from './components/TrackingSimulator';
+import ConstituentsTable from './components/ConstituentsTable';
+import Factsheet from './components/Factsheet';
+import { Lang, Coin, EtfState, CandleData, IndexComposition, WeightingMethod, RebalanceRecord, RebalanceTrigger, DataSourceId, TickerUpdate, ConnectionState, ConnectionStatus, Timeframe, TimeframeSeries, AttributionWindow, UniverseRules, CustomIndexDefinition, CustomIndexIssue, AlertRule, AlertEvent, IndexQuality } from './types';
+import { LANGUAGE_NAMES, BASE_DATE_TIMESTAMP, BASE_INDEX_VALUE, COMPOSITION_STORAGE_KEY, WEIGHTING_STORAGE_KEY, DATA_SOURCE_STORAGE_KEY, BACKFILL_WINDOW_MS, MAX_CANDLES, MAX_CHART_CANDLES, TIMEFRAME_STORAGE_KEY, CANDLE_FLUSH_INTERVAL_MS, PRICE_SNAPSHOT_INTERVAL_MS, PRICE_HISTORY_MS, UNIVERSE_STORAGE_KEY, DEFAULT_UNIVERSE_RULES, ACTIVE_INDEX_STORAGE_KEY, WEIGHT_CAP } from './constants';
+import { Globe, ArrowUp, ArrowDown, Activity, Clock, Circle, FolderOpen, AlertTriangle, Download, FileText } from 'lucide-react';
 
-  coins.forEach(c => {
-    // Weight is 0-1 (e.g., 0.1 for 10%)
-    weightedChangeSum += (c.change24h * c.weight);
-    totalWeight += c.weight;
-  });
+// Drill-down selection lives in the URL hash (#coin=BTCUSDT) so it can be shared
+const readHashPair = (): string | null =>
+  new URLSearchParams(window.location.hash.slice(1)).get('coin');
 
-  // Normalize if weights don't equal exactly 1 (they should)
-  const avgChange = weightedChangeSum / (totalWeight || 1);
-  
-  // This calculates "Where is the index now relative to 24h ago"
-  return basePrice * (1 + (avgChange / 100));
+// Custom indices keep their baskets next to their definitions (see customIndex.ts)
+const loadComposition = (indexId: string | null = null): IndexComposition | null => {
+  if (indexId) return loadCustomComposition(indexId);
+  return readJson(COMPOSITION_STORAGE_KEY, null);
+};
+
+const saveComposition = (composition: IndexComposition, indexId: string | null = null) => {
+  if (indexId) return saveCustomComposition(indexId, composition);
+  localStorage.setItem(COMPOSITION_STORAGE_KEY, JSON.stringify(composition));
+};
+
+const CONNECTION_DOT: Record<ConnectionState, string> = {
+  [ConnectionState.IDLE]: 'bg-binance-gray',
+  [ConnectionState.CONNECTING]: 'bg-binance-yellow',
+  [ConnectionState.OPEN]: 'bg-binance-green',
+  [ConnectionState.STALE]: 'bg-orange-500',
+  [ConnectionState.RECONNECTING]: 'bg-red-500',
+  [ConnectionState.CLOSED]: 'bg-binance-gray'
+};
+
+const loadDataSource = (): DataSourceId => {
+  const stored = localStorage.getItem(DATA_SOURCE_STORAGE_KEY) as DataSourceId | null;
+  return stored && stored in DATA_SOURCES ? stored : DataSourceId.BINANCE;
+};
+
+const loadTimeframe = (): Timeframe => {
+  const stored = localStorage.getItem(TIMEFRAME_STORAGE_KEY) as Timeframe | null;
+  return stored && Object.values(Timeframe).includes(stored) ? stored : Timeframe.M1;
+};
+
+const loadWeighting = (): WeightingMethod => {
+  const stored = localStorage.getItem(WEIGHTING_STORAGE_KEY) as WeightingMethod | null;
+  return stored && stored in WEIGHTING_STRATEGIES ? stored : WeightingMethod.VOLUME;
+};
+
+const loadUniverseRules = (): UniverseRules => readSettings(UNIVERSE_STORAGE_KEY, DEFAULT_UNIVERSE_RULES);
+
+const loadActiveIndex = (definitions: CustomIndexDefinition[]): CustomIndexDefinition | null => {
+  const id = localStorage.getItem(ACTIVE_INDEX_STORAGE_KEY);
+  return definitions.find(d => d.id === id) ?? null;
 };
 
 const App = () => {
-  const [lang, setLang] = useState<Lang>(Lang.TW);
-  const t = TRANSLATIONS[lang];
+  const [lang, setLang] = useState<Lang>(loadLang);
+  const i18n = useMemo(() => createI18n(lang), [lang]);
+  const t = i18n.t;
+  const langRef = useRef(lang);
+  langRef.current = lang;
   
   const [coins, setCoins] = useState<Coin[]>([]);
   const [etfState, setEtfState] = useState<EtfState>({
@@ -44,174 +126,699 @@ const App = () => {
     lastUpdate: Date.now()
   });
 
+  const etfStateRef = useRef(etfState);
+  const [quality, setQuality] = useState<IndexQuality | null>(null);
+
   const [candleData, setCandleData] = useState<CandleData[]>([]);
-  const [isConnected, setIsConnected] = useState(false);
+  // Higher-timeframe candles rolled up by the worker, reaching back as far as IndexedDB does
+  const [candleRollups, setCandleRollups] = useState<TimeframeSeries>({});
+  const [timeframe, setTimeframe] = useState<Timeframe>(loadTimeframe);
+  const [connection, setConnection] = useState<ConnectionStatus>({
+    state: ConnectionState.IDLE,
+    latencyMs: null,
+    lastMessageAt: null,
+    reconnectAttempt: 0
+  });
   
+  // The dashboard shows either the main index (null) or one custom index
+  const [customIndices, setCustomIndices] = useState<CustomIndexDefinition[]>(loadCustomIndices);
+  const [activeIndex, setActiveIndex] = useState<CustomIndexDefinition | null>(() => loadActiveIndex(customIndices));
+  const activeIndexRef = useRef(activeIndex);
+  const [customIndexIssues, setCustomIndexIssues] = useState<Record<string, CustomIndexIssue>>({});
+  const sessionRef = useRef(0);
+
   // Refs for tracking data inside closures/intervals
   const coinsRef = useRef<Coin[]>([]);
   const etfHistoryRef = useRef<CandleData[]>([]);
+  const compositionRef = useRef<IndexComposition | null>(loadComposition(activeIndex?.id));
+  const hasLevelRef = useRef(false);
+  const backfilledRef = useRef(false);
+  const candleRollupsRef = useRef<TimeframeSeries>({});
+  // Start of backfilled candles still to be written, once the worker has rolled them up
+  const unsavedSinceRef = useRef<number | null>(null);
+  const priceHistoryRef = useRef<PriceSnapshot[]>([]);
+
+  const [weighting, setWeighting] = useState<WeightingMethod>(loadWeighting);
+  const weightingRef = useRef(weighting);
+  const [universeRules, setUniverseRules] = useState<UniverseRules>(loadUniverseRules);
+  const universeRulesRef = useRef(universeRules);
+
+  const [rebalanceLog, setRebalanceLog] = useState<RebalanceRecord[]>([]);
+  const rebalanceLogRef = useRef(rebalanceLog);
+  // The main index's log while a custom index is on the dashboard, for the comparison chart
+  const [mainRebalanceLog, setMainRebalanceLog] = useState<RebalanceRecord[]>([]);
+  const [dataSource, setDataSource] = useState<DataSourceId>(loadDataSource);
+  const sourceRef = useRef<MarketDataSource>(DATA_SOURCES[dataSource]);
+  const workerRef = useRef<IndexWorker | null>(null);
+  // Replay ticks are produced on this thread and handed to the worker with each frame
+  const subscriptionRef = useRef<TickerSubscription | null>(null);
+  const replayUpdatesRef = useRef<TickerUpdate[]>([]);
+  const stopSchedulerRef = useRef<() => void>(() => {});
+
+  const recorderRef = useRef<Recorder | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const replayRef = useRef<ReplayController | null>(null);
+  const [replay, setReplay] = useState<ReplayState | null>(null);
+  const replayFileRef = useRef<HTMLInputElement>(null);
+
+  const [attributionWindow, setAttributionWindow] = useState<AttributionWindow>(AttributionWindow.SINCE_OPEN);
+  const [highlightedPair, setHighlightedPair] = useState<string | null>(null);
+  const [showFactsheet, setShowFactsheet] = useState(false);
+  const [isComparing, setIsComparing] = useState(false);
+  const [selectedPair, setSelectedPair] = useState<string | null>(readHashPair);
+  const chartRef = useRef<HTMLDivElement>(null);
+
+  const [alertRules, setAlertRules] = useState<AlertRule[]>(loadAlertRules);
+  const alertRulesRef = useRef(alertRules);
+  const [alertLog, setAlertLog] = useState<AlertEvent[]>(loadAlertLog);
+  const alertLogRef = useRef(alertLog);
+  const alertStatesRef = useRef(initialAlertStates(alertLog));
+
+  // coinsRef, compositionRef and etfHistoryRef mirror the worker's state; every change
+  // made on this thread is forwarded so both sides agree
+  const activateCoins = (nextCoins: Coin[]) => {
+    coinsRef.current = nextCoins;
+    setCoins(nextCoins);
+    workerRef.current?.setCoins(nextCoins);
+  };
+
+  const activateComposition = (composition: IndexComposition | null) => {
+    compositionRef.current = composition;
+    workerRef.current?.setComposition(composition);
+  };
+
+  const activateHistory = (history: CandleData[]) => {
+    etfHistoryRef.current = history;
+    setCandleData(history);
+    workerRef.current?.setHistory(history);
+  };
+
+  // The worker keeps one live connection and re-subscribes in place when constituents change
+  const connectStream = (pairs: string[]) => {
+    if (!replayRef.current) {
+      workerRef.current?.subscribe(sourceRef.current.id, pairs);
+      return;
+    }
+    if (subscriptionRef.current) {
+      subscriptionRef.current.setPairs(pairs);
+      return;
+    }
+    subscriptionRef.current = sourceRef.current.subscribeTickers(pairs, update => replayUpdatesRef.current.push(update), setConnection);
+  };
+
+  const disconnectStream = () => {
+    workerRef.current?.unsubscribe();
+    subscriptionRef.current?.close();
+    subscriptionRef.current = null;
+    replayUpdatesRef.current = [];
+  };
+
+  const recordRebalance = (record: RebalanceRecord, basket: Coin[]) => {
+    recorderRef.current?.recordRebalance(record, basket);
+    const custom = activeIndexRef.current;
+    const next = custom
+      ? appendCustomRebalanceRecord(custom.id, rebalanceLogRef.current, record)
+      : appendRebalanceRecord(rebalanceLogRef.current, record);
+    rebalanceLogRef.current = next;
+    setRebalanceLog(next);
+  };
+
+  // Full rebalance: universe rules re-run (or the custom basket is re-priced), new weights,
+  // basket chain-linked onto the previous one
+  const runRebalance = async (trigger: RebalanceTrigger) => {
+    const source = sourceRef.current;
+    const custom = activeIndexRef.current;
+    const currentPairs = Object.keys(compositionRef.current?.quantities ?? {});
+    const universe = custom
+      ? await source.fetchTickers(custom.pairs)
+      : await buildUniverse(source, universeRulesRef.current, currentPairs, Date.now());
+    if (universe.length === 0) throw new Error('Empty universe');
+
+    const method = custom?.weighting ?? weightingRef.current;
+    const weighted = applyWeighting(universe, WEIGHTING_STRATEGIES[method]);
+    const { composition, record } = await rebalanceFromSource(
+      source, compositionRef.current, weighted, method, trigger, Date.now(),
+      custom ? { timestamp: custom.baseDate, value: custom.baseValue } : undefined
+    );
+    activateComposition(composition);
+    saveComposition(composition, custom?.id);
+    recordRebalance(record, weighted);
+
+    activateCoins(weighted);
+    connectStream(weighted.map(c => c.pair));
+    backfillHistory().catch(error => console.error("History backfill failed:", error));
+  };
+
+  // Page load between rebalances: rebuild the current basket from the log at live prices
+  const restoreUniverse = async (record: RebalanceRecord) => {
+    const tickers = await sourceRef.current.fetchTickers(Object.keys(record.weights));
+    const restored = tickers
+      .map(c => ({ ...c, weight: record.weights[c.pair] ?? 0 }))
+      .sort((a, b) => b.volume24h - a.volume24h);
+
+    activateCoins(restored);
+    connectStream(restored.map(c => c.pair));
+    backfillHistory().catch(error => console.error("History backfill failed:", error));
+  };
+
+  // Rebuild the last 24h of index candles from klines so the chart isn't empty on load.
+  // Live candles built while this runs are stitched on top.
+  const backfillHistory = async () => {
+    const composition = compositionRef.current;
+    if (!composition || backfilledRef.current) return;
+    backfilledRef.current = true;
+
+    // Only fetch what IndexedDB didn't already give us
+    const now = Date.now();
+    const stored = etfHistoryRef.current;
+    const lastStored = stored.length > 0 ? stored[stored.length - 1].time : 0;
+    const startTime = Math.max(now - BACKFILL_WINDOW_MS, lastStored);
+
+    const history = await backfillIndexHistory(sourceRef.current, rebalanceLogRef.current, composition, Timeframe.M1, startTime, now);
+    const merged = mergeCandles(history, etfHistoryRef.current).slice(-MAX_CANDLES);
+    unsavedSinceRef.current = startTime;
+    activateHistory(merged);
+  };
+
+  // Write the base candles from `time` on and every bucket they touch in the higher timeframes
+  const persistCandles = (time: number) => {
+    Object.values(Timeframe).forEach(tf => {
+      const since = bucketStart(time, tf);
+      const series = tf === Timeframe.M1 ? etfHistoryRef.current : candleRollupsRef.current[tf] ?? [];
+      const candles = series.filter(c => c.time >= since);
+      if (candles.length > 0) saveCandles(tf, candles).catch(error => console.error("Failed to save candles:", error));
+    });
+  };
+
+  // Load everything IndexedDB has before any live data arrives.
+  // Custom indices only keep their log; their candles come from the backfill.
+  const rehydrate = async () => {
+    const custom = activeIndexRef.current;
+    if (custom) {
+      const log = loadCustomRebalanceLog(custom.id);
+      rebalanceLogRef.current = log;
+      setRebalanceLog(log);
+      return;
+    }
 
-  // 1. Initialize: Fetch Top 50 and Setup Structure
+    try {
+      await pruneCandles();
+      const [log, base, state, ...archives] = await Promise.all([
+        loadRebalanceLog(),
+        loadCandles(Timeframe.M1),
+        loadEtfState(),
+        ...ROLLUP_TIMEFRAMES.map(tf => loadCandles(tf))
+      ]);
+
+      rebalanceLogRef.current = log;
+      setRebalanceLog(log);
+
+      workerRef.current?.setArchive(Object.fromEntries(ROLLUP_TIMEFRAMES.map((tf, i) => [tf, archives[i]])));
+
+      activateHistory(mergeCandles(base, etfHistoryRef.current).slice(-MAX_CANDLES));
+
+      // Only trust the stored high/low while they still describe the last 24h.
+      // The worker ignores it if a live level already exists.
+      if (state && Date.now() - state.lastUpdate < BACKFILL_WINDOW_MS) {
+        workerRef.current?.restoreState(state);
+      }
+    } catch (error) {
+      console.error("Failed to rehydrate from IndexedDB:", error);
+    }
+  };
+
+  const getLastRun = () => {
+    const log = rebalanceLogRef.current;
+    return log.length > 0 ? log[log.length - 1].timestamp : null;
+  };
+
+  // Rehydrate, restore the current basket, then let the scheduler own rebalancing
+  const startLive = async (isDisposed: () => boolean) => {
+    await rehydrate();
+    if (isDisposed()) return;
+
+    const lastRun = getLastRun();
+    if (lastRun !== null && !isRebalanceDue(lastRun, Date.now())) {
+      restoreUniverse(rebalanceLogRef.current[rebalanceLogRef.current.length - 1])
+        .catch(error => console.error("Failed to restore the universe:", error));
+    }
+
+    // Daily Rebalance at 00:00 UTC+8, caught up after the tab sleeps
+    stopSchedulerRef.current = createRebalanceScheduler({
+      getLastRun,
+      onDue: () => runRebalance(compositionRef.current ? RebalanceTrigger.SCHEDULED : RebalanceTrigger.INITIAL)
+    });
+  };
+
+  const stopLive = () => {
+    stopSchedulerRef.current();
+    stopSchedulerRef.current = () => {};
+    disconnectStream();
+  };
+
+  // 1. Initialize
   useEffect(() => {
-    const init = async () => {
-      const top50 = await fetchTop50Coins();
-      
-      // Calculate Total Volume for Weighting
-      const totalVol = top50.reduce((acc, curr) => acc + parseFloat(curr.quoteVolume), 0);
-
-      const initialCoins: Coin[] = top50.map(t => ({
-        symbol: t.symbol.replace('USDT', ''),
-        pair: t.symbol,
-        price: parseFloat(t.lastPrice),
-        change24h: parseFloat(t.priceChangePercent),
-        volume24h: parseFloat(t.quoteVolume),
-        weight: parseFloat(t.quoteVolume) / totalVol // Weight by Volume
-      }));
-
-      setCoins(initialCoins);
-      coinsRef.current = initialCoins;
-
-      // Start Websocket
-      const symbols = initialCoins.map(c => c.symbol + 'USDT'); // Ensure symbol format
-      const ws = connectBinanceWS(symbols, handleWsMessage);
-      
-      ws.onopen = () => setIsConnected(true);
-      ws.onclose = () => setIsConnected(false);
-
-      return () => ws.close();
-    };
+    let disposed = false;
+    workerRef.current = createIndexWorker({ onSnapshot: handleSnapshot, onStatus: setConnection });
+    workerRef.current.setComposition(compositionRef.current);
+    startLive(() => disposed);
 
-    init();
-    
-    // Simulate Daily Rebalance Check (Polling every minute)
-    const interval = setInterval(() => {
-      const now = new Date();
-      // UTC+8 00:00 is UTC 16:00
-      if (now.getUTCHours() === 16 && now.getUTCMinutes() === 0) {
-         init(); // Re-fetch and re-weight
+    // Periodically write the live tail so a refresh loses at most a few seconds
+    const flushInterval = setInterval(() => {
+      // Replayed sessions and custom indices never touch stored history
+      if (replayRef.current || activeIndexRef.current) return;
+      const history = etfHistoryRef.current;
+      if (history.length > 0) persistCandles(history[Math.max(0, history.length - 2)].time);
+      if (hasLevelRef.current) {
+        saveEtfState(etfStateRef.current).catch(error => console.error("Failed to save state:", error));
       }
-    }, 60000);
+    }, CANDLE_FLUSH_INTERVAL_MS);
 
-    return () => clearInterval(interval);
+    return () => {
+      disposed = true;
+      clearInterval(flushInterval);
+      stopLive();
+      replayRef.current?.dispose();
+      workerRef.current?.terminate();
+      workerRef.current = null;
+    };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
-  // 2. Handle Real-time Ticker Updates
-  const handleWsMessage = (data: any) => {
-    // Data format: { e: '24hrMiniTicker', s: 'BTCUSDT', c: '95000', o: '94000', ... }
-    const symbol = data.s; // Pair name
-    const price = parseFloat(data.c);
-    
-    // Binance miniTicker does NOT contain 'P' (percentage change). 
-    // We must calculate it manually using 'c' (close) and 'o' (open).
-    let percentChange = 0;
-    
-    if (data.P !== undefined) {
-      // If full ticker stream is used (not current case, but safe fallback)
-      percentChange = parseFloat(data.P);
-    } else if (data.c && data.o) {
-      const openPrice = parseFloat(data.o);
-      const closePrice = parseFloat(data.c);
-      if (openPrice !== 0) {
-        percentChange = ((closePrice - openPrice) / openPrice) * 100;
-      }
+  // Clear everything derived from the feed before switching between live and replay
+  const resetSession = () => {
+    workerRef.current?.reset();
+    activateCoins([]);
+    setQuality(null);
+    etfHistoryRef.current = [];
+    setCandleData([]);
+    priceHistoryRef.current = [];
+    candleRollupsRef.current = {};
+    setCandleRollups({});
+    unsavedSinceRef.current = null;
+    hasLevelRef.current = false;
+    backfilledRef.current = false;
+  };
+
+  const startRecording = () => {
+    const recorder = createRecorder(dataSource);
+    // Seed with the current basket so the file replays on its own
+    const log = rebalanceLogRef.current;
+    if (log.length > 0) recorder.recordRebalance({ ...log[log.length - 1], composition: compositionRef.current ?? undefined }, coinsRef.current);
+    recorderRef.current = recorder;
+    workerRef.current?.setRecording(true);
+    setIsRecording(true);
+  };
+
+  const stopRecording = () => {
+    if (recorderRef.current) downloadRecording(recorderRef.current);
+    recorderRef.current = null;
+    workerRef.current?.setRecording(false);
+    setIsRecording(false);
+  };
+
+  // A replayed rebalance swaps the basket in place; nothing is logged or saved
+  const applyReplayRebalance = (event: RebalanceEvent) => {
+    const { record, coins: replayCoins } = event;
+    activateComposition(record.composition ?? buildComposition(record.weights, toPriceMap(replayCoins), record.level, record.timestamp));
+    activateCoins(replayCoins);
+    connectStream(replayCoins.map(c => c.pair));
+  };
+
+  const loadReplay = async (file: File) => {
+    let recording: Recording;
+    try {
+      recording = parseRecording(await file.text());
+    } catch (error) {
+      window.alert(`${t.replayLoadFailed}: ${(error as Error).message}`);
+      return;
     }
-    
-    // Update the specific coin in the ref array
-    const index = coinsRef.current.findIndex(c => c.pair === symbol);
-    if (index !== -1) {
-      const updatedCoins = [...coinsRef.current];
-      // Check for validity before updating
-      if (!isNaN(price) && !isNaN(percentChange)) {
-        updatedCoins[index] = {
-          ...updatedCoins[index],
-          price: price,
-          change24h: percentChange
-        };
-        coinsRef.current = updatedCoins;
-      }
+
+    if (recorderRef.current) stopRecording();
+    stopLive();
+    replayRef.current?.dispose();
+    resetSession();
+
+    const controller = createReplayController(recording, {
+      onRebalance: applyReplayRebalance,
+      onRewind: () => {
+        resetSession();
+        replayUpdatesRef.current = [];
+      },
+      onFrame: (now) => {
+        workerRef.current?.tick(now, replayUpdatesRef.current);
+        replayUpdatesRef.current = [];
+      },
+      onState: setReplay
+    });
+    replayRef.current = controller;
+    workerRef.current?.setExternalClock(true);
+    sourceRef.current = createReplaySource(controller, recording);
+    controller.seek(recording.events[0].t);
+  };
+
+  const exitReplay = () => {
+    replayRef.current?.dispose();
+    disconnectStream();
+    replayRef.current = null;
+    setReplay(null);
+    workerRef.current?.setExternalClock(false);
+
+    resetSession();
+    sourceRef.current = DATA_SOURCES[dataSource];
+    activateComposition(loadComposition(activeIndexRef.current?.id));
+    startLive(() => replayRef.current !== null);
+  };
+
+  // Switching methodology is an ad-hoc rebalance: re-weight at current prices and chain-link
+  const changeWeighting = (method: WeightingMethod) => {
+    const custom = activeIndexRef.current;
+    if (custom) {
+      const updated = { ...custom, weighting: method };
+      activeIndexRef.current = updated;
+      setActiveIndex(updated);
+      updateCustomIndices(customIndices.map(d => (d.id === updated.id ? updated : d)));
+    } else {
+      setWeighting(method);
+      weightingRef.current = method;
+      localStorage.setItem(WEIGHTING_STORAGE_KEY, method);
     }
+
+    const composition = compositionRef.current;
+    if (!composition || coinsRef.current.length === 0) return;
+
+    const reweighted = applyWeighting(coinsRef.current, WEIGHTING_STRATEGIES[method]);
+    const result = executeRebalance(composition, reweighted, toPriceMap(reweighted), method, RebalanceTrigger.METHODOLOGY, Date.now());
+    activateComposition(result.composition);
+    saveComposition(result.composition, custom?.id);
+    recordRebalance(result.record, reweighted);
+
+    activateCoins(reweighted);
   };
 
-  // 3. ETF Calculation Loop (Every 1s)
-  useEffect(() => {
-    const calcInterval = setInterval(() => {
-      const currentCoins = coinsRef.current;
-      if (currentCoins.length === 0) return;
-
-      // Calculate Synthetic Index Price
-      const calculatedPrice = calculateEtfPrice(currentCoins, BASE_INDEX_VALUE);
-
-      setEtfState(prev => {
-        const newHigh = Math.max(prev.highPrice, calculatedPrice);
-        const newLow = Math.min(prev.lowPrice, calculatedPrice);
-        // Base is 1000. 
-        const changeVal = calculatedPrice - BASE_INDEX_VALUE;
-        const changePct = (changeVal / BASE_INDEX_VALUE) * 100;
-
-        return {
-          currentPrice: calculatedPrice,
-          openPrice: BASE_INDEX_VALUE, // Reset daily in real app
-          highPrice: newHigh,
-          lowPrice: newLow,
-          change24h: changeVal,
-          changePercent: changePct,
-          lastUpdate: Date.now()
-        };
+  const updateCustomIndices = (definitions: CustomIndexDefinition[]) => {
+    setCustomIndices(definitions);
+    saveCustomIndices(definitions);
+  };
+
+  // Rebalance a custom index off screen and keep what went wrong for the manager to show
+  const rebalanceOffScreen = async (definition: CustomIndexDefinition, trigger: RebalanceTrigger) => {
+    let issue: CustomIndexIssue;
+    try {
+      issue = { unpriced: await rebalanceCustomIndex(sourceRef.current, definition, trigger, Date.now()), error: null };
+    } catch (error) {
+      console.error(`Failed to rebalance ${definition.name}:`, error);
+      issue = { unpriced: [], error: (error as Error).message };
+    }
+    setCustomIndexIssues(prev => ({ ...prev, [definition.id]: issue }));
+  };
+
+  // Swap what the dashboard tracks: tear the live session down and start it on the other basket
+  const viewIndex = (definition: CustomIndexDefinition | null) => {
+    if (replayRef.current) return;
+
+    stopLive();
+    resetSession();
+    activeIndexRef.current = definition;
+    setActiveIndex(definition);
+    if (definition) localStorage.setItem(ACTIVE_INDEX_STORAGE_KEY, definition.id);
+    else localStorage.removeItem(ACTIVE_INDEX_STORAGE_KEY);
+
+    activateComposition(loadComposition(definition?.id));
+    rebalanceLogRef.current = [];
+    setRebalanceLog([]);
+    const session = ++sessionRef.current;
+    startLive(() => sessionRef.current !== session);
+  };
+
+  // New definitions are based immediately; a changed base date or value re-bases from scratch,
+  // any other edit is a methodology rebalance. The index on screen is then reloaded.
+  const saveCustomIndex = async (definition: CustomIndexDefinition) => {
+    const existing = customIndices.find(d => d.id === definition.id);
+    const rebased = !existing || existing.baseDate !== definition.baseDate || existing.baseValue !== definition.baseValue;
+    const definitions = existing
+      ? customIndices.map(d => (d.id === definition.id ? definition : d))
+      : [...customIndices, definition];
+    updateCustomIndices(definitions);
+
+    if (rebased) clearCustomIndexData(definition.id);
+    await rebalanceOffScreen(definition, rebased ? RebalanceTrigger.INITIAL : RebalanceTrigger.METHODOLOGY);
+    if (activeIndexRef.current?.id === definition.id) viewIndex(definition);
+  };
+
+  const deleteCustomIndex = (id: string) => {
+    if (activeIndexRef.current?.id === id) viewIndex(null);
+    updateCustomIndices(customIndices.filter(d => d.id !== id));
+    clearCustomIndexData(id);
+    setCustomIndexIssues(prev => Object.fromEntries(Object.entries(prev).filter(([key]) => key !== id)));
+  };
+
+  // Imported ids replace local definitions with the same id
+  const importCustomIndices = (imported: CustomIndexDefinition[]) => {
+    const ids = new Set(imported.map(d => d.id));
+    updateCustomIndices([...customIndices.filter(d => !ids.has(d.id)), ...imported]);
+    imported.forEach(definition => {
+      clearCustomIndexData(definition.id);
+      rebalanceOffScreen(definition, RebalanceTrigger.INITIAL)
+        .then(() => { if (activeIndexRef.current?.id === definition.id) viewIndex(definition); });
+    });
+  };
+
+  // New selection rules take effect immediately through a methodology rebalance
+  const changeUniverseRules = (rules: UniverseRules) => {
+    setUniverseRules(rules);
+    universeRulesRef.current = rules;
+    localStorage.setItem(UNIVERSE_STORAGE_KEY, JSON.stringify(rules));
+
+    runRebalance(RebalanceTrigger.METHODOLOGY).catch(error => console.error("Universe rebalance failed:", error));
+  };
+
+  // Swap the live feed. The basket is untouched; only the prices it's valued at change venue.
+  const changeDataSource = (id: DataSourceId) => {
+    setDataSource(id);
+    sourceRef.current = DATA_SOURCES[id];
+    localStorage.setItem(DATA_SOURCE_STORAGE_KEY, id);
+
+    disconnectStream();
+    const pairs = coinsRef.current.map(c => c.pair);
+    if (pairs.length > 0) connectStream(pairs);
+  };
+
+  // 2. Snapshots from the index worker (stream ingestion and index math run there).
+  // `time` is wall-clock time live, or the playhead during replay.
+  const handleSnapshot = (snapshot: IndexSnapshot) => {
+    snapshot.updates.forEach(({ update, t }) => recorderRef.current?.recordTicker(update, t));
+
+    if (snapshot.coins) {
+      coinsRef.current = snapshot.coins;
+      setCoins(snapshot.coins);
+    }
+    if (snapshot.candles.length > 0) {
+      const history = upsertCandles(etfHistoryRef.current, snapshot.candles, MAX_CANDLES);
+      etfHistoryRef.current = history;
+      setCandleData(history);
+    }
+    if (snapshot.rebuilt) {
+      candleRollupsRef.current = snapshot.rollups;
+      setCandleRollups(snapshot.rollups);
+      // Backfilled candles are written once the worker has rolled them up
+      if (unsavedSinceRef.current !== null) persistCandles(unsavedSinceRef.current);
+      unsavedSinceRef.current = null;
+    } else if (Object.keys(snapshot.rollups).length > 0) {
+      const rollups = { ...candleRollupsRef.current };
+      (Object.keys(snapshot.rollups) as Timeframe[]).forEach(tf => {
+        rollups[tf] = upsertCandles(rollups[tf] ?? [], snapshot.rollups[tf] ?? [], Infinity);
       });
+      candleRollupsRef.current = rollups;
+      setCandleRollups(rollups);
+    }
+    if (snapshot.quality) setQuality(snapshot.quality);
+    if (snapshot.state) {
+      etfStateRef.current = snapshot.state;
+      setEtfState(snapshot.state);
+      hasLevelRef.current = true;
+    }
 
-      // Update Chart Data (Simulate 1-minute candles for the demo by sampling every second)
-      updateCandleHistory(calculatedPrice);
-      
-      // Update Table UI
-      setCoins([...currentCoins]);
+    // Restored states arrive without a tick
+    if (snapshot.time === null || !snapshot.state) return;
+    const currentCoins = coinsRef.current;
+    priceHistoryRef.current = recordPriceSnapshot(
+      priceHistoryRef.current, snapshot.time, toPriceMap(currentCoins), PRICE_SNAPSHOT_INTERVAL_MS, PRICE_HISTORY_MS
+    );
+    // Alerts watch live data only; replayed history would notify about the past
+    if (!replayRef.current) checkAlerts(snapshot.state.currentPrice, currentCoins, snapshot.time);
+  };
 
-    }, 1000);
+  const checkAlerts = (level: number, currentCoins: Coin[], now: number) => {
+    const composition = compositionRef.current;
+    if (!composition || alertRulesRef.current.length === 0) return;
+    const prices = toPriceMap(currentCoins);
+    const { states, events } = evaluateAlerts(alertRulesRef.current, alertStatesRef.current, {
+      level,
+      levelHistory: etfHistoryRef.current,
+      prices,
+      weights: computeMarketWeights(composition, prices)
+    }, now);
+    alertStatesRef.current = states;
+    if (events.length === 0) return;
 
-    return () => clearInterval(calcInterval);
-  }, []);
+    const next = appendAlertEvents(alertLogRef.current, events);
+    alertLogRef.current = next;
+    setAlertLog(next);
+    const localized = createI18n(langRef.current);
+    events.forEach(e => showAlertNotification(
+      localized.t.alertTriggered,
+      `${describeAlertRule(e.rule, localized)} · ${formatAlertValue(e.rule.kind, e.value, localized)}`,
+      e.rule.id
+    ));
+  };
 
-  const updateCandleHistory = (price: number) => {
-    const now = Date.now();
-    // Round down to nearest minute
-    const timeBucket = Math.floor(now / 60000) * 60000; 
-
-    let history = [...etfHistoryRef.current];
-    const lastCandle = history[history.length - 1];
-
-    if (lastCandle && lastCandle.time === timeBucket) {
-      // Update current candle
-      lastCandle.high = Math.max(lastCandle.high, price);
-      lastCandle.low = Math.min(lastCandle.low, price);
-      lastCandle.close = price;
-      history[history.length - 1] = lastCandle;
+  const changeAlertRules = (rules: AlertRule[]) => {
+    alertRulesRef.current = rules;
+    setAlertRules(rules);
+    saveAlertRules(rules);
+  };
+
+  const clearAlerts = () => {
+    clearAlertLog();
+    alertLogRef.current = [];
+    setAlertLog([]);
+  };
+
+  const indexName = activeIndex?.name ?? t.title;
+
+  const exportChartSnapshot = async () => {
+    if (!chartRef.current) return;
+    try {
+      await exportChartPng(
+        chartRef.current,
+        indexName,
+        `${timeframe} · ${i18n.formatDateTime(Date.now())}`,
+        exportFilename(indexName, `chart-${timeframe}`, 'png')
+      );
+    } catch (error) {
+      console.error("Chart snapshot failed:", error);
+      window.alert(`${t.exportFailed}: ${(error as Error).message}`);
+    }
+  };
+
+  const changeLang = (next: Lang) => {
+    setLang(next);
+    saveLang(next);
+  };
+
+  const changeTimeframe = (tf: Timeframe) => {
+    setTimeframe(tf);
+    localStorage.setItem(TIMEFRAME_STORAGE_KEY, tf);
+  };
+
+  const candleSeries = useMemo(
+    (): TimeframeSeries => ({ ...candleRollups, [Timeframe.M1]: candleData }),
+    [candleData, candleRollups]
+  );
+
+  const chartCandles = useMemo(
+    () => (candleSeries[timeframe] ?? []).slice(-MAX_CHART_CANDLES),
+    [candleSeries, timeframe]
+  );
+
+  useEffect(() => {
+    if (!activeIndex) return;
+    let cancelled = false;
+    loadRebalanceLog().then(log => {
+      if (!cancelled) setMainRebalanceLog(log);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [activeIndex]);
+
+  // Every index except the one on the dashboard, for the comparison chart
+  const comparisonIndices = useMemo((): ComparisonIndex[] => {
+    const candidates = [
+      { id: 'main', name: t.mainIndex, composition: activeIndex ? loadComposition() : null, log: mainRebalanceLog },
+      ...customIndices
+        .filter(d => d.id !== activeIndex?.id)
+        .map(d => ({ id: d.id, name: d.name, composition: loadComposition(d.id), log: loadCustomRebalanceLog(d.id) }))
+    ];
+    return candidates.filter((c): c is ComparisonIndex => c.composition !== null);
+  }, [customIndices, activeIndex, rebalanceLog, mainRebalanceLog, t]);
+
+  // Start prices per window; the basket is always the current composition.
+  // Null when the session hasn't recorded prices far enough back for the window.
+  const contributions = useMemo(() => {
+    const composition = compositionRef.current;
+    if (!composition || coins.length === 0) return [];
+    const current = toPriceMap(coins);
+    let start: PriceMap;
+    if (attributionWindow === AttributionWindow.SINCE_OPEN) {
+      start = toPriceMap(coins, true);
+    } else if (attributionWindow === AttributionWindow.ONE_HOUR) {
+      const snapshot = findSnapshotAt(priceHistoryRef.current, etfState.lastUpdate - 60 * 60 * 1000);
+      if (!snapshot) return null;
+      start = snapshot.prices;
     } else {
-      // New Candle
-      const newCandle: CandleData = {
-        time: timeBucket,
-        open: lastCandle ? lastCandle.close : price,
-        high: price,
-        low: price,
-        close: price
-      };
-      history.push(newCandle);
-      // Keep only last 100 candles for performance/display
-      if (history.length > 100) history.shift();
+      start = composition.referencePrices;
     }
+    return computeAttribution(composition, start, current);
+  }, [coins, attributionWindow, etfState.lastUpdate]);
 
-    etfHistoryRef.current = history;
-    setCandleData(history);
+  // Market-value weights of the current basket, for constituent ranks and the concentration metrics
+  const marketWeights = useMemo(() => {
+    const composition = compositionRef.current;
+    if (!composition || coins.length === 0) return {};
+    return computeMarketWeights(composition, toPriceMap(coins));
+  }, [coins]);
+  const currentWeights = useMemo(() => Object.values(marketWeights), [marketWeights]);
+
+  // Screen readers, hyphenation and CJK font selection follow the page language
+  useEffect(() => {
+    document.documentElement.lang = i18n.locale;
+  }, [i18n]);
+
+  useEffect(() => {
+    const onHashChange = () => setSelectedPair(readHashPair());
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
+  const openConstituent = (pair: string) => {
+    window.location.hash = `coin=${pair}`;
+  };
+
+  const closeConstituent = useCallback(() => {
+    history.replaceState(null, '', window.location.pathname + window.location.search);
+    setSelectedPair(null);
+  }, []);
+
+  const closeFactsheet = useCallback(() => setShowFactsheet(false), []);
+
+  const selectedCoin = selectedPair ? coins.find(c => c.pair === selectedPair) ?? null : null;
+  // Today's move is the since-open window whatever the attribution panel shows
+  const selectedContribution = useMemo(() => {
+    const composition = compositionRef.current;
+    if (!selectedCoin || !composition) return null;
+    return computeAttribution(composition, toPriceMap(coins, true), toPriceMap(coins))
+      .find(c => c.pair === selectedCoin.pair) ?? null;
+  }, [coins, selectedCoin]);
+
+  // Attribution tiles/bars jump to the matching constituents row
+  const selectConstituent = (pair: string) => {
+    setHighlightedPair(pair);
+    document.getElementById('constituents')?.scrollIntoView({ behavior: 'smooth', block: 'center' });
   };
 
   // UI Components
   const isPositive = etfState.changePercent >= 0;
   const textColor = isPositive ? 'text-binance-green' : 'text-binance-red';
   const ArrowIcon = isPositive ? ArrowUp : ArrowDown;
+  // While the factsheet is open, printing gives just the factsheet
+  const hideOnPrint = showFactsheet ? 'print:hidden' : '';
 
   return (
     <div className="min-h-screen bg-binance-dark text-binance-light font-sans selection:bg-binance-yellow selection:text-black">
       {/* Header */}
-      <header className="fixed top-0 w-full bg-binance-black border-b border-binance-gray/30 z-50 h-16 flex items-center justify-between px-4 lg:px-8">
+      <header className={`${hideOnPrint} fixed top-0 w-full bg-binance-black border-b border-binance-gray/30 z-50 h-16 flex items-center justify-between px-4 lg:px-8`}>
         <div className="flex items-center gap-3">
           <div className="bg-binance-yellow p-1.5 rounded-md">
             <Activity className="w-5 h-5 text-black" />
@@ -222,126 +829,321 @@ const App = () => {
 
         <div className="flex items-center gap-4">
           <div className="flex items-center gap-2 text-xs text-binance-text hidden md:flex">
-            <span className={`w-2 h-2 rounded-full ${isConnected ? 'bg-binance-green' : 'bg-red-500'} animate-pulse`}></span>
-            {t.connectStatus}: {isConnected ? 'Online' : 'Reconnecting...'}
+            <span className={`w-2 h-2 rounded-full ${CONNECTION_DOT[connection.state]} animate-pulse`}></span>
+            {t.connectStatus}: {t.connectionStates[connection.state]}
+            {connection.latencyMs !== null && (
+              <span className="font-mono">· {connection.latencyMs}ms</span>
+            )}
+            {connection.lastMessageAt !== null && (
+              <span className="font-mono">· {i18n.plural('lastMessage', Math.max(0, Math.round((Date.now() - connection.lastMessageAt) / 1000)))}</span>
+            )}
           </div>
           
-          <button 
-            onClick={() => setLang(l => l === Lang.EN ? Lang.TW : Lang.EN)}
+          {!replay && (
+            <button
+              onClick={isRecording ? stopRecording : startRecording}
+              title={isRecording ? t.stopRecording : t.record}
+              className="flex items-center gap-2 bg-binance-gray/20 hover:bg-binance-gray/40 px-3 py-1.5 rounded transition-colors text-sm font-medium"
+            >
+              <Circle className={`w-3 h-3 ${isRecording ? 'fill-binance-red text-binance-red animate-pulse' : ''}`} />
+              <span className="hidden lg:inline">{isRecording ? t.stopRecording : t.record}</span>
+            </button>
+          )}
+
+          <button
+            onClick={() => setShowFactsheet(true)}
+            title={t.methodology}
             className="flex items-center gap-2 bg-binance-gray/20 hover:bg-binance-gray/40 px-3 py-1.5 rounded transition-colors text-sm font-medium"
           >
-            <Globe className="w-4 h-4" />
-            {lang}
+            <FileText className="w-4 h-4" />
+            <span className="hidden lg:inline">{t.methodology}</span>
+          </button>
+
+          <button
+            onClick={() => replayFileRef.current?.click()}
+            title={t.loadReplay}
+            className="flex items-center gap-2 bg-binance-gray/20 hover:bg-binance-gray/40 px-3 py-1.5 rounded transition-colors text-sm font-medium"
+          >
+            <FolderOpen className="w-4 h-4" />
+            <span className="hidden lg:inline">{t.loadReplay}</span>
           </button>
+          <input
+            ref={replayFileRef}
+            type="file"
+            accept=".jsonl,.ndjson,application/x-ndjson"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) loadReplay(file);
+              e.target.value = '';
+            }}
+          />
+
+          <select
+            value={activeIndex?.id ?? ''}
+            disabled={replay !== null}
+            onChange={(e) => viewIndex(customIndices.find(d => d.id === e.target.value) ?? null)}
+            title={t.customIndices}
+            className="bg-binance-gray/20 hover:bg-binance-gray/40 border-none rounded px-2 py-1.5 text-sm font-medium text-binance-light focus:outline-none max-w-[10rem]"
+          >
+            <option value="" className="bg-binance-black">{t.mainIndex}</option>
+            {customIndices.map(d => (
+              <option key={d.id} value={d.id} className="bg-binance-black">{d.name}</option>
+            ))}
+          </select>
+
+          <select
+            value={dataSource}
+            disabled={replay !== null}
+            onChange={(e) => changeDataSource(e.target.value as DataSourceId)}
+            title={t.dataSource}
+            className="bg-binance-gray/20 hover:bg-binance-gray/40 border-none rounded px-2 py-1.5 text-sm font-medium text-binance-light focus:outline-none"
+          >
+            {Object.values(DataSourceId).map(id => (
+              <option key={id} value={id} className="bg-binance-black">{t.dataSources[id]}</option>
+            ))}
+          </select>
+
+          <label className="flex items-center gap-2 bg-binance-gray/20 hover:bg-binance-gray/40 px-3 py-1.5 rounded transition-colors text-sm font-medium" title={t.language}>
+            <Globe className="w-4 h-4" />
+            <select
+              value={lang}
+              onChange={(e) => changeLang(e.target.value as Lang)}
+              className="bg-transparent border-none text-binance-light focus:outline-none"
+            >
+              {Object.values(Lang).map(l => (
+                <option key={l} value={l} className="bg-binance-black">{LANGUAGE_NAMES[l]}</option>
+              ))}
+            </select>
+          </label>
         </div>
       </header>
 
       {/* Main Content */}
-      <main className="pt-20 pb-8 px-4 max-w-7xl mx-auto space-y-6">
+      <main className={`${hideOnPrint} pt-20 pb-8 px-4 max-w-7xl mx-auto space-y-6`}>
+        {replay && (
+          <ReplayControls
+            state={replay}
+            i18n={i18n}
+            onPlay={() => replayRef.current?.play()}
+            onPause={() => replayRef.current?.pause()}
+            onSpeed={(speed) => replayRef.current?.setSpeed(speed)}
+            onSeek={(time) => replayRef.current?.seek(time)}
+            onExit={exitReplay}
+          />
+        )}
         
         {/* Dashboard Overview */}
         <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
           
-          {/* Main Price Card */}
-          <div className="lg:col-span-1 bg-binance-black rounded-xl p-6 border border-binance-gray/20 shadow-xl relative overflow-hidden">
-            <div className="absolute top-0 right-0 p-4 opacity-10">
-              <Activity className="w-24 h-24" />
-            </div>
-            <h2 className="text-binance-text text-sm font-medium mb-1">{t.subtitle}</h2>
-            <div className={`text-4xl font-mono font-bold tracking-tighter my-2 ${textColor} transition-colors duration-300`}>
-              {etfState.currentPrice.toFixed(2)}
-            </div>
-            <div className={`flex items-center gap-2 text-sm font-medium ${textColor}`}>
-              <ArrowIcon className="w-4 h-4" />
-              <span>{etfState.change24h > 0 ? '+' : ''}{etfState.change24h.toFixed(2)}</span>
-              <span>({etfState.change24h > 0 ? '+' : ''}{etfState.changePercent.toFixed(2)}%)</span>
-            </div>
-            
-            <div className="mt-6 pt-6 border-t border-binance-gray/20 space-y-3">
-              <div className="flex justify-between text-sm">
-                <span className="text-binance-text">{t.high}</span>
-                <span className="font-mono">{etfState.highPrice.toFixed(2)}</span>
+          <div className="lg:col-span-1 flex flex-col gap-6">
+            {/* Main Price Card */}
+            <div className="bg-binance-black rounded-xl p-6 border border-binance-gray/20 shadow-xl relative overflow-hidden">
+              <div className="absolute top-0 right-0 p-4 opacity-10">
+                <Activity className="w-24 h-24" />
               </div>
-              <div className="flex justify-between text-sm">
-                <span className="text-binance-text">{t.low}</span>
-                <span className="font-mono">{etfState.lowPrice.toFixed(2)}</span>
+              <h2 className="text-binance-text text-sm font-medium mb-1">{activeIndex ? activeIndex.name : i18n.interpolate(t.subtitle[weighting], { count: universeRules.constituentCount, cap: i18n.formatPercent(WEIGHT_CAP) })}</h2>
+              {quality?.degraded && (
+                <div
+                  title={`${t.staleWeight}: ${i18n.formatPercent(quality.staleWeight)}`}
+                  className="inline-flex items-center gap-1 px-2 py-0.5 rounded bg-binance-red/20 text-binance-red text-xs font-medium"
+                >
+                  <AlertTriangle className="w-3 h-3" /> {t.degraded} · {i18n.formatPercent(quality.staleWeight)}
+                </div>
+              )}
+              <div className={`text-4xl font-mono font-bold tracking-tighter my-2 ${textColor} transition-colors duration-300`}>
+                {i18n.formatPrice(etfState.currentPrice)}
               </div>
-              <div className="flex justify-between text-sm">
-                <span className="text-binance-text text-xs flex items-center gap-1">
-                  <Clock className="w-3 h-3" /> Updated
-                </span>
-                <span className="font-mono text-xs text-binance-text">
-                  {new Date(etfState.lastUpdate).toLocaleTimeString()}
-                </span>
+              <div className={`flex items-center gap-2 text-sm font-medium ${textColor}`}>
+                <ArrowIcon className="w-4 h-4" />
+                <span>{i18n.formatNumber(etfState.change24h, 2, true)}</span>
+                <span>({i18n.formatPercent(etfState.changePercent / 100, true)})</span>
+              </div>
+              
+              <div className="mt-6 pt-6 border-t border-binance-gray/20 space-y-3">
+                <div className="flex justify-between items-center text-sm">
+                  <span className="text-binance-text">{t.weighting}</span>
+                  <select
+                    value={activeIndex?.weighting ?? weighting}
+                    disabled={replay !== null}
+                    onChange={(e) => changeWeighting(e.target.value as WeightingMethod)}
+                    className="bg-binance-dark border border-binance-gray/40 rounded px-2 py-1 text-xs text-binance-light focus:outline-none focus:border-binance-yellow"
+                  >
+                    {Object.values(WeightingMethod).map(m => (
+                      <option key={m} value={m}>{t.weightingMethods[m]}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-binance-text">{t.high}</span>
+                  <span className="font-mono">{i18n.formatPrice(etfState.highPrice)}</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-binance-text">{t.low}</span>
+                  <span className="font-mono">{i18n.formatPrice(etfState.lowPrice)}</span>
+                </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-binance-text text-xs flex items-center gap-1">
+                    <Clock className="w-3 h-3" /> {t.updated}
+                  </span>
+                  <span className="font-mono text-xs text-binance-text">
+                    {i18n.formatTime(etfState.lastUpdate)}
+                  </span>
+                </div>
               </div>
             </div>
+
+            <FundCard
+              daily={candleRollups[Timeframe.D1] ?? []}
+              level={etfState.currentPrice}
+              lastUpdate={etfState.lastUpdate}
+              i18n={i18n}
+            />
+
+            <RiskCard
+              series={candleSeries}
+              weights={currentWeights}
+              source={sourceRef.current}
+              i18n={i18n}
+            />
           </div>
 
           {/* Chart Section */}
           <div className="lg:col-span-3 bg-binance-black rounded-xl border border-binance-gray/20 shadow-xl flex flex-col">
-            <div className="p-4 border-b border-binance-gray/20 flex justify-between items-center">
+            <div className="p-4 border-b border-binance-gray/20 flex flex-wrap gap-2 justify-between items-center">
               <h3 className="font-semibold text-binance-light flex items-center gap-2">
-                {t.chart} <span className="text-xs font-normal text-binance-text">(1m interval)</span>
+                {t.chart}
+                {!isComparing && <span className="text-xs font-normal text-binance-text">{i18n.message('chartInterval', { timeframe })}</span>}
               </h3>
-              <div className="text-xs text-binance-text">{t.rebalanceInfo}</div>
+              <div className="flex items-center gap-1">
+                {[false, true].map(compare => (
+                  <button
+                    key={String(compare)}
+                    onClick={() => setIsComparing(compare)}
+                    className={`px-2 py-0.5 rounded text-xs transition-colors ${compare === isComparing ? 'bg-binance-gray/40 text-binance-light' : 'text-binance-text hover:bg-binance-gray/30'}`}
+                  >
+                    {compare ? t.compare : t.candles}
+                  </button>
+                ))}
+              </div>
+              <div className={`flex items-center gap-1 ${isComparing ? 'hidden' : ''}`}>
+                {Object.values(Timeframe).map(tf => (
+                  <button
+                    key={tf}
+                    onClick={() => changeTimeframe(tf)}
+                    className={`px-2 py-0.5 rounded text-xs font-mono transition-colors ${tf === timeframe ? 'bg-binance-yellow text-black' : 'text-binance-text hover:bg-binance-gray/30'}`}
+                  >
+                    {tf}
+                  </button>
+                ))}
+              </div>
+              <div className={`flex items-center gap-1 text-xs ${isComparing ? 'hidden' : ''}`}>
+                <Download className="w-3 h-3 text-binance-text" />
+                <button onClick={() => exportCandlesCsv(chartCandles, timeframe, indexName, t, lang)} className="px-2 py-0.5 rounded text-binance-text hover:bg-binance-gray/30 transition-colors">CSV</button>
+                <button onClick={() => exportCandlesJson(chartCandles, timeframe, indexName)} className="px-2 py-0.5 rounded text-binance-text hover:bg-binance-gray/30 transition-colors">JSON</button>
+                <button onClick={exportChartSnapshot} className="px-2 py-0.5 rounded text-binance-text hover:bg-binance-gray/30 transition-colors">PNG</button>
+              </div>
+              <div className="text-xs text-binance-text">
+                {i18n.message('rebalanceInfo', { time: i18n.formatTime(getNextScheduledRun(Date.now()), true) })} · {t.nextRebalanceIn} <span className="font-mono">{formatCountdown(getNextScheduledRun(Date.now()) - Date.now())}</span>
+              </div>
             </div>
-            <div className="flex-1 p-2 min-h-[300px]">
-              <CandleChart data={candleData} />
+            <div ref={chartRef} className="flex-1 p-2 min-h-[300px]">
+              {isComparing ? (
+                <ComparisonChart
+                  primaryName={activeIndex?.name ?? t.mainIndex}
+                  series={candleSeries}
+                  indices={comparisonIndices}
+                  source={sourceRef.current}
+                  i18n={i18n}
+                />
+              ) : (
+                <CandleChart data={chartCandles} timeframe={timeframe} lang={lang} />
+              )}
             </div>
           </div>
         </div>
 
-        {/* Constituents Table */}
-        <div className="bg-binance-black rounded-xl border border-binance-gray/20 shadow-xl overflow-hidden">
-          <div className="p-4 border-b border-binance-gray/20">
-            <h3 className="font-semibold text-lg">{t.composition}</h3>
-          </div>
-          <div className="overflow-x-auto">
-            <table className="w-full text-left border-collapse">
-              <thead>
-                <tr className="bg-binance-dark text-xs text-binance-text uppercase tracking-wider">
-                  <th className="p-4 font-medium sticky left-0 bg-binance-dark z-10 border-r border-binance-gray/20 sm:border-none">#</th>
-                  <th className="p-4 font-medium sticky left-8 sm:left-0 bg-binance-dark z-10">{t.symbol}</th>
-                  <th className="p-4 font-medium text-right">{t.lastPrice}</th>
-                  <th className="p-4 font-medium text-right">{t.change}</th>
-                  <th className="p-4 font-medium text-right">{t.weight}</th>
-                  <th className="p-4 font-medium text-right hidden md:table-cell">{t.volume}</th>
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-binance-gray/10 text-sm font-mono">
-                {coins.map((coin, idx) => (
-                  <tr key={coin.symbol} className="hover:bg-binance-light/5 transition-colors">
-                    <td className="p-4 text-binance-text sticky left-0 bg-binance-black sm:bg-transparent z-10">{idx + 1}</td>
-                    <td className="p-4 font-bold sticky left-8 sm:left-0 bg-binance-black sm:bg-transparent z-10">
-                      <div className="flex items-center gap-2">
-                        <img 
-                          src={`https://raw.githubusercontent.com/spothq/cryptocurrency-icons/master/32/icon/${coin.symbol.toLowerCase()}.png`} 
-                          alt={coin.symbol}
-                          className="w-5 h-5 rounded-full bg-white/10"
-                          onError={(e) => { (e.target as HTMLImageElement).style.display = 'none' }} 
-                        />
-                        {coin.symbol}
-                      </div>
-                    </td>
-                    <td className="p-4 text-right">${coin.price < 1 ? coin.price.toFixed(4) : coin.price.toFixed(2)}</td>
-                    <td className={`p-4 text-right ${coin.change24h >= 0 ? 'text-binance-green' : 'text-binance-red'}`}>
-                      {coin.change24h > 0 ? '+' : ''}{coin.change24h.toFixed(2)}%
-                    </td>
-                    <td className="p-4 text-right text-binance-yellow">{(coin.weight * 100).toFixed(2)}%</td>
-                    <td className="p-4 text-right text-binance-text hidden md:table-cell">
-                      {new Intl.NumberFormat('en-US', { notation: "compact", compactDisplay: "short" }).format(coin.volume24h)}
-                    </td>
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
-        </div>
+        <AttributionPanel
+          contributions={contributions}
+          window={attributionWindow}
+          onWindowChange={setAttributionWindow}
+          i18n={i18n}
+          highlightedPair={highlightedPair}
+          onSelect={selectConstituent}
+        />
+
+        <ConstituentsTable
+          coins={coins}
+          marketWeights={marketWeights}
+          lastRebalance={rebalanceLog.length > 0 ? rebalanceLog[rebalanceLog.length - 1] : null}
+          priceHistory={priceHistoryRef.current}
+          quality={quality}
+          indexName={indexName}
+          lang={lang}
+          highlightedPair={highlightedPair}
+          onHighlight={setHighlightedPair}
+          onOpen={openConstituent}
+        />
+
+        <RebalanceHistory log={rebalanceLog} indexName={indexName} i18n={i18n} />
+
+        <AlertsPanel
+          rules={alertRules}
+          log={alertLog}
+          coins={coins}
+          i18n={i18n}
+          onChangeRules={changeAlertRules}
+          onClearLog={clearAlerts}
+        />
+
+        <TrackingSimulator log={rebalanceLog} indexName={indexName} coins={coins} source={sourceRef.current} i18n={i18n} />
+
+        <CustomIndexManager
+          definitions={customIndices}
+          activeId={activeIndex?.id ?? null}
+          issues={customIndexIssues}
+          source={sourceRef.current}
+          i18n={i18n}
+          disabled={!!replay}
+          onView={viewIndex}
+          onSave={saveCustomIndex}
+          onDelete={deleteCustomIndex}
+          onImport={importCustomIndices}
+        />
+
+        <UniverseSettings rules={universeRules} i18n={i18n} disabled={!!replay || !!activeIndex} onApply={changeUniverseRules} />
       </main>
 
-      <footer className="py-6 text-center text-xs text-binance-text border-t border-binance-gray/20">
-        <p>Crypto50 ETF &copy; 2025. Data provided by Binance Public API.</p>
-        <p className="mt-1 opacity-50">Base Date: {new Date(2025, 1, 5, 12, 0).toLocaleString()}</p>
+      {selectedCoin && (
+        <ConstituentDrawer
+          coin={selectedCoin}
+          source={sourceRef.current}
+          log={rebalanceLog}
+          contribution={selectedContribution}
+          now={etfState.lastUpdate}
+          i18n={i18n}
+          onClose={closeConstituent}
+        />
+      )}
+
+      {showFactsheet && (
+        <Factsheet
+          custom={activeIndex}
+          weighting={activeIndex?.weighting ?? weighting}
+          rules={universeRules}
+          coins={coins}
+          daily={candleRollups[Timeframe.D1] ?? []}
+          level={etfState.currentPrice}
+          log={rebalanceLog}
+          source={dataSource}
+          lang={lang}
+          onClose={closeFactsheet}
+        />
+      )}
+
+      <footer className={`${hideOnPrint} py-6 text-center text-xs text-binance-text border-t border-binance-gray/20`}>
+        <p>{i18n.message('footerCopyright', { year: String(new Date(BASE_DATE_TIMESTAMP).getFullYear()), source: t.dataSources[dataSource] })}</p>
+        <p className="mt-1 opacity-50">{i18n.message('footerBaseDate', { date: i18n.formatDateTime(BASE_DATE_TIMESTAMP) })}</p>
       </footer>
     </div>
   );
@@ -0,0 +1,207 @@
+import React, { useState } from 'react';
+import { AlertDirection, AlertEvent, AlertKind, AlertRule, Coin } from '../types';
+import { createAlertId, notificationsSupported } from '../services/alerts';
+import { I18n } from '../services/i18n';
+import { Bell, BellOff, Plus, Trash2 } from 'lucide-react';
+
+interface AlertsPanelProps {
+  rules: AlertRule[];
+  log: AlertEvent[];
+  coins: Coin[];
+  i18n: I18n;
+  onChangeRules: (rules: AlertRule[]) => void;
+  onClearLog: () => void;
+}
+
+const isConstituentKind = (kind: AlertKind) =>
+  kind === AlertKind.CONSTITUENT_PRICE || kind === AlertKind.CONSTITUENT_WEIGHT;
+
+// Percent kinds are stored in percent units (2 = 2%)
+export const formatAlertValue = (kind: AlertKind, value: number, i18n: I18n) => {
+  if (kind === AlertKind.INDEX_CHANGE || kind === AlertKind.CONSTITUENT_WEIGHT) return i18n.formatPercent(value / 100);
+  if (kind === AlertKind.CONSTITUENT_PRICE) return i18n.formatPrice(value);
+  return i18n.formatNumber(value, 2);
+};
+
+// "Index change (%) (60 min) rises above 2.00%", "BTCUSDT Constituent price falls below 90,000.00"
+export const describeAlertRule = (rule: AlertRule, i18n: I18n) => {
+  const { t } = i18n;
+  const subject = isConstituentKind(rule.kind) ? `${rule.pair} ${t.alertKinds[rule.kind]}` : t.alertKinds[rule.kind];
+  const window = rule.kind === AlertKind.INDEX_CHANGE ? ` (${rule.windowMinutes} ${t.minutes})` : '';
+  return `${subject}${window} ${t.alertDirections[rule.direction]} ${formatAlertValue(rule.kind, rule.threshold, i18n)}`;
+};
+
+const newRule = (pair: string | null): AlertRule => ({
+  id: createAlertId(),
+  kind: AlertKind.INDEX_CHANGE,
+  direction: AlertDirection.ABOVE,
+  threshold: 2,
+  pair,
+  windowMinutes: 60,
+  cooldownMinutes: 15,
+  hysteresis: 0.5,
+  enabled: true
+});
+
+const inputClass = "bg-binance-dark border border-binance-gray/40 rounded px-2 py-1 text-sm text-binance-light focus:outline-none focus:border-binance-yellow";
+const buttonClass = "flex items-center gap-1 px-2 py-1 rounded text-xs text-binance-text hover:text-binance-light hover:bg-binance-gray/30 transition-colors";
+
+const AlertsPanel: React.FC<AlertsPanelProps> = ({ rules, log, coins, i18n, onChangeRules, onClearLog }) => {
+  const { t } = i18n;
+  const [draft, setDraft] = useState<AlertRule | null>(null);
+  const [permission, setPermission] = useState<NotificationPermission | null>(
+    notificationsSupported() ? Notification.permission : null
+  );
+
+  const requestPermission = async () => {
+    try {
+      setPermission(await Notification.requestPermission());
+    } catch (error) {
+      console.error("Notification permission request failed:", error);
+    }
+  };
+
+  const update = (patch: Partial<AlertRule>) => setDraft(prev => (prev ? { ...prev, ...patch } : prev));
+
+  const isValid = !!draft &&
+    isFinite(draft.threshold) &&
+    draft.cooldownMinutes >= 0 &&
+    draft.hysteresis >= 0 &&
+    (draft.kind !== AlertKind.INDEX_CHANGE || draft.windowMinutes > 0) &&
+    (!isConstituentKind(draft.kind) || !!draft.pair);
+
+  const save = () => {
+    if (!draft || !isValid) return;
+    const rule = { ...draft, pair: isConstituentKind(draft.kind) ? draft.pair : null };
+    onChangeRules([...rules, rule]);
+    setDraft(null);
+  };
+
+  const toggle = (id: string) => onChangeRules(rules.map(r => (r.id === id ? { ...r, enabled: !r.enabled } : r)));
+  const remove = (id: string) => onChangeRules(rules.filter(r => r.id !== id));
+
+  return (
+    <div className="bg-binance-black rounded-xl border border-binance-gray/20 shadow-xl overflow-hidden">
+      <div className="p-4 border-b border-binance-gray/20 flex flex-wrap gap-3 justify-between items-center">
+        <h3 className="font-semibold text-lg flex items-center gap-2">
+          <Bell className="w-4 h-4 text-binance-yellow" /> {t.alerts}
+        </h3>
+        <div className="flex items-center gap-1">
+          {permission === null && <span className="text-xs text-binance-text">{t.notificationsUnsupported}</span>}
+          {permission === 'denied' && (
+            <span className="flex items-center gap-1 text-xs text-binance-red"><BellOff className="w-3 h-3" /> {t.notificationsBlocked}</span>
+          )}
+          {permission === 'default' && (
+            <button onClick={requestPermission} className={buttonClass}>
+              <Bell className="w-3 h-3" /> {t.enableNotifications}
+            </button>
+          )}
+          <button onClick={() => setDraft(newRule(coins[0]?.pair ?? null))} className={buttonClass}>
+            <Plus className="w-3 h-3" /> {t.newAlert}
+          </button>
+        </div>
+      </div>
+
+      {draft && (
+        <div className="p-4 border-b border-binance-gray/20 grid grid-cols-2 md:grid-cols-4 gap-3">
+          <label className="flex flex-col gap-1 text-xs text-binance-text md:col-span-2">
+            {t.alerts}
+            <select value={draft.kind} onChange={(e) => update({ kind: e.target.value as AlertKind })} className={inputClass}>
+              {Object.values(AlertKind).map(k => <option key={k} value={k}>{t.alertKinds[k]}</option>)}
+            </select>
+          </label>
+          {isConstituentKind(draft.kind) && (
+            <label className="flex flex-col gap-1 text-xs text-binance-text">
+              {t.constituent}
+              <select value={draft.pair ?? ''} onChange={(e) => update({ pair: e.target.value })} className={inputClass}>
+                {coins.map(c => <option key={c.pair} value={c.pair}>{c.pair}</option>)}
+              </select>
+            </label>
+          )}
+          {draft.kind === AlertKind.INDEX_CHANGE && (
+            <label className="flex flex-col gap-1 text-xs text-binance-text">
+              {t.alertWindow} ({t.minutes})
+              <input type="number" min={1} value={draft.windowMinutes} onChange={(e) => update({ windowMinutes: Number(e.target.value) })} className={inputClass} />
+            </label>
+          )}
+          <label className="flex flex-col gap-1 text-xs text-binance-text">
+            {t.threshold}
+            <div className="flex gap-1">
+              <select value={draft.direction} onChange={(e) => update({ direction: e.target.value as AlertDirection })} className={inputClass}>
+                {Object.values(AlertDirection).map(d => <option key={d} value={d}>{t.alertDirections[d]}</option>)}
+              </select>
+              <input type="number" step="any" value={draft.threshold} onChange={(e) => update({ threshold: Number(e.target.value) })} className={`${inputClass} w-full`} />
+            </div>
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-binance-text">
+            {t.cooldown} ({t.minutes})
+            <input type="number" min={0} value={draft.cooldownMinutes} onChange={(e) => update({ cooldownMinutes: Number(e.target.value) })} className={inputClass} />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-binance-text">
+            {t.hysteresis}
+            <input type="number" min={0} step="any" value={draft.hysteresis} onChange={(e) => update({ hysteresis: Number(e.target.value) })} className={inputClass} />
+          </label>
+          <div className="col-span-2 md:col-span-4 flex justify-end gap-2">
+            <button onClick={() => setDraft(null)} className={buttonClass}>{t.cancel}</button>
+            <button
+              onClick={save}
+              disabled={!isValid}
+              className="px-3 py-1 rounded text-xs font-semibold bg-binance-yellow text-black disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {t.save}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 md:divide-x divide-binance-gray/20">
+        <div>
+          {rules.length === 0 ? (
+            <div className="p-4 text-sm text-binance-text">{t.noAlertRules}</div>
+          ) : (
+            <ul className="divide-y divide-binance-gray/10 text-sm">
+              {rules.map(rule => (
+                <li key={rule.id} className={`p-3 flex items-center gap-3 ${rule.enabled ? '' : 'opacity-50'}`}>
+                  <input type="checkbox" checked={rule.enabled} onChange={() => toggle(rule.id)} className="accent-binance-yellow" />
+                  <div className="flex-1">
+                    <div>{describeAlertRule(rule, i18n)}</div>
+                    <div className="text-xs text-binance-text">
+                      {t.cooldown} {rule.cooldownMinutes} {t.minutes} · {t.hysteresis} {rule.hysteresis}
+                    </div>
+                  </div>
+                  <button onClick={() => remove(rule.id)} className={`${buttonClass} hover:text-binance-red`}>
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div>
+          <div className="px-4 py-2 flex justify-between items-center border-t md:border-t-0 border-binance-gray/20 bg-binance-dark">
+            <span className="text-xs text-binance-text uppercase tracking-wider">{t.alertLog}</span>
+            <button onClick={onClearLog} disabled={log.length === 0} className={`${buttonClass} disabled:opacity-40`}>{t.clearLog}</button>
+          </div>
+          {log.length === 0 ? (
+            <div className="p-4 text-sm text-binance-text">{t.noAlertEvents}</div>
+          ) : (
+            <ul className="divide-y divide-binance-gray/10 text-sm max-h-64 overflow-y-auto">
+              {[...log].reverse().map(event => (
+                <li key={event.id} className="p-3">
+                  <div className="flex justify-between gap-2">
+                    <span>{describeAlertRule(event.rule, i18n)}</span>
+                    <span className="font-mono text-binance-yellow">{formatAlertValue(event.rule.kind, event.value, i18n)}</span>
+                  </div>
+                  <div className="text-xs text-binance-text">{i18n.formatDateTime(event.time)}</div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AlertsPanel;
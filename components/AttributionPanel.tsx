@@ -0,0 +1,150 @@
+import React, { useMemo } from 'react';
+import { BarChart, Bar, Cell, XAxis, YAxis, Tooltip, ResponsiveContainer, ReferenceLine, Treemap } from 'recharts';
+import { AttributionWindow, Contribution } from '../types';
+import { I18n } from '../services/i18n';
+import { PieChart } from 'lucide-react';
+
+interface AttributionPanelProps {
+  contributions: Contribution[] | null;  // Null when the window reaches back past the recorded prices
+  window: AttributionWindow;
+  onWindowChange: (window: AttributionWindow) => void;
+  i18n: I18n;
+  highlightedPair: string | null;
+  onSelect: (pair: string) => void;
+}
+
+// Bars shown on each side of the sorted contribution chart
+const BAR_COUNT = 10;
+// Returns at or beyond this (in %) get the full heatmap color
+const HEAT_SATURATION = 5;
+
+const heatColor = (ret: number) => {
+  const intensity = Math.min(1, Math.abs(ret) / HEAT_SATURATION);
+  const alpha = 0.15 + intensity * 0.75;
+  return ret >= 0 ? `rgba(14, 203, 129, ${alpha})` : `rgba(246, 70, 93, ${alpha})`;
+};
+
+const TreemapTile = (props: any) => {
+  const { x, y, width, height, symbol, ret, pair, highlightedPair, onSelect, i18n } = props;
+  if (!symbol) return null;
+  const isHighlighted = pair === highlightedPair;
+  return (
+    <g onClick={() => onSelect(pair)} style={{ cursor: 'pointer' }}>
+      <rect
+        x={x}
+        y={y}
+        width={width}
+        height={height}
+        fill={heatColor(ret)}
+        stroke={isHighlighted ? '#FCD535' : '#1E2329'}
+        strokeWidth={isHighlighted ? 2 : 1}
+      />
+      {width > 36 && height > 24 && (
+        <>
+          <text x={x + width / 2} y={y + height / 2 - 2} textAnchor="middle" fill="#EAECEF" fontSize={11} fontWeight="bold">{symbol}</text>
+          <text x={x + width / 2} y={y + height / 2 + 11} textAnchor="middle" fill="#EAECEF" fontSize={10}>
+            {i18n.formatPercent(ret / 100, true)}
+          </text>
+        </>
+      )}
+    </g>
+  );
+};
+
+const ContributionTooltip = ({ active, payload, i18n }: any) => {
+  if (!active || !payload || !payload.length) return null;
+  const c: Contribution = payload[0].payload;
+  return (
+    <div className="bg-binance-black border border-binance-gray p-2 rounded shadow-lg text-xs font-mono">
+      <p className="text-binance-light font-bold">{c.symbol}</p>
+      <p className="text-binance-text">{i18n.message('weightShort', { value: i18n.formatPercent(c.weight) })}</p>
+      <p className="text-binance-text">{i18n.message('returnShort', { value: i18n.formatPercent(c.return / 100, true) })}</p>
+      <p className={c.contribution >= 0 ? 'text-binance-green' : 'text-binance-red'}>
+        {i18n.message('percentagePoints', { value: i18n.formatNumber(c.contribution, 3, true) })}
+      </p>
+    </div>
+  );
+};
+
+const AttributionPanel: React.FC<AttributionPanelProps> = ({ contributions, window, onWindowChange, i18n, highlightedPair, onSelect }) => {
+  const { t } = i18n;
+  const rows = contributions ?? [];
+  const total = rows.reduce((acc, c) => acc + c.contribution, 0);
+  const bars = rows.length > BAR_COUNT * 2
+    ? [...rows.slice(0, BAR_COUNT), ...rows.slice(-BAR_COUNT)]
+    : rows;
+  const tiles = useMemo(
+    () => (contributions ?? []).map(c => ({ ...c, ret: c.return, size: c.weight })),
+    [contributions]
+  );
+
+  return (
+    <div className="bg-binance-black rounded-xl border border-binance-gray/20 shadow-xl overflow-hidden">
+      <div className="p-4 border-b border-binance-gray/20 flex flex-wrap gap-3 justify-between items-center">
+        <h3 className="font-semibold text-lg flex items-center gap-2">
+          <PieChart className="w-4 h-4 text-binance-yellow" /> {t.attribution}
+          {contributions && (
+            <span className={`text-sm font-mono ${total >= 0 ? 'text-binance-green' : 'text-binance-red'}`}>
+              {i18n.formatPercent(total / 100, true)}
+            </span>
+          )}
+        </h3>
+        <div className="flex items-center gap-1">
+          {Object.values(AttributionWindow).map(w => (
+            <button
+              key={w}
+              onClick={() => onWindowChange(w)}
+              className={`px-2 py-0.5 rounded text-xs transition-colors ${w === window ? 'bg-binance-yellow text-black' : 'text-binance-text hover:bg-binance-gray/30'}`}
+            >
+              {t.attributionWindows[w]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {contributions === null ? (
+        <div className="p-4 text-sm text-binance-text">{t.notEnoughHistory}</div>
+      ) : contributions.length === 0 ? (
+        <div className="p-4 text-sm text-binance-text">{t.noData}</div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 p-4">
+          <div>
+            <h4 className="text-xs uppercase tracking-wider mb-2 text-binance-text">{t.contribution}</h4>
+            <ResponsiveContainer width="100%" height={Math.max(200, bars.length * 18)}>
+              <BarChart data={bars} layout="vertical" margin={{ top: 0, right: 10, left: 0, bottom: 0 }}>
+                <XAxis type="number" stroke="#848E9C" fontSize={10} axisLine={false} tickLine={false}
+                  tickFormatter={(v) => i18n.formatNumber(v, 2)} />
+                <YAxis type="category" dataKey="symbol" stroke="#848E9C" fontSize={10} axisLine={false} tickLine={false} width={60} />
+                <Tooltip content={<ContributionTooltip i18n={i18n} />} cursor={{ fill: 'rgba(132, 142, 156, 0.1)' }} />
+                <ReferenceLine x={0} stroke="#474D57" />
+                <Bar dataKey="contribution" isAnimationActive={false} onClick={(d: any) => onSelect(d.pair)} style={{ cursor: 'pointer' }}>
+                  {bars.map(c => (
+                    <Cell
+                      key={c.pair}
+                      fill={c.contribution >= 0 ? '#0ECB81' : '#F6465D'}
+                      stroke={c.pair === highlightedPair ? '#FCD535' : 'none'}
+                    />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div>
+            <h4 className="text-xs uppercase tracking-wider mb-2 text-binance-text">{t.heatmap}</h4>
+            <ResponsiveContainer width="100%" height={Math.max(200, bars.length * 18)}>
+              <Treemap
+                data={tiles}
+                dataKey="size"
+                isAnimationActive={false}
+                content={<TreemapTile highlightedPair={highlightedPair} onSelect={onSelect} i18n={i18n} />}
+              />
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AttributionPanel;
@@ -1,4 +1,4 @@
-import React, { useMemo } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { 
   ComposedChart, 
   XAxis, 
@@ -6,15 +6,42 @@ import {
   Tooltip, 
   ResponsiveContainer, 
   Bar, 
+  Line,
+  Cell,
   CartesianGrid,
   ReferenceLine
 } from 'recharts';
-import { CandleData } from '../types';
+import { CandleData, IndicatorSettings, Lang, Timeframe } from '../types';
+import { DEFAULT_INDICATORS, INDICATOR_STORAGE_KEY } from '../constants';
+import { bollinger, ema, macd, rsi, sma, vwap } from '../services/indicators';
+import { createI18n, I18n } from '../services/i18n';
+import { readSettings } from '../services/storage';
+
+// Overlay colors, shared by the lines and the legend
+const COLORS = {
+  sma: '#F0B90B',
+  ema: '#3B82F6',
+  bollinger: '#A855F7',
+  vwap: '#14B8A6',
+  rsi: '#F0B90B',
+  macd: '#3B82F6',
+  signal: '#F97316'
+};
+
+const SUB_PANE_HEIGHT = 120;
+
+const loadIndicators = (): IndicatorSettings => readSettings(INDICATOR_STORAGE_KEY, DEFAULT_INDICATORS);
+
+const formatValue = (i18n: I18n, v: number | null | undefined) => (v === null || v === undefined ? '—' : i18n.formatPrice(v));
 
 interface CandleChartProps {
   data: CandleData[];
+  timeframe?: Timeframe;
+  lang: Lang;
   width?: number | string;
   height?: number | string;
+  // Charts sharing a syncId share the crosshair; give unrelated charts their own
+  syncId?: string;
 }
 
 const CandleStickShape = (props: any) => {
@@ -60,102 +87,250 @@ const CandleStickShape = (props: any) => {
   );
 };
 
-const CustomTooltip = ({ active, payload }: any) => {
+// Intraday candles are labelled by time, 4h/1d candles by date. Without a locale the browser's is used.
+export const formatAxisTime = (time: number, timeframe: Timeframe, locale?: string) => {
+  const date = new Date(time);
+  const locales = locale ?? [];
+  if (timeframe === Timeframe.D1) return date.toLocaleDateString(locales, { month: '2-digit', day: '2-digit' });
+  if (timeframe === Timeframe.H4) return date.toLocaleString(locales, { month: '2-digit', day: '2-digit', hour: '2-digit' });
+  return date.toLocaleTimeString(locales, { hour: '2-digit', minute: '2-digit' });
+};
+
+const OHLC_FIELDS = ['open', 'high', 'low', 'close'] as const;
+
+const CustomTooltip = ({ active, payload, i18n }: any) => {
   if (active && payload && payload.length) {
     const data = payload[0].payload;
+    const { t, formatDateTime, formatPrice } = i18n as I18n;
     return (
       <div className="bg-binance-black border border-binance-gray p-2 rounded shadow-lg text-xs font-mono z-50">
-        <p className="text-binance-text">{new Date(data.time).toLocaleTimeString()}</p>
-        <p className="text-binance-text">O: <span className={data.open < data.close ? "text-binance-green" : "text-binance-red"}>{data.open.toFixed(2)}</span></p>
-        <p className="text-binance-text">H: <span className={data.open < data.close ? "text-binance-green" : "text-binance-red"}>{data.high.toFixed(2)}</span></p>
-        <p className="text-binance-text">L: <span className={data.open < data.close ? "text-binance-green" : "text-binance-red"}>{data.low.toFixed(2)}</span></p>
-        <p className="text-binance-text">C: <span className={data.open < data.close ? "text-binance-green" : "text-binance-red"}>{data.close.toFixed(2)}</span></p>
+        <p className="text-binance-text">{formatDateTime(data.time)}</p>
+        {OHLC_FIELDS.map(field => (
+          <p key={field} className="text-binance-text">
+            {t.ohlcShort[field]}: <span className={data.open < data.close ? "text-binance-green" : "text-binance-red"}>{formatPrice(data[field])}</span>
+          </p>
+        ))}
       </div>
     );
   }
   return null;
 };
 
-const CandleChart: React.FC<CandleChartProps> = ({ data, width = "100%", height = 400 }) => {
-  // Pre-process data to include the full range [low, high] for the Bar component
+interface ToggleProps {
+  label: string;
+  color: string;
+  enabled: boolean;
+  value?: string;
+  onToggle: () => void;
+  period?: number;
+  onPeriod?: (period: number) => void;
+}
+
+// Legend entry doubling as the on/off switch and, where relevant, the period input
+const IndicatorToggle = ({ label, color, enabled, value, onToggle, period, onPeriod }: ToggleProps) => (
+  <div className={`flex items-center gap-1 px-2 py-0.5 rounded border text-xs font-mono transition-colors ${enabled ? 'border-binance-gray/60' : 'border-transparent opacity-60'}`}>
+    <button onClick={onToggle} className="flex items-center gap-1">
+      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: color }}></span>
+      {label}
+    </button>
+    {period !== undefined && onPeriod && (
+      <input
+        type="number"
+        min={2}
+        max={500}
+        value={period}
+        onChange={(e) => {
+          const next = parseInt(e.target.value, 10);
+          if (next >= 2 && next <= 500) onPeriod(next);
+        }}
+        className="w-10 bg-transparent text-binance-light text-right focus:outline-none"
+      />
+    )}
+    {enabled && value !== undefined && <span className="text-binance-text">{value}</span>}
+  </div>
+);
+
+const CandleChart: React.FC<CandleChartProps> = ({ data, timeframe = Timeframe.M1, lang, width = "100%", height = 400, syncId = "candle-chart" }) => {
+  const [indicators, setIndicators] = useState<IndicatorSettings>(loadIndicators);
+  const i18n = useMemo(() => createI18n(lang), [lang]);
+
+  useEffect(() => {
+    localStorage.setItem(INDICATOR_STORAGE_KEY, JSON.stringify(indicators));
+  }, [indicators]);
+
+  const update = <K extends keyof IndicatorSettings>(key: K, patch: Partial<IndicatorSettings[K]>) =>
+    setIndicators(prev => ({ ...prev, [key]: { ...prev[key], ...patch } }));
+
+  // Pre-process data to include the full range [low, high] for the Bar component,
+  // plus every enabled indicator so all panes share one dataset
   const chartData = useMemo(() => {
-    return data.map(d => ({
+    const smaSeries = indicators.sma.enabled ? sma(data, indicators.sma.period) : [];
+    const emaSeries = indicators.ema.enabled ? ema(data, indicators.ema.period) : [];
+    const bands = indicators.bollinger.enabled ? bollinger(data, indicators.bollinger.period, indicators.bollinger.multiplier) : null;
+    const vwapSeries = indicators.vwap.enabled ? vwap(data) : [];
+    const rsiSeries = indicators.rsi.enabled ? rsi(data, indicators.rsi.period) : [];
+    const macdResult = indicators.macd.enabled ? macd(data, indicators.macd.fast, indicators.macd.slow, indicators.macd.signal) : null;
+
+    return data.map((d, i) => ({
       ...d,
-      candleRange: [d.low, d.high]
+      candleRange: [d.low, d.high],
+      sma: smaSeries[i] ?? null,
+      ema: emaSeries[i] ?? null,
+      bbUpper: bands?.upper[i] ?? null,
+      bbMiddle: bands?.middle[i] ?? null,
+      bbLower: bands?.lower[i] ?? null,
+      vwap: vwapSeries[i] ?? null,
+      rsi: rsiSeries[i] ?? null,
+      macd: macdResult?.macd[i] ?? null,
+      macdSignal: macdResult?.signal[i] ?? null,
+      macdHistogram: macdResult?.histogram[i] ?? null
     }));
-  }, [data]);
+  }, [data, indicators]);
 
   const yDomain = useMemo(() => {
     if (data.length === 0) return ['auto', 'auto'];
-    const min = Math.min(...data.map(d => d.low));
-    const max = Math.max(...data.map(d => d.high));
+    // Overlays (e.g. Bollinger Bands) can sit outside the candles' range
+    const overlayValues = chartData.flatMap(d => [d.sma, d.ema, d.bbUpper, d.bbLower, d.vwap])
+      .filter((v): v is number => v !== null);
+    const min = Math.min(...data.map(d => d.low), ...overlayValues);
+    const max = Math.max(...data.map(d => d.high), ...overlayValues);
     // Add padding to domain so candles aren't cut off
     const padding = (max - min) * 0.1; 
     // Handle flat line case
     if (padding === 0) return [min * 0.99, max * 1.01];
     return [min - padding, max + padding];
-  }, [data]);
+  }, [data, chartData]);
 
   if (data.length === 0) {
     return (
       <div className="flex items-center justify-center h-full text-binance-text text-sm">
-        Waiting for market data...
+        {i18n.t.waitingForData}
       </div>
     );
   }
 
+  const last = chartData[chartData.length - 1];
+  const xAxisProps = {
+    dataKey: "time",
+    tickFormatter: (time: number) => formatAxisTime(time, timeframe, i18n.locale),
+    stroke: "#848E9C",
+    fontSize: 11,
+    tickMargin: 10,
+    axisLine: false,
+    tickLine: false,
+    minTickGap: 30
+  };
+  const lineProps = { dot: false, isAnimationActive: false, connectNulls: true, strokeWidth: 1.5 };
+
   return (
-    <ResponsiveContainer width={width as any} height={height as any}>
-      <ComposedChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
-        <CartesianGrid stroke="#2B3139" strokeDasharray="3 3" vertical={false} />
-        <XAxis 
-          dataKey="time" 
-          tickFormatter={(time) => new Date(time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-          stroke="#848E9C"
-          fontSize={11}
-          tickMargin={10}
-          axisLine={false}
-          tickLine={false}
-          minTickGap={30}
-        />
-        <YAxis 
-          domain={yDomain} 
-          orientation="right" 
-          stroke="#848E9C"
-          fontSize={11}
-          tickFormatter={(val) => val.toFixed(2)}
-          axisLine={false}
-          tickLine={false}
-          width={60}
-        />
-        <Tooltip content={<CustomTooltip />} cursor={{ stroke: '#848E9C', strokeDasharray: '3 3' }} />
-        
-        {/* maxBarSize ensures even if we only have 1 data point, it doesn't fill the whole screen */}
-        <Bar 
-          dataKey="candleRange" 
-          shape={<CandleStickShape />} 
-          isAnimationActive={false} 
-          maxBarSize={15} 
-        />
-        
-        {/* Current Price Line */}
-        {data.length > 0 && (
-          <ReferenceLine 
-            y={data[data.length - 1].close} 
-            stroke="#FCD535" 
-            strokeDasharray="3 3" 
-            label={{ 
-              position: 'right', 
-              fill: '#FCD535', 
-              fontSize: 10, 
-              value: data[data.length - 1].close.toFixed(2),
-              dy: -10 
-            }} 
+    <div className="flex flex-col gap-1" style={{ width: width as any }}>
+      {/* Legend / toggles */}
+      <div className="flex flex-wrap items-center gap-1 px-2">
+        <IndicatorToggle label="SMA" color={COLORS.sma} enabled={indicators.sma.enabled} value={formatValue(i18n, last.sma)}
+          onToggle={() => update('sma', { enabled: !indicators.sma.enabled })}
+          period={indicators.sma.period} onPeriod={(period) => update('sma', { period })} />
+        <IndicatorToggle label="EMA" color={COLORS.ema} enabled={indicators.ema.enabled} value={formatValue(i18n, last.ema)}
+          onToggle={() => update('ema', { enabled: !indicators.ema.enabled })}
+          period={indicators.ema.period} onPeriod={(period) => update('ema', { period })} />
+        <IndicatorToggle label="BB" color={COLORS.bollinger} enabled={indicators.bollinger.enabled}
+          value={`${formatValue(i18n, last.bbLower)} – ${formatValue(i18n, last.bbUpper)}`}
+          onToggle={() => update('bollinger', { enabled: !indicators.bollinger.enabled })}
+          period={indicators.bollinger.period} onPeriod={(period) => update('bollinger', { period })} />
+        <IndicatorToggle label="VWAP" color={COLORS.vwap} enabled={indicators.vwap.enabled} value={formatValue(i18n, last.vwap)}
+          onToggle={() => update('vwap', { enabled: !indicators.vwap.enabled })} />
+        <IndicatorToggle label="RSI" color={COLORS.rsi} enabled={indicators.rsi.enabled} value={formatValue(i18n, last.rsi)}
+          onToggle={() => update('rsi', { enabled: !indicators.rsi.enabled })}
+          period={indicators.rsi.period} onPeriod={(period) => update('rsi', { period })} />
+        <IndicatorToggle label="MACD" color={COLORS.macd} enabled={indicators.macd.enabled} value={formatValue(i18n, last.macd)}
+          onToggle={() => update('macd', { enabled: !indicators.macd.enabled })} />
+      </div>
+
+      <ResponsiveContainer width="100%" height={height as any}>
+        <ComposedChart data={chartData} syncId={syncId} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+          <CartesianGrid stroke="#2B3139" strokeDasharray="3 3" vertical={false} />
+          <XAxis {...xAxisProps} />
+          <YAxis 
+            domain={yDomain} 
+            orientation="right" 
+            stroke="#848E9C"
+            fontSize={11}
+            tickFormatter={(val) => i18n.formatPrice(val)}
+            axisLine={false}
+            tickLine={false}
+            width={60}
+          />
+          <Tooltip content={<CustomTooltip i18n={i18n} />} cursor={{ stroke: '#848E9C', strokeDasharray: '3 3' }} />
+          
+          {/* maxBarSize ensures even if we only have 1 data point, it doesn't fill the whole screen */}
+          <Bar 
+            dataKey="candleRange" 
+            shape={<CandleStickShape />} 
+            isAnimationActive={false} 
+            maxBarSize={15} 
           />
-        )}
-      </ComposedChart>
-    </ResponsiveContainer>
+
+          {/* Price overlays */}
+          {indicators.bollinger.enabled && <Line dataKey="bbUpper" stroke={COLORS.bollinger} strokeDasharray="4 2" {...lineProps} />}
+          {indicators.bollinger.enabled && <Line dataKey="bbMiddle" stroke={COLORS.bollinger} {...lineProps} strokeWidth={1} />}
+          {indicators.bollinger.enabled && <Line dataKey="bbLower" stroke={COLORS.bollinger} strokeDasharray="4 2" {...lineProps} />}
+          {indicators.sma.enabled && <Line dataKey="sma" stroke={COLORS.sma} {...lineProps} />}
+          {indicators.ema.enabled && <Line dataKey="ema" stroke={COLORS.ema} {...lineProps} />}
+          {indicators.vwap.enabled && <Line dataKey="vwap" stroke={COLORS.vwap} strokeDasharray="6 3" {...lineProps} />}
+          
+          {/* Current Price Line */}
+          {data.length > 0 && (
+            <ReferenceLine 
+              y={data[data.length - 1].close} 
+              stroke="#FCD535" 
+              strokeDasharray="3 3" 
+              label={{ 
+                position: 'right', 
+                fill: '#FCD535', 
+                fontSize: 10, 
+                value: i18n.formatPrice(data[data.length - 1].close),
+                dy: -10 
+              }} 
+            />
+          )}
+        </ComposedChart>
+      </ResponsiveContainer>
+
+      {/* Oscillator sub-panes, synchronized with the price pane via syncId */}
+      {indicators.rsi.enabled && (
+        <ResponsiveContainer width="100%" height={SUB_PANE_HEIGHT}>
+          <ComposedChart data={chartData} syncId={syncId} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+            <CartesianGrid stroke="#2B3139" strokeDasharray="3 3" vertical={false} />
+            <XAxis {...xAxisProps} hide />
+            <YAxis domain={[0, 100]} ticks={[30, 70]} orientation="right" stroke="#848E9C" fontSize={10} axisLine={false} tickLine={false} width={60} />
+            <Tooltip content={() => null} cursor={{ stroke: '#848E9C', strokeDasharray: '3 3' }} />
+            <ReferenceLine y={70} stroke="#F6465D" strokeDasharray="3 3" />
+            <ReferenceLine y={30} stroke="#0ECB81" strokeDasharray="3 3" />
+            <Line dataKey="rsi" stroke={COLORS.rsi} {...lineProps} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      )}
+
+      {indicators.macd.enabled && (
+        <ResponsiveContainer width="100%" height={SUB_PANE_HEIGHT}>
+          <ComposedChart data={chartData} syncId={syncId} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+            <CartesianGrid stroke="#2B3139" strokeDasharray="3 3" vertical={false} />
+            <XAxis {...xAxisProps} hide />
+            <YAxis orientation="right" stroke="#848E9C" fontSize={10} axisLine={false} tickLine={false} width={60}
+              tickFormatter={(val) => i18n.formatPrice(val)} />
+            <Tooltip content={() => null} cursor={{ stroke: '#848E9C', strokeDasharray: '3 3' }} />
+            <ReferenceLine y={0} stroke="#474D57" />
+            <Bar dataKey="macdHistogram" isAnimationActive={false} maxBarSize={6}>
+              {chartData.map((d, i) => (
+                <Cell key={i} fill={(d.macdHistogram ?? 0) >= 0 ? '#0ECB81' : '#F6465D'} />
+              ))}
+            </Bar>
+            <Line dataKey="macd" stroke={COLORS.macd} {...lineProps} />
+            <Line dataKey="macdSignal" stroke={COLORS.signal} {...lineProps} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      )}
+    </div>
   );
 };
 
-export default CandleChart;
\ No newline at end of file
+export default CandleChart;
@@ -0,0 +1,305 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ComposedChart, XAxis, YAxis, Tooltip, ResponsiveContainer, Line, CartesianGrid, ReferenceLine } from 'recharts';
+import { CandleData, IndexComposition, RebalanceRecord, Timeframe, TimeframeSeries } from '../types';
+import { MarketDataSource, TIMEFRAME_MS } from '../services/marketData';
+import { bucketStart } from '../services/candles';
+import { I18n } from '../services/i18n';
+import { backfillIndexHistory, fetchKlineRange } from '../services/backfill';
+import { alignCloses, annualizedVolatility, beta, correlation, periodReturns, rebase, totalReturn } from '../services/performance';
+import { formatAxisTime } from './CandleChart';
+
+// Another index that can be compared against the one on the dashboard
+export interface ComparisonIndex {
+  id: string;
+  name: string;
+  composition: IndexComposition;
+  log: RebalanceRecord[];  // Oldest first; the backfill swaps baskets at each record
+}
+
+interface ComparisonChartProps {
+  primaryName: string;
+  // The dashboard index's candles in every timeframe
+  series: TimeframeSeries;
+  indices: ComparisonIndex[];
+  source: MarketDataSource;
+  i18n: I18n;
+  height?: number;
+}
+
+const PRIMARY_ID = 'primary';
+const BTC_PAIR = 'BTCUSDT';
+const BENCHMARK_PAIRS = [BTC_PAIR, 'ETHUSDT'];
+const REFRESH_MS = 60000;
+const SUB_PANE_HEIGHT = 120;
+
+// Each range picks a timeframe that keeps the chart around 100-200 points
+const RANGES: { label: string; ms: number; timeframe: Timeframe }[] = [
+  { label: '6H', ms: 6 * 60 * 60 * 1000, timeframe: Timeframe.M5 },
+  { label: '24H', ms: 24 * 60 * 60 * 1000, timeframe: Timeframe.M15 },
+  { label: '3D', ms: 3 * 24 * 60 * 60 * 1000, timeframe: Timeframe.H1 },
+  { label: '7D', ms: 7 * 24 * 60 * 60 * 1000, timeframe: Timeframe.H1 }
+];
+
+const PALETTE = ['#F0B90B', '#F7931A', '#627EEA', '#14B8A6', '#A855F7', '#F97316', '#EC4899', '#22C55E'];
+
+const formatPercent = (i18n: I18n, v: number, signed = false) => (isFinite(v) ? i18n.formatPercent(v, signed) : '—');
+const formatRatio = (i18n: I18n, v: number) => (isFinite(v) ? i18n.formatNumber(v, 2) : '—');
+
+// Returns of `a` and `b` over the periods where both have a value
+const pairedReturns = (a: (number | null)[], b: (number | null)[]): [number[], number[]] => {
+  const both = a.map((v, i) => [v, b[i]] as const).filter((p): p is readonly [number, number] => p[0] !== null && p[1] !== null);
+  return [periodReturns(both.map(p => p[0])), periodReturns(both.map(p => p[1]))];
+};
+
+const ComparisonTooltip = ({ active, payload, label, i18n }: any) => {
+  if (!active || !payload || !payload.length) return null;
+  return (
+    <div className="bg-binance-black border border-binance-gray p-2 rounded shadow-lg text-xs font-mono z-50">
+      <p className="text-binance-text">{i18n.formatDateTime(label)}</p>
+      {payload.map((p: any) => (
+        <p key={p.dataKey} style={{ color: p.color }}>{p.name}: {typeof p.value === 'number' ? i18n.formatNumber(p.value, 2) : '—'}</p>
+      ))}
+    </div>
+  );
+};
+
+const ComparisonChart: React.FC<ComparisonChartProps> = ({ primaryName, series, indices, source, i18n, height = 400 }) => {
+  const { t } = i18n;
+  const [rangeIdx, setRangeIdx] = useState(1);
+  const [selected, setSelected] = useState<string[]>(BENCHMARK_PAIRS);
+  const [benchmarkId, setBenchmarkId] = useState(BTC_PAIR);
+  const [rebaseTime, setRebaseTime] = useState<number | null>(null);
+  const [fetched, setFetched] = useState<Record<string, CandleData[]>>({});
+
+  const range = RANGES[rangeIdx];
+  // Falls back to the first plotted series when the chosen benchmark is toggled off
+  const benchmark = selected.includes(benchmarkId) ? benchmarkId : selected[0] ?? null;
+  const names: Record<string, string> = {
+    [PRIMARY_ID]: primaryName,
+    ...Object.fromEntries(BENCHMARK_PAIRS.map(p => [p, p.replace(/USDT$/, '')])),
+    ...Object.fromEntries(indices.map(i => [i.id, i.name]))
+  };
+  const indexKey = indices.map(i => `${i.id}:${i.composition.timestamp}:${i.log.length}`).join(',');
+
+  // BTC is always loaded: it anchors beta and correlation even when it isn't plotted
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      const end = Date.now();
+      const start = bucketStart(end - range.ms, range.timeframe);
+      const ids = Array.from(new Set([BTC_PAIR, ...selected]));
+      const results = await Promise.all(ids.map(async (id): Promise<[string, CandleData[]]> => {
+        try {
+          const index = indices.find(i => i.id === id);
+          // Each index is valued with the basket its own log had in effect at every point
+          const candles = index
+            ? await backfillIndexHistory(source, index.log, index.composition, range.timeframe, start, end)
+            : await fetchKlineRange(source, id, range.timeframe, start, end);
+          return [id, candles];
+        } catch (error) {
+          console.error(`Failed to load comparison series ${id}:`, error);
+          return [id, []];
+        }
+      }));
+      if (!cancelled) setFetched(Object.fromEntries(results));
+    };
+
+    load();
+    const interval = setInterval(load, REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [rangeIdx, selected.join(','), indexKey, source]);
+
+  useEffect(() => setRebaseTime(null), [rangeIdx]);
+
+  const primary = useMemo(() => {
+    const start = bucketStart(Date.now() - range.ms, range.timeframe);
+    return (series[range.timeframe] ?? []).filter(c => c.time >= start);
+  }, [series, range]);
+
+  // Everything is sampled on the dashboard index's timestamps, from the rebase point on
+  const { rows, closes, ids } = useMemo(() => {
+    const allTimes = primary.length > 0 ? primary.map(c => c.time) : (fetched[BTC_PAIR] ?? []).map(c => c.time);
+    const times = rebaseTime === null ? allTimes : allTimes.filter(time => time >= rebaseTime);
+    const plotted = [PRIMARY_ID, ...selected];
+
+    const closes: Record<string, (number | null)[]> = {
+      [PRIMARY_ID]: alignCloses(primary, times),
+      ...Object.fromEntries(Array.from(new Set([BTC_PAIR, ...selected])).map(id => [id, alignCloses(fetched[id] ?? [], times)]))
+    };
+
+    // Rebase each series at its first value in the window
+    const rebased: Record<string, (number | null)[]> = {};
+    plotted.forEach(id => {
+      const values = closes[id];
+      const first = values.findIndex(v => v !== null);
+      const scaled = first === -1 ? [] : rebase(values.slice(first) as number[]);
+      rebased[id] = values.map((_, i) => (i < first || first === -1 ? null : scaled[i - first] ?? null));
+    });
+
+    const rows = times.map((time, i) => {
+      const row: Record<string, number | null> = { time };
+      plotted.forEach(id => { row[id] = rebased[id][i]; });
+      const p = rebased[PRIMARY_ID][i];
+      const b = benchmark ? rebased[benchmark][i] : null;
+      row.rs = p !== null && b !== null && b !== 0 ? (p / b) * 100 : null;
+      row.spread = p !== null && b !== null ? p - b : null;
+      return row;
+    });
+    return { rows, closes, ids: plotted };
+  }, [primary, fetched, selected, rebaseTime, benchmark]);
+
+  const stats = useMemo(() => ids.map(id => {
+    const values = closes[id].filter((v): v is number => v !== null);
+    const [returns, btcReturns] = pairedReturns(closes[id], closes[BTC_PAIR]);
+    return {
+      id,
+      return: totalReturn(values),
+      volatility: annualizedVolatility(periodReturns(values), TIMEFRAME_MS[range.timeframe]),
+      beta: beta(returns, btcReturns),
+      correlation: correlation(returns, btcReturns)
+    };
+  }), [ids, closes, range]);
+
+  const toggle = (id: string) => {
+    setSelected(prev => (prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]));
+  };
+
+  const colorOf = (id: string) => PALETTE[ids.indexOf(id) % PALETTE.length];
+  const xAxisProps = {
+    dataKey: "time",
+    tickFormatter: (time: number) => formatAxisTime(time, range.timeframe, i18n.locale),
+    stroke: "#848E9C",
+    fontSize: 11,
+    tickMargin: 10,
+    axisLine: false,
+    tickLine: false,
+    minTickGap: 30
+  };
+  const lineProps = { dot: false, isAnimationActive: false, connectNulls: true, strokeWidth: 1.5 };
+  const chipClass = (on: boolean) =>
+    `px-2 py-0.5 rounded border text-xs font-mono transition-colors ${on ? 'border-binance-gray/60 text-binance-light' : 'border-transparent text-binance-text opacity-60'}`;
+
+  return (
+    <div className="flex flex-col gap-2">
+      <div className="flex flex-wrap items-center justify-between gap-2 px-2">
+        <div className="flex flex-wrap items-center gap-1">
+          {[...BENCHMARK_PAIRS, ...indices.map(i => i.id)].map(id => (
+            <button key={id} onClick={() => toggle(id)} className={chipClass(selected.includes(id))}>
+              {selected.includes(id) && <span className="inline-block w-2 h-2 rounded-full mr-1" style={{ backgroundColor: colorOf(id) }}></span>}
+              {names[id]}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-1">
+          {RANGES.map((r, i) => (
+            <button
+              key={r.label}
+              onClick={() => setRangeIdx(i)}
+              className={`px-2 py-0.5 rounded text-xs font-mono transition-colors ${i === rangeIdx ? 'bg-binance-yellow text-black' : 'text-binance-text hover:bg-binance-gray/30'}`}
+            >
+              {r.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 px-2 text-xs text-binance-text">
+        <span>
+          {t.rebasedAt} {rows.length > 0 ? i18n.formatDateTime(rows[0].time as number) : '—'}
+        </span>
+        {rebaseTime !== null ? (
+          <button onClick={() => setRebaseTime(null)} className="underline hover:text-binance-light">{t.resetRebase}</button>
+        ) : (
+          <span className="opacity-60">· {t.clickToRebase}</span>
+        )}
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="flex items-center justify-center text-binance-text text-sm" style={{ height }}>{t.noData}</div>
+      ) : (
+        <>
+          <ResponsiveContainer width="100%" height={height}>
+            <ComposedChart
+              data={rows}
+              syncId="comparison-chart"
+              margin={{ top: 10, right: 10, left: 0, bottom: 0 }}
+              onClick={(e: any) => { if (e?.activeLabel !== undefined) setRebaseTime(Number(e.activeLabel)); }}
+            >
+              <CartesianGrid stroke="#2B3139" strokeDasharray="3 3" vertical={false} />
+              <XAxis {...xAxisProps} />
+              <YAxis domain={['auto', 'auto']} orientation="right" stroke="#848E9C" fontSize={11}
+                tickFormatter={(val) => i18n.formatNumber(val, 1)} axisLine={false} tickLine={false} width={60} />
+              <Tooltip content={<ComparisonTooltip i18n={i18n} />} cursor={{ stroke: '#848E9C', strokeDasharray: '3 3' }} />
+              <ReferenceLine y={100} stroke="#474D57" strokeDasharray="3 3" />
+              {ids.map(id => (
+                <Line key={id} dataKey={id} name={names[id]} stroke={colorOf(id)} {...lineProps} strokeWidth={id === PRIMARY_ID ? 2 : 1.5} />
+              ))}
+            </ComposedChart>
+          </ResponsiveContainer>
+
+          {/* Relative strength and spread of the dashboard index against one benchmark */}
+          {benchmark && (
+            <div>
+              <div className="flex items-center gap-2 px-2 text-xs text-binance-text">
+                <span>{t.relativeStrength} / {t.spread} vs</span>
+                <select
+                  value={benchmark}
+                  onChange={(e) => setBenchmarkId(e.target.value)}
+                  className="bg-binance-dark border border-binance-gray/40 rounded px-1 py-0.5 text-xs text-binance-light focus:outline-none"
+                >
+                  {selected.map(id => <option key={id} value={id}>{names[id]}</option>)}
+                </select>
+              </div>
+              <ResponsiveContainer width="100%" height={SUB_PANE_HEIGHT}>
+                <ComposedChart data={rows} syncId="comparison-chart" margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+                  <CartesianGrid stroke="#2B3139" strokeDasharray="3 3" vertical={false} />
+                  <XAxis {...xAxisProps} hide />
+                  <YAxis yAxisId="rs" domain={['auto', 'auto']} orientation="right" stroke="#848E9C" fontSize={10}
+                    tickFormatter={(val) => i18n.formatNumber(val, 1)} axisLine={false} tickLine={false} width={60} />
+                  <YAxis yAxisId="spread" domain={['auto', 'auto']} orientation="left" stroke="#848E9C" fontSize={10}
+                    tickFormatter={(val) => i18n.formatNumber(val, 1)} axisLine={false} tickLine={false} width={40} />
+                  <Tooltip content={<ComparisonTooltip i18n={i18n} />} cursor={{ stroke: '#848E9C', strokeDasharray: '3 3' }} />
+                  <ReferenceLine yAxisId="rs" y={100} stroke="#474D57" strokeDasharray="3 3" />
+                  <Line yAxisId="rs" dataKey="rs" name={t.relativeStrength} stroke="#F0B90B" {...lineProps} />
+                  <Line yAxisId="spread" dataKey="spread" name={t.spread} stroke="#A855F7" strokeDasharray="4 2" {...lineProps} />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+
+          <table className="w-full text-left border-collapse text-xs font-mono">
+            <thead>
+              <tr className="text-binance-text uppercase tracking-wider">
+                <th className="px-2 py-1 font-medium">{t.series}</th>
+                <th className="px-2 py-1 font-medium text-right">{t.return}</th>
+                <th className="px-2 py-1 font-medium text-right">{t.volatility}</th>
+                <th className="px-2 py-1 font-medium text-right">β BTC</th>
+                <th className="px-2 py-1 font-medium text-right">ρ BTC</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-binance-gray/10">
+              {stats.map(s => (
+                <tr key={s.id}>
+                  <td className="px-2 py-1">
+                    <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: colorOf(s.id) }}></span>
+                    {names[s.id]}
+                  </td>
+                  <td className={`px-2 py-1 text-right ${s.return < 0 ? 'text-binance-red' : 'text-binance-green'}`}>{formatPercent(i18n, s.return, true)}</td>
+                  <td className="px-2 py-1 text-right">{formatPercent(i18n, s.volatility)}</td>
+                  <td className="px-2 py-1 text-right">{formatRatio(i18n, s.beta)}</td>
+                  <td className="px-2 py-1 text-right">{formatRatio(i18n, s.correlation)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ComparisonChart;
@@ -0,0 +1,225 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CandleData, Coin, Contribution, OrderBookLevel, OrderBookSnapshot, RebalanceRecord, Timeframe } from '../types';
+import { MarketDataSource, TIMEFRAME_MS } from '../services/marketData';
+import { applyTick } from '../services/candles';
+import { I18n } from '../services/i18n';
+import CandleChart from './CandleChart';
+import { BookOpen, History, X } from 'lucide-react';
+
+interface ConstituentDrawerProps {
+  coin: Coin;
+  source: MarketDataSource;
+  log: RebalanceRecord[];
+  contribution: Contribution | null;
+  now: number;
+  i18n: I18n;
+  onClose: () => void;
+}
+
+// Candles requested per timeframe; also the cap for live ticks appended on top
+const DRAWER_CANDLES = 300;
+// Ladder rows shown per side
+const LADDER_LEVELS = 10;
+
+// Running notional from the touch outwards, for the depth bars
+const withCumulative = (levels: OrderBookLevel[]) => {
+  let total = 0;
+  return levels.slice(0, LADDER_LEVELS).map(level => {
+    total += level.price * level.quantity;
+    return { ...level, cumulative: total };
+  });
+};
+
+const Stat = ({ label, value, className = '' }: { label: string; value: string; className?: string }) => (
+  <div>
+    <div className="text-xs text-binance-text mb-1">{label}</div>
+    <div className={`font-mono ${className}`}>{value}</div>
+  </div>
+);
+
+const DepthLadder = ({ book, i18n }: { book: OrderBookSnapshot; i18n: I18n }) => {
+  const { t } = i18n;
+  const bids = withCumulative(book.bids);
+  const asks = withCumulative(book.asks);
+  const maxCumulative = Math.max(bids[bids.length - 1]?.cumulative ?? 0, asks[asks.length - 1]?.cumulative ?? 0) || 1;
+  const bestBid = book.bids[0]?.price;
+  const bestAsk = book.asks[0]?.price;
+  const spreadBps = bestBid && bestAsk ? ((bestAsk - bestBid) / ((bestAsk + bestBid) / 2)) * 10000 : null;
+
+  const Side = ({ rows, color, bar }: { rows: typeof bids; color: string; bar: string }) => (
+    <ul className="space-y-0.5">
+      {rows.map(row => (
+        <li key={row.price} className="relative flex justify-between px-2 py-0.5">
+          <span className={`absolute inset-y-0 right-0 ${bar}`} style={{ width: `${(row.cumulative / maxCumulative) * 100}%` }}></span>
+          <span className={`relative ${color}`}>{i18n.formatPrice(row.price)}</span>
+          <span className="relative text-binance-text">{i18n.formatCompact(row.cumulative)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-3 gap-3">
+        <Stat label={t.bestBid} value={bestBid !== undefined ? i18n.formatPrice(bestBid) : '—'} className="text-binance-green" />
+        <Stat label={t.bestAsk} value={bestAsk !== undefined ? i18n.formatPrice(bestAsk) : '—'} className="text-binance-red" />
+        <Stat label={t.spread} value={spreadBps !== null ? `${i18n.formatNumber(spreadBps, 1)} bps` : '—'} />
+      </div>
+      <div className="grid grid-cols-2 gap-2 text-xs font-mono">
+        <Side rows={bids} color="text-binance-green" bar="bg-binance-green/10" />
+        <Side rows={asks} color="text-binance-red" bar="bg-binance-red/10" />
+      </div>
+    </div>
+  );
+};
+
+const ConstituentDrawer: React.FC<ConstituentDrawerProps> = ({ coin, source, log, contribution, now, i18n, onClose }) => {
+  const { t } = i18n;
+  const [timeframe, setTimeframe] = useState<Timeframe>(Timeframe.M15);
+  const [candles, setCandles] = useState<CandleData[]>([]);
+  const [book, setBook] = useState<OrderBookSnapshot | null>(null);
+
+  // History for the pair's own chart
+  useEffect(() => {
+    let cancelled = false;
+    setCandles([]);
+    source.fetchKlines(coin.pair, timeframe, now - DRAWER_CANDLES * TIMEFRAME_MS[timeframe], DRAWER_CANDLES)
+      .then(history => { if (!cancelled) setCandles(history); })
+      .catch(error => console.error(`Failed to load ${coin.pair} klines`, error));
+    return () => { cancelled = true; };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [coin.pair, timeframe, source]);
+
+  // Keep the last candle moving with the live price
+  useEffect(() => {
+    setCandles(prev => (prev.length === 0 ? prev : applyTick(prev, coin.price, now, DRAWER_CANDLES, timeframe)));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [coin.price, now]);
+
+  useEffect(() => {
+    setBook(null);
+    if (!source.subscribeDepth) return;
+    return source.subscribeDepth(coin.pair, setBook);
+  }, [coin.pair, source]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  // Newest first; rebalances the pair sat out show as 0
+  const weightHistory = useMemo(
+    () => log.map((record, i) => ({
+      record,
+      weight: record.weights[coin.pair] ?? 0,
+      previous: i > 0 ? log[i - 1].weights[coin.pair] ?? 0 : null
+    })).reverse(),
+    [log, coin.pair]
+  );
+
+  const isPositive = coin.change24h >= 0;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex justify-end">
+      <div className="absolute inset-0 bg-black/60" onClick={onClose}></div>
+      <aside className="relative w-full max-w-2xl h-full overflow-y-auto bg-binance-black border-l border-binance-gray/20 shadow-2xl">
+        <div className="sticky top-0 z-10 bg-binance-black p-4 border-b border-binance-gray/20 flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <img
+              src={`https://raw.githubusercontent.com/spothq/cryptocurrency-icons/master/32/icon/${coin.symbol.toLowerCase()}.png`}
+              alt={coin.symbol}
+              className="w-6 h-6 rounded-full bg-white/10"
+              onError={(e) => { (e.target as HTMLImageElement).style.display = 'none' }}
+            />
+            <h3 className="font-bold text-lg">{coin.symbol}<span className="text-binance-text font-normal">/{coin.pair.slice(coin.symbol.length)}</span></h3>
+            <span className="font-mono">${i18n.formatPrice(coin.price)}</span>
+            <span className={`font-mono text-sm ${isPositive ? 'text-binance-green' : 'text-binance-red'}`}>
+              {i18n.formatPercent(coin.change24h / 100, true)}
+            </span>
+          </div>
+          <button onClick={onClose} className="p-1 rounded text-binance-text hover:text-binance-light hover:bg-binance-gray/30 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-6">
+          <div className="grid grid-cols-3 gap-3">
+            <Stat label={t.weight} value={i18n.formatPercent(coin.weight)} className="text-binance-yellow" />
+            <Stat label={t.volume} value={i18n.formatCompact(coin.volume24h)} />
+            <Stat
+              label={t.todayContribution}
+              value={contribution ? `${i18n.formatNumber(contribution.contribution, 3, true)} pp` : '—'}
+              className={contribution && contribution.contribution < 0 ? 'text-binance-red' : 'text-binance-green'}
+            />
+          </div>
+
+          <section>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-xs uppercase tracking-wider text-binance-text">{t.chart}</h4>
+              <div className="flex items-center gap-1">
+                {Object.values(Timeframe).map(tf => (
+                  <button
+                    key={tf}
+                    onClick={() => setTimeframe(tf)}
+                    className={`px-2 py-0.5 rounded text-xs font-mono transition-colors ${tf === timeframe ? 'bg-binance-yellow text-black' : 'text-binance-text hover:bg-binance-gray/30'}`}
+                  >
+                    {tf}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="min-h-[260px]">
+              <CandleChart data={candles} timeframe={timeframe} lang={i18n.lang} height={260} syncId="constituent-chart" />
+            </div>
+          </section>
+
+          <section>
+            <h4 className="text-xs uppercase tracking-wider mb-2 text-binance-text flex items-center gap-2">
+              <BookOpen className="w-3 h-3" /> {t.orderBook}
+            </h4>
+            {!source.subscribeDepth ? (
+              <div className="text-sm text-binance-text">{t.depthUnavailable}</div>
+            ) : book ? (
+              <DepthLadder book={book} i18n={i18n} />
+            ) : (
+              <div className="text-sm text-binance-text">{t.noData}</div>
+            )}
+          </section>
+
+          <section>
+            <h4 className="text-xs uppercase tracking-wider mb-2 text-binance-text flex items-center gap-2">
+              <History className="w-3 h-3" /> {t.weightHistory}
+            </h4>
+            {weightHistory.length === 0 ? (
+              <div className="text-sm text-binance-text">{t.noRebalances}</div>
+            ) : (
+              <ul className="divide-y divide-binance-gray/10 text-sm font-mono max-h-64 overflow-y-auto">
+                {weightHistory.map(({ record, weight, previous }) => {
+                  const delta = previous === null ? null : weight - previous;
+                  return (
+                    <li key={record.timestamp} className="flex justify-between py-1.5">
+                      <span className="text-binance-text">
+                        {i18n.formatDateTime(record.timestamp)} · {t.rebalanceTriggers[record.trigger]}
+                      </span>
+                      <span>
+                        {weight > 0 ? i18n.formatPercent(weight) : '—'}
+                        {delta !== null && delta !== 0 && (
+                          <span className={`ml-2 text-xs ${delta > 0 ? 'text-binance-green' : 'text-binance-red'}`}>
+                            {i18n.formatNumber(delta * 100, 2, true)}
+                          </span>
+                        )}
+                      </span>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </section>
+        </div>
+      </aside>
+    </div>
+  );
+};
+
+export default ConstituentDrawer;
@@ -0,0 +1,325 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Coin, ConstituentColumn, ConstituentFilter, ConstituentRow, ConstituentSort, ConstituentSortKey, DataHealth, IndexQuality, Lang, RebalanceRecord } from '../types';
+import { CONSTITUENT_OVERSCAN, CONSTITUENT_ROW_HEIGHT, CONSTITUENT_VISIBLE_ROWS, PRICE_FLASH_MS } from '../constants';
+import { PriceSnapshot } from '../services/attribution';
+import { buildConstituentRows, filterConstituentRows, loadConstituentColumns, saveConstituentColumns, sortConstituentRows, sparklinePrices } from '../services/constituents';
+import { exportConstituentsCsv } from '../services/exports';
+import { createI18n, I18n } from '../services/i18n';
+import { ArrowDown, ArrowUp, ArrowUpDown, Columns3, Download, Search } from 'lucide-react';
+
+interface ConstituentsTableProps {
+  coins: Coin[];
+  marketWeights: Record<string, number>;  // Drifted weights of the current holdings
+  lastRebalance: RebalanceRecord | null;
+  priceHistory: PriceSnapshot[];
+  quality: IndexQuality | null;
+  indexName: string;
+  lang: Lang;
+  highlightedPair: string | null;
+  onHighlight: (pair: string | null) => void;
+  onOpen: (pair: string) => void;
+}
+
+const HEALTH_DOT: Record<DataHealth, string> = {
+  [DataHealth.OK]: 'bg-binance-green',
+  [DataHealth.OUTLIER]: 'bg-orange-500',
+  [DataHealth.STALE]: 'bg-binance-yellow',
+  [DataHealth.HALTED]: 'bg-binance-red'
+};
+
+// Sortable optional columns and their key; the sparkline column doesn't sort
+const SORT_KEYS: Partial<Record<ConstituentColumn, ConstituentSortKey>> = {
+  [ConstituentColumn.PRICE]: 'price',
+  [ConstituentColumn.CHANGE]: 'change',
+  [ConstituentColumn.WEIGHT]: 'weight',
+  [ConstituentColumn.VOLUME]: 'volume',
+  [ConstituentColumn.RANK_CHANGE]: 'rankChange'
+};
+
+const SPARKLINE_WIDTH = 80;
+const SPARKLINE_HEIGHT = 24;
+
+const Sparkline: React.FC<{ prices: number[] }> = ({ prices }) => {
+  if (prices.length < 2) return <span className="text-binance-text">—</span>;
+  const min = Math.min(...prices);
+  const range = Math.max(...prices) - min || 1;
+  const points = prices
+    .map((p, i) => `${(i / (prices.length - 1)) * SPARKLINE_WIDTH},${SPARKLINE_HEIGHT - 1 - ((p - min) / range) * (SPARKLINE_HEIGHT - 2)}`)
+    .join(' ');
+  const stroke = prices[prices.length - 1] >= prices[0] ? '#0ECB81' : '#F6465D';
+  return (
+    <svg width={SPARKLINE_WIDTH} height={SPARKLINE_HEIGHT} className="inline-block align-middle">
+      <polyline points={points} fill="none" stroke={stroke} strokeWidth={1.5} />
+    </svg>
+  );
+};
+
+const RankChangeBadge: React.FC<{ change: number | null; i18n: I18n }> = ({ change, i18n }) => {
+  if (change === null) {
+    return <span className="px-1.5 py-0.5 rounded text-xs bg-binance-yellow/20 text-binance-yellow">{i18n.t.newEntrant}</span>;
+  }
+  if (change === 0) return <span className="text-binance-text">—</span>;
+  const Icon = change > 0 ? ArrowUp : ArrowDown;
+  return (
+    <span className={`inline-flex items-center gap-0.5 px-1.5 py-0.5 rounded text-xs ${change > 0 ? 'bg-binance-green/15 text-binance-green' : 'bg-binance-red/15 text-binance-red'}`}>
+      <Icon className="w-3 h-3" />{i18n.formatNumber(Math.abs(change), 0)}
+    </span>
+  );
+};
+
+interface RowProps {
+  row: ConstituentRow;
+  columns: ConstituentColumn[];
+  sparkline: number[];
+  health: DataHealth | undefined;
+  highlighted: boolean;
+  i18n: I18n;
+  onHighlight: (pair: string | null) => void;
+  onOpen: (pair: string) => void;
+}
+
+// Rows flash green/red for a moment when their price ticks up/down
+const ConstituentTableRow: React.FC<RowProps> = ({ row, columns, sparkline, health, highlighted, i18n, onHighlight, onOpen }) => {
+  const { t } = i18n;
+  const [flash, setFlash] = useState<'up' | 'down' | null>(null);
+  const previousPrice = useRef(row.price);
+
+  useEffect(() => {
+    const previous = previousPrice.current;
+    previousPrice.current = row.price;
+    if (row.price === previous) return;
+    setFlash(row.price > previous ? 'up' : 'down');
+    const timer = setTimeout(() => setFlash(null), PRICE_FLASH_MS);
+    return () => clearTimeout(timer);
+  }, [row.price]);
+
+  const background = highlighted
+    ? 'bg-binance-yellow/10'
+    : flash === 'up' ? 'bg-binance-green/10' : flash === 'down' ? 'bg-binance-red/10' : 'hover:bg-binance-light/5';
+  const show = (column: ConstituentColumn) => columns.includes(column);
+
+  return (
+    <tr
+      id={`constituent-${row.pair}`}
+      onClick={() => onHighlight(highlighted ? null : row.pair)}
+      style={{ height: CONSTITUENT_ROW_HEIGHT }}
+      className={`cursor-pointer transition-colors ${background}`}
+    >
+      <td className="px-4 text-binance-text sticky left-0 bg-binance-black sm:bg-transparent z-10">{row.rank}</td>
+      <td className="px-4 font-bold sticky left-8 sm:left-0 bg-binance-black sm:bg-transparent z-10">
+        <button
+          onClick={(e) => { e.stopPropagation(); onOpen(row.pair); }}
+          className="flex items-center gap-2 hover:text-binance-yellow transition-colors"
+        >
+          <img
+            src={`https://raw.githubusercontent.com/spothq/cryptocurrency-icons/master/32/icon/${row.symbol.toLowerCase()}.png`}
+            alt={row.symbol}
+            className="w-5 h-5 rounded-full bg-white/10"
+            onError={(e) => { (e.target as HTMLImageElement).style.display = 'none' }}
+          />
+          {row.symbol}
+          {health && (
+            <span
+              title={`${t.dataHealth[health]}: ${t.dataHealthTips[health]}`}
+              className={`w-2 h-2 rounded-full ${HEALTH_DOT[health]}`}
+            ></span>
+          )}
+        </button>
+      </td>
+      {show(ConstituentColumn.PRICE) && <td className="px-4 text-right">${i18n.formatPrice(row.price)}</td>}
+      {show(ConstituentColumn.CHANGE) && (
+        <td className={`px-4 text-right ${row.change24h >= 0 ? 'text-binance-green' : 'text-binance-red'}`}>
+          {i18n.formatPercent(row.change24h / 100, true)}
+        </td>
+      )}
+      {show(ConstituentColumn.WEIGHT) && <td className="px-4 text-right text-binance-yellow">{i18n.formatPercent(row.weight)}</td>}
+      {show(ConstituentColumn.RANK_CHANGE) && (
+        <td className="px-4 text-right"><RankChangeBadge change={row.rankChange} i18n={i18n} /></td>
+      )}
+      {show(ConstituentColumn.SPARKLINE) && <td className="px-4 text-right"><Sparkline prices={sparkline} /></td>}
+      {show(ConstituentColumn.VOLUME) && (
+        <td className="px-4 text-right text-binance-text hidden md:table-cell">{i18n.formatCompact(row.volume24h)}</td>
+      )}
+    </tr>
+  );
+};
+
+const ConstituentsTable: React.FC<ConstituentsTableProps> = ({
+  coins, marketWeights, lastRebalance, priceHistory, quality, indexName, lang, highlightedPair, onHighlight, onOpen
+}) => {
+  const i18n = useMemo(() => createI18n(lang), [lang]);
+  const { t } = i18n;
+  const [columns, setColumns] = useState<ConstituentColumn[]>(loadConstituentColumns);
+  const [showColumns, setShowColumns] = useState(false);
+  const [sort, setSort] = useState<ConstituentSort>({ key: 'rank', descending: false });
+  const [filter, setFilter] = useState<ConstituentFilter>(ConstituentFilter.ALL);
+  const [search, setSearch] = useState('');
+  const [scrollTop, setScrollTop] = useState(0);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const rows = useMemo(() => {
+    const all = buildConstituentRows(coins, marketWeights, lastRebalance);
+    return sortConstituentRows(filterConstituentRows(all, filter, search), sort);
+  }, [coins, marketWeights, lastRebalance, filter, search, sort]);
+
+  // Only the rows in view (plus overscan) are rendered; spacer rows keep the scroll height
+  const viewportHeight = CONSTITUENT_ROW_HEIGHT * CONSTITUENT_VISIBLE_ROWS;
+  const first = Math.max(0, Math.floor(scrollTop / CONSTITUENT_ROW_HEIGHT) - CONSTITUENT_OVERSCAN);
+  const last = Math.min(rows.length, Math.ceil((scrollTop + viewportHeight) / CONSTITUENT_ROW_HEIGHT) + CONSTITUENT_OVERSCAN);
+  const visibleRows = rows.slice(first, last);
+
+  // A row picked elsewhere (attribution chart, heatmap) may not be rendered: scroll it to the middle
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (!container || !highlightedPair) return;
+    const idx = rows.findIndex(r => r.pair === highlightedPair);
+    if (idx < 0) return;
+    const top = idx * CONSTITUENT_ROW_HEIGHT;
+    if (top >= container.scrollTop && top + CONSTITUENT_ROW_HEIGHT <= container.scrollTop + viewportHeight) return;
+    container.scrollTop = Math.max(0, top - viewportHeight / 2);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [highlightedPair]);
+
+  const toggleColumn = (column: ConstituentColumn) => {
+    const next = columns.includes(column) ? columns.filter(c => c !== column) : [...columns, column];
+    setColumns(next);
+    saveConstituentColumns(next);
+  };
+
+  // Names and rank start ascending, numbers start with the largest
+  const sortBy = (key: ConstituentSortKey) => {
+    setSort(prev => prev.key === key
+      ? { key, descending: !prev.descending }
+      : { key, descending: key !== 'rank' && key !== 'symbol' });
+  };
+
+  const columnLabels: Record<ConstituentColumn, string> = {
+    [ConstituentColumn.PRICE]: t.lastPrice,
+    [ConstituentColumn.CHANGE]: t.change,
+    [ConstituentColumn.WEIGHT]: t.weight,
+    [ConstituentColumn.VOLUME]: t.volume,
+    [ConstituentColumn.RANK_CHANGE]: t.rankChange,
+    [ConstituentColumn.SPARKLINE]: t.lastHour
+  };
+  // Enum order, whatever order the columns were switched on in
+  const shownColumns = Object.values(ConstituentColumn).filter(c => columns.includes(c));
+
+  const sortHeader = (sortKey: ConstituentSortKey, label: string, className: string) => {
+    const Icon = sort.key !== sortKey ? ArrowUpDown : sort.descending ? ArrowDown : ArrowUp;
+    return (
+      <th key={sortKey} className={`px-4 py-3 font-medium ${className}`}>
+        <button
+          onClick={() => sortBy(sortKey)}
+          className={`inline-flex items-center gap-1 uppercase tracking-wider hover:text-binance-light ${sort.key === sortKey ? 'text-binance-light' : ''}`}
+        >
+          {label}<Icon className="w-3 h-3" />
+        </button>
+      </th>
+    );
+  };
+
+  const columnCount = 2 + shownColumns.length;
+
+  return (
+    <div id="constituents" className="bg-binance-black rounded-xl border border-binance-gray/20 shadow-xl overflow-hidden">
+      <div className="p-4 border-b border-binance-gray/20 flex flex-wrap gap-3 justify-between items-center">
+        <h3 className="font-semibold text-lg">
+          {t.composition}
+          <span className="ml-2 text-xs font-normal text-binance-text">{i18n.plural('constituentTotal', coins.length)}</span>
+        </h3>
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <label className="flex items-center gap-1 bg-binance-dark border border-binance-gray/40 rounded px-2 py-1 focus-within:border-binance-yellow">
+            <Search className="w-3 h-3 text-binance-text" />
+            <input
+              type="search"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder={t.searchSymbols}
+              className="bg-transparent text-binance-light w-28 focus:outline-none"
+            />
+          </label>
+          <div className="flex bg-binance-dark rounded p-0.5">
+            {Object.values(ConstituentFilter).map(f => (
+              <button
+                key={f}
+                onClick={() => setFilter(f)}
+                className={`px-2 py-1 rounded transition-colors ${filter === f ? 'bg-binance-gray text-binance-yellow' : 'text-binance-text hover:text-binance-light'}`}
+              >
+                {t.constituentFilters[f]}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => setShowColumns(v => !v)}
+            className={`flex items-center gap-1 px-2 py-1 rounded transition-colors hover:bg-binance-gray/30 ${showColumns ? 'text-binance-yellow' : 'text-binance-text hover:text-binance-light'}`}
+          >
+            <Columns3 className="w-3 h-3" /> {t.columns}
+          </button>
+          <button
+            onClick={() => exportConstituentsCsv(coins, indexName, t, lang)}
+            disabled={coins.length === 0}
+            className="flex items-center gap-1 px-2 py-1 rounded text-binance-text hover:text-binance-light hover:bg-binance-gray/30 transition-colors disabled:opacity-40"
+          >
+            <Download className="w-3 h-3" /> {t.exportData} CSV
+          </button>
+        </div>
+      </div>
+
+      {showColumns && (
+        <div className="px-4 py-2 border-b border-binance-gray/20 flex flex-wrap gap-4 text-xs text-binance-text">
+          {Object.values(ConstituentColumn).map(column => (
+            <label key={column} className="flex items-center gap-1 cursor-pointer hover:text-binance-light">
+              <input type="checkbox" checked={columns.includes(column)} onChange={() => toggleColumn(column)} className="accent-binance-yellow" />
+              {columnLabels[column]}
+            </label>
+          ))}
+        </div>
+      )}
+
+      <div
+        ref={scrollRef}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        className="overflow-auto"
+        style={{ maxHeight: viewportHeight + CONSTITUENT_ROW_HEIGHT }}
+      >
+        <table className="w-full text-left border-collapse">
+          <thead className="sticky top-0 z-20">
+            <tr className="bg-binance-dark text-xs text-binance-text uppercase tracking-wider">
+              {sortHeader('rank', '#', 'sticky left-0 bg-binance-dark z-10 border-r border-binance-gray/20 sm:border-none')}
+              {sortHeader('symbol', t.symbol, 'sticky left-8 sm:left-0 bg-binance-dark z-10')}
+              {shownColumns.map(column => {
+                const className = `text-right${column === ConstituentColumn.VOLUME ? ' hidden md:table-cell' : ''}`;
+                const sortKey = SORT_KEYS[column];
+                return sortKey
+                  ? sortHeader(sortKey, columnLabels[column], className)
+                  : <th key={column} className={`px-4 py-3 font-medium ${className}`}>{columnLabels[column]}</th>;
+              })}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-binance-gray/10 text-sm font-mono">
+            {rows.length === 0 && coins.length > 0 && (
+              <tr><td colSpan={columnCount} className="p-4 text-center text-binance-text font-sans">{t.noMatches}</td></tr>
+            )}
+            {first > 0 && <tr style={{ height: first * CONSTITUENT_ROW_HEIGHT }}><td colSpan={columnCount}></td></tr>}
+            {visibleRows.map(row => (
+              <ConstituentTableRow
+                key={row.pair}
+                row={row}
+                columns={shownColumns}
+                sparkline={columns.includes(ConstituentColumn.SPARKLINE) ? sparklinePrices(priceHistory, row.pair, row.price) : []}
+                health={quality?.health[row.pair]}
+                highlighted={row.pair === highlightedPair}
+                i18n={i18n}
+                onHighlight={onHighlight}
+                onOpen={onOpen}
+              />
+            ))}
+            {last < rows.length && <tr style={{ height: (rows.length - last) * CONSTITUENT_ROW_HEIGHT }}><td colSpan={columnCount}></td></tr>}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ConstituentsTable;
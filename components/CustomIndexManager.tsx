@@ -0,0 +1,268 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CustomIndexDefinition, CustomIndexIssue, WeightingMethod } from '../types';
+import { CUSTOM_LEVEL_POLL_MS } from '../constants';
+import { MarketDataSource } from '../services/marketData';
+import { computeIndexLevel, PriceMap } from '../services/indexEngine';
+import { I18n } from '../services/i18n';
+import {
+  createCustomIndexId,
+  downloadCustomIndices,
+  loadCustomComposition,
+  parseCustomIndices,
+  parseSymbolList
+} from '../services/customIndex';
+import { Download, Eye, Layers, Pencil, Plus, Trash2, Upload } from 'lucide-react';
+
+interface CustomIndexManagerProps {
+  definitions: CustomIndexDefinition[];
+  activeId: string | null;
+  issues: Record<string, CustomIndexIssue>;  // Keyed by definition id
+  source: MarketDataSource;
+  i18n: I18n;
+  disabled?: boolean;
+  onView: (definition: CustomIndexDefinition | null) => void;
+  onSave: (definition: CustomIndexDefinition) => void;
+  onDelete: (id: string) => void;
+  onImport: (definitions: CustomIndexDefinition[]) => void;
+}
+
+interface Draft {
+  id: string | null;
+  name: string;
+  symbols: string;
+  weighting: WeightingMethod;
+  baseValue: number;
+  baseDate: string; // yyyy-mm-dd, UTC
+}
+
+interface Level {
+  level: number;
+  changePercent: number;
+}
+
+const toDateInput = (time: number) => new Date(time).toISOString().slice(0, 10);
+const fromDateInput = (value: string) => new Date(`${value}T00:00:00Z`).getTime();
+
+const emptyDraft = (): Draft => ({
+  id: null,
+  name: '',
+  symbols: '',
+  weighting: WeightingMethod.EQUAL,
+  baseValue: 1000,
+  baseDate: toDateInput(Date.now() - 30 * 24 * 60 * 60 * 1000)
+});
+
+const inputClass = "bg-binance-dark border border-binance-gray/40 rounded px-2 py-1 text-sm text-binance-light focus:outline-none focus:border-binance-yellow";
+const buttonClass = "flex items-center gap-1 px-2 py-1 rounded text-xs text-binance-text hover:text-binance-light hover:bg-binance-gray/30 transition-colors";
+
+const CustomIndexManager: React.FC<CustomIndexManagerProps> = ({
+  definitions, activeId, issues, source, i18n, disabled, onView, onSave, onDelete, onImport
+}) => {
+  const { t } = i18n;
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [levels, setLevels] = useState<Record<string, Level>>({});
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  // Same engine as the dashboard: each stored basket valued at live and 24h-open prices
+  useEffect(() => {
+    if (definitions.length === 0) return;
+    let cancelled = false;
+
+    const refresh = async () => {
+      const pairs = Array.from(new Set(definitions.flatMap(d => d.pairs)));
+      const coins = await source.fetchTickers(pairs);
+      if (cancelled) return;
+      const prices: PriceMap = Object.fromEntries(coins.map(c => [c.pair, c.price]));
+      const openPrices: PriceMap = Object.fromEntries(coins.map(c => [c.pair, c.price / (1 + c.change24h / 100)]));
+
+      const next: Record<string, Level> = {};
+      definitions.forEach(d => {
+        const composition = loadCustomComposition(d.id);
+        if (!composition) return;
+        const level = computeIndexLevel(composition, prices);
+        const open = computeIndexLevel(composition, openPrices);
+        next[d.id] = { level, changePercent: open === 0 ? 0 : (level / open - 1) * 100 };
+      });
+      setLevels(next);
+    };
+
+    refresh();
+    const interval = setInterval(refresh, CUSTOM_LEVEL_POLL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [definitions, source]);
+
+  const edit = (d: CustomIndexDefinition) => setDraft({
+    id: d.id,
+    name: d.name,
+    symbols: d.pairs.join(', '),
+    weighting: d.weighting,
+    baseValue: d.baseValue,
+    baseDate: toDateInput(d.baseDate)
+  });
+
+  const pairs = draft ? parseSymbolList(draft.symbols) : [];
+  const baseDate = draft ? fromDateInput(draft.baseDate) : NaN;
+  const isValid = !!draft && draft.name.trim() !== '' && pairs.length > 0 && draft.baseValue > 0 && baseDate < Date.now();
+
+  const save = () => {
+    if (!draft || !isValid) return;
+    onSave({
+      id: draft.id ?? createCustomIndexId(),
+      name: draft.name.trim(),
+      pairs,
+      weighting: draft.weighting,
+      baseValue: draft.baseValue,
+      baseDate
+    });
+    setDraft(null);
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      onImport(parseCustomIndices(await file.text()));
+    } catch (error) {
+      window.alert(`${t.importFailed}: ${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="bg-binance-black rounded-xl border border-binance-gray/20 shadow-xl overflow-hidden">
+      <div className="p-4 border-b border-binance-gray/20 flex flex-wrap gap-3 justify-between items-center">
+        <h3 className="font-semibold text-lg flex items-center gap-2">
+          <Layers className="w-4 h-4 text-binance-yellow" /> {t.customIndices}
+        </h3>
+        <div className="flex items-center gap-1">
+          <button onClick={() => setDraft(emptyDraft())} disabled={disabled} className={`${buttonClass} disabled:opacity-40`}>
+            <Plus className="w-3 h-3" /> {t.newIndex}
+          </button>
+          <button onClick={() => fileRef.current?.click()} disabled={disabled} className={`${buttonClass} disabled:opacity-40`}>
+            <Upload className="w-3 h-3" /> {t.importIndices}
+          </button>
+          <button onClick={() => downloadCustomIndices(definitions)} disabled={definitions.length === 0} className={`${buttonClass} disabled:opacity-40`}>
+            <Download className="w-3 h-3" /> {t.exportIndices}
+          </button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) importFile(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
+
+      {draft && (
+        <div className="p-4 border-b border-binance-gray/20 grid grid-cols-1 md:grid-cols-2 gap-3">
+          <label className="flex flex-col gap-1 text-xs text-binance-text">
+            {t.indexName}
+            <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} className={inputClass} />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-binance-text">
+            {t.weighting}
+            <select value={draft.weighting} onChange={(e) => setDraft({ ...draft, weighting: e.target.value as WeightingMethod })} className={inputClass}>
+              {Object.values(WeightingMethod).map(m => <option key={m} value={m}>{t.weightingMethods[m]}</option>)}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-binance-text md:col-span-2">
+            {t.symbols} ({pairs.length})
+            <textarea
+              value={draft.symbols}
+              onChange={(e) => setDraft({ ...draft, symbols: e.target.value })}
+              placeholder="BTC, ETH, SOL"
+              rows={2}
+              className={`${inputClass} font-mono`}
+            />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-binance-text">
+            {t.baseValue}
+            <input type="number" min={0} value={draft.baseValue} onChange={(e) => setDraft({ ...draft, baseValue: Number(e.target.value) })} className={inputClass} />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-binance-text">
+            {t.baseDate} (UTC)
+            <input type="date" value={draft.baseDate} max={toDateInput(Date.now())} onChange={(e) => setDraft({ ...draft, baseDate: e.target.value })} className={inputClass} />
+          </label>
+          <div className="md:col-span-2 flex justify-end gap-2">
+            <button onClick={() => setDraft(null)} className={buttonClass}>{t.cancel}</button>
+            <button
+              onClick={save}
+              disabled={!isValid}
+              className="px-3 py-1 rounded text-xs font-semibold bg-binance-yellow text-black disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              {t.save}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {definitions.length === 0 ? (
+        <div className="p-4 text-sm text-binance-text">{t.noCustomIndices}</div>
+      ) : (
+        <table className="w-full text-left border-collapse">
+          <thead>
+            <tr className="bg-binance-dark text-xs text-binance-text uppercase tracking-wider">
+              <th className="p-3 font-medium">{t.indexName}</th>
+              <th className="p-3 font-medium hidden md:table-cell">{t.weighting}</th>
+              <th className="p-3 font-medium text-right hidden md:table-cell">{t.symbols}</th>
+              <th className="p-3 font-medium text-right">{t.price}</th>
+              <th className="p-3 font-medium text-right">{t.change}</th>
+              <th className="p-3"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-binance-gray/10 text-sm">
+            {definitions.map(d => {
+              const level = levels[d.id];
+              const isActive = d.id === activeId;
+              const issue = issues[d.id];
+              return (
+                <tr key={d.id} className={isActive ? 'bg-binance-yellow/10' : ''}>
+                  <td className="p-3 font-semibold">
+                    {d.name}
+                    {issue?.error && (
+                      <div className="text-xs font-normal text-binance-red">{t.rebalanceFailed}: {issue.error}</div>
+                    )}
+                    {issue && issue.unpriced.length > 0 && (
+                      <div className="text-xs font-normal text-binance-red">{i18n.message('unpricedPairs', { pairs: issue.unpriced.join(', ') })}</div>
+                    )}
+                  </td>
+                  <td className="p-3 text-binance-text hidden md:table-cell">{t.weightingMethods[d.weighting]}</td>
+                  <td className="p-3 text-right font-mono text-binance-text hidden md:table-cell">{d.pairs.length}</td>
+                  <td className="p-3 text-right font-mono">{level ? i18n.formatNumber(level.level, 2) : '—'}</td>
+                  <td className={`p-3 text-right font-mono ${level && level.changePercent < 0 ? 'text-binance-red' : 'text-binance-green'}`}>
+                    {level ? i18n.formatPercent(level.changePercent / 100, true) : '—'}
+                  </td>
+                  <td className="p-3">
+                    <div className="flex justify-end gap-1">
+                      <button onClick={() => onView(isActive ? null : d)} disabled={disabled} title={isActive ? t.mainIndex : t.view} className={`${buttonClass} disabled:opacity-40`}>
+                        <Eye className={`w-3 h-3 ${isActive ? 'text-binance-yellow' : ''}`} />
+                      </button>
+                      <button onClick={() => edit(d)} disabled={disabled} title={t.edit} className={`${buttonClass} disabled:opacity-40`}>
+                        <Pencil className="w-3 h-3" />
+                      </button>
+                      <button
+                        onClick={() => { if (window.confirm(`${t.confirmDelete} ${d.name}?`)) onDelete(d.id); }}
+                        disabled={disabled}
+                        title={t.deleteIndex}
+                        className={`${buttonClass} hover:text-binance-red disabled:opacity-40`}
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default CustomIndexManager;
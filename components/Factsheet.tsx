@@ -0,0 +1,239 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { CandleData, Coin, CustomIndexDefinition, DataSourceId, FactsheetPeriod, Lang, RebalanceRecord, RiskMetric, UniverseRules, WeightingMethod } from '../types';
+import { BASE_DATE_TIMESTAMP, BASE_INDEX_VALUE, FACTSHEET_TOP_HOLDINGS, LANGUAGE_NAMES, WEIGHT_CAP } from '../constants';
+import { computeFactsheetStats, sectorBreakdown, sectorOf, topHoldings } from '../services/factsheet';
+import { getNextScheduledRun } from '../services/rebalance';
+import { createI18n } from '../services/i18n';
+import { FileText, Globe, Printer, X } from 'lucide-react';
+
+interface FactsheetProps {
+  custom: CustomIndexDefinition | null;  // Null for the main index
+  weighting: WeightingMethod;
+  rules: UniverseRules;
+  coins: Coin[];
+  daily: CandleData[];  // The index's daily candles, oldest first
+  level: number;
+  log: RebalanceRecord[];
+  source: DataSourceId;
+  lang: Lang;
+  onClose: () => void;
+}
+
+// Screen styles are the dashboard's; print: overrides give black on white paper
+const sectionClass = "bg-binance-black rounded-xl p-6 border border-binance-gray/20 print:bg-white print:border-gray-300 print:rounded-none print:p-4 break-inside-avoid";
+const headingClass = "font-semibold text-lg mb-4 print:text-base print:mb-2";
+
+const Fact = ({ label, value }: { label: string; value: React.ReactNode }) => (
+  <div className="flex justify-between gap-4 py-1.5 text-sm border-b border-binance-gray/10 print:border-gray-200">
+    <span className="text-binance-text print:text-gray-600">{label}</span>
+    <span className="font-mono text-right">{value}</span>
+  </div>
+);
+
+const Factsheet: React.FC<FactsheetProps> = ({ custom, weighting, rules, coins, daily, level, log, source, lang, onClose }) => {
+  // The document can be read and printed in any language without switching the dashboard
+  const [docLang, setDocLang] = useState(lang);
+  const i18n = useMemo(() => createI18n(docLang), [docLang]);
+  const { t } = i18n;
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [onClose]);
+
+  const now = Date.now();
+  const name = custom?.name ?? t.title;
+  const baseValue = custom?.baseValue ?? BASE_INDEX_VALUE;
+  const baseDate = custom?.baseDate ?? BASE_DATE_TIMESTAMP;
+  const lastRecord = log.length > 0 ? log[log.length - 1] : null;
+
+  const stats = useMemo(
+    () => computeFactsheetStats(daily, level, baseValue, Date.now()),
+    [daily, level, baseValue]
+  );
+  const holdings = useMemo(() => topHoldings(coins, FACTSHEET_TOP_HOLDINGS), [coins]);
+  const sectors = useMemo(() => sectorBreakdown(coins), [coins]);
+  const maxSectorWeight = sectors.length > 0 ? sectors[0].weight : 1;
+
+  const percentOrDash = (v: number | null, signed = false) => (v !== null && isFinite(v) ? i18n.formatPercent(v, signed) : '—');
+  const returnColor = (v: number | null) =>
+    v === null || !isFinite(v) || v === 0 ? '' : v > 0 ? 'text-binance-green' : 'text-binance-red';
+
+  return (
+    <div className="fixed inset-0 z-[60] overflow-y-auto bg-binance-dark print:static print:overflow-visible print:bg-white">
+      <div className="sticky top-0 z-10 bg-binance-black border-b border-binance-gray/20 px-4 py-3 flex items-center justify-between print:hidden">
+        <h2 className="font-semibold flex items-center gap-2">
+          <FileText className="w-4 h-4 text-binance-yellow" /> {t.methodology}
+        </h2>
+        <div className="flex items-center gap-2">
+          <label className="flex items-center gap-2 bg-binance-gray/20 hover:bg-binance-gray/40 px-3 py-1.5 rounded transition-colors text-sm" title={t.language}>
+            <Globe className="w-4 h-4" />
+            <select
+              value={docLang}
+              onChange={(e) => setDocLang(e.target.value as Lang)}
+              className="bg-transparent border-none text-binance-light focus:outline-none"
+            >
+              {Object.values(Lang).map(l => (
+                <option key={l} value={l} className="bg-binance-black">{LANGUAGE_NAMES[l]}</option>
+              ))}
+            </select>
+          </label>
+          <button
+            onClick={() => window.print()}
+            className="flex items-center gap-2 bg-binance-yellow text-black hover:bg-binance-yellow/90 px-3 py-1.5 rounded transition-colors text-sm font-medium"
+          >
+            <Printer className="w-4 h-4" /> {t.print}
+          </button>
+          <button onClick={onClose} className="p-1 rounded text-binance-text hover:text-binance-light hover:bg-binance-gray/30 transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      <article lang={i18n.locale} className="max-w-4xl mx-auto p-6 space-y-6 print:max-w-none print:p-0 print:space-y-4 print:text-black">
+        <header className="flex flex-wrap justify-between items-end gap-4">
+          <div>
+            <h1 className="text-2xl font-bold">{name}</h1>
+            <p className="text-sm text-binance-text print:text-gray-600">
+              {custom ? t.weightingMethods[weighting] : i18n.interpolate(t.subtitle[weighting], { count: rules.constituentCount, cap: i18n.formatPercent(WEIGHT_CAP) })}
+            </p>
+          </div>
+          <div className="text-right">
+            <div className="text-3xl font-mono font-bold">{i18n.formatNumber(level, 2)}</div>
+            <div className="text-xs text-binance-text print:text-gray-600">{i18n.formatDateTime(now)}</div>
+          </div>
+        </header>
+
+        <section className={sectionClass}>
+          <h3 className={headingClass}>{t.keyFacts}</h3>
+          <div className="grid md:grid-cols-2 gap-x-8 print:grid-cols-2">
+            <Fact label={t.baseDate} value={i18n.formatDate(baseDate)} />
+            <Fact label={t.baseValue} value={i18n.formatNumber(baseValue, 2)} />
+            <Fact label={t.weighting} value={t.weightingMethods[weighting]} />
+            <Fact label={t.constituentCount} value={i18n.formatNumber(coins.length, 0)} />
+            <Fact label={t.dataSource} value={t.dataSources[source]} />
+            <Fact label={t.lastRebalance} value={lastRecord ? i18n.formatDateTime(lastRecord.timestamp) : '—'} />
+            <Fact label={t.rebalanceCount} value={i18n.formatNumber(log.length, 0)} />
+            <Fact label={t.divisor} value={lastRecord ? i18n.formatNumber(lastRecord.divisor, 4) : '—'} />
+          </div>
+        </section>
+
+        <section className={sectionClass}>
+          <h3 className={headingClass}>{t.methodology}</h3>
+          <div className="space-y-3 text-sm leading-relaxed">
+            <p>
+              {custom
+                ? i18n.interpolate(t.factsheetIntroCustom, { name, count: custom.pairs.length, source: t.dataSources[source] })
+                : i18n.interpolate(t.factsheetIntro, { name, quote: rules.quoteAsset, source: t.dataSources[source] })}
+            </p>
+
+            {!custom && (
+              <>
+                <h4 className="font-semibold pt-2">{t.universeRules}</h4>
+                <p>{i18n.interpolate(t.universeMethod, { entry: rules.entryRank, exit: rules.exitRank, count: rules.constituentCount })}</p>
+                <div className="grid md:grid-cols-2 gap-x-8 print:grid-cols-2">
+                  <Fact label={t.quoteAsset} value={rules.quoteAsset} />
+                  <Fact label={t.constituentCount} value={rules.constituentCount} />
+                  <Fact label={t.minVolume} value={`${i18n.formatCompact(rules.minVolume24h)} ${rules.quoteAsset}`} />
+                  <Fact label={t.minListingAge} value={i18n.formatNumber(rules.minListingAgeDays, 0)} />
+                  <Fact label={t.entryRank} value={rules.entryRank} />
+                  <Fact label={t.exitRank} value={rules.exitRank} />
+                  <Fact label={t.excludeStablecoins} value={rules.excludeStablecoins ? t.yes : t.no} />
+                  <Fact label={t.excludeLeveraged} value={rules.excludeLeveraged ? t.yes : t.no} />
+                  <Fact label={t.excludeWrapped} value={rules.excludeWrapped ? t.yes : t.no} />
+                </div>
+              </>
+            )}
+
+            <h4 className="font-semibold pt-2">{t.weighting}: {t.weightingMethods[weighting]}</h4>
+            <p>{i18n.interpolate(t.weightingDescriptions[weighting], { cap: i18n.formatPercent(WEIGHT_CAP) })}</p>
+
+            <h4 className="font-semibold pt-2">{t.indexCalculation}</h4>
+            <p>{t.calculationMethod}</p>
+            <p>{i18n.interpolate(t.rebalanceSchedule, { time: i18n.formatTime(getNextScheduledRun(now), true) })}</p>
+          </div>
+        </section>
+
+        <div className="grid md:grid-cols-2 gap-6 print:grid-cols-2 print:gap-4">
+          <section className={sectionClass}>
+            <h3 className={headingClass}>{t.topHoldings}</h3>
+            <table className="w-full text-sm">
+              <thead className="text-xs text-binance-text print:text-gray-600">
+                <tr>
+                  <th className="py-1 text-left font-medium">#</th>
+                  <th className="py-1 text-left font-medium">{t.symbol}</th>
+                  <th className="py-1 text-left font-medium">{t.sector}</th>
+                  <th className="py-1 text-right font-medium">{t.weight}</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono divide-y divide-binance-gray/10 print:divide-gray-200">
+                {holdings.map((c, idx) => (
+                  <tr key={c.pair}>
+                    <td className="py-1 text-binance-text print:text-gray-600">{idx + 1}</td>
+                    <td className="py-1 font-bold">{c.symbol}</td>
+                    <td className="py-1 font-sans text-binance-text print:text-gray-600">{t.sectors[sectorOf(c.symbol)]}</td>
+                    <td className="py-1 text-right">{i18n.formatPercent(c.weight)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </section>
+
+          <section className={sectionClass}>
+            <h3 className={headingClass}>{t.sectorBreakdown}</h3>
+            <div className="space-y-2 text-sm">
+              {sectors.map(s => (
+                <div key={s.sector}>
+                  <div className="flex justify-between">
+                    <span>{t.sectors[s.sector]} <span className="text-xs text-binance-text print:text-gray-600">({s.count})</span></span>
+                    <span className="font-mono">{i18n.formatPercent(s.weight)}</span>
+                  </div>
+                  <div className="h-1.5 bg-binance-dark rounded print:bg-gray-200">
+                    <div className="h-full bg-binance-yellow rounded" style={{ width: `${(s.weight / maxSectorWeight) * 100}%` }}></div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+        </div>
+
+        <section className={sectionClass}>
+          <h3 className={headingClass}>{t.performanceStats}</h3>
+          <div className="grid grid-cols-3 md:grid-cols-6 gap-2 text-center print:grid-cols-6">
+            {Object.values(FactsheetPeriod).map(period => (
+              <div key={period} className="bg-binance-dark rounded py-2 print:bg-white print:border print:border-gray-300">
+                <div className="text-xs text-binance-text print:text-gray-600">{t.factsheetPeriods[period]}</div>
+                <div className={`font-mono ${returnColor(stats.returns[period])}`}>{percentOrDash(stats.returns[period], true)}</div>
+              </div>
+            ))}
+          </div>
+          <div className="grid md:grid-cols-2 gap-x-8 mt-4 print:grid-cols-2">
+            <Fact label={t.volatility} value={percentOrDash(stats.volatility)} />
+            <Fact label={t.maxDrawdown} value={percentOrDash(stats.maxDrawdown)} />
+            <Fact label={t.riskLabels[RiskMetric.SHARPE]} value={isFinite(stats.sharpe) ? i18n.formatNumber(stats.sharpe, 2) : '—'} />
+            <Fact
+              label={t.bestDay}
+              value={stats.bestDay ? `${i18n.formatPercent(stats.bestDay.return, true)} (${i18n.formatDate(stats.bestDay.time)})` : '—'}
+            />
+            <Fact
+              label={t.worstDay}
+              value={stats.worstDay ? `${i18n.formatPercent(stats.worstDay.return, true)} (${i18n.formatDate(stats.worstDay.time)})` : '—'}
+            />
+          </div>
+          {stats.historyStart !== null && (
+            <p className="mt-3 text-xs text-binance-text print:text-gray-600">
+              {i18n.interpolate(t.historySince, { date: i18n.formatDate(stats.historyStart) })}
+            </p>
+          )}
+        </section>
+
+        <footer className="text-xs text-binance-text print:text-gray-600">
+          {i18n.interpolate(t.generatedAt, { time: i18n.formatDateTime(now) })}
+        </footer>
+      </article>
+    </div>
+  );
+};
+
+export default Factsheet;
@@ -0,0 +1,141 @@
+import React, { useMemo, useState } from 'react';
+import { BarChart, Bar, Cell, XAxis, YAxis, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
+import { CandleData, FundFlow, FundSettings } from '../types';
+import { NAV_HISTORY_DAYS } from '../constants';
+import { buildNavHistory, computeNav, feeFactor, loadFundSettings, saveFundSettings } from '../services/fund';
+import { I18n } from '../services/i18n';
+import { Landmark } from 'lucide-react';
+
+interface FundCardProps {
+  daily: CandleData[]; // The index's daily candles, oldest first
+  level: number;
+  lastUpdate: number;
+  i18n: I18n;
+}
+
+const premiumColor = (v: number) => (v > 0 ? 'text-binance-green' : v < 0 ? 'text-binance-red' : 'text-binance-text');
+
+const PremiumTooltip = ({ active, payload, label, i18n }: any) => {
+  if (!active || !payload || !payload.length) return null;
+  return (
+    <div className="bg-binance-black border border-binance-gray p-2 rounded shadow-lg text-xs font-mono z-50">
+      <p className="text-binance-text">{i18n.formatDate(label)}</p>
+      <p className={premiumColor(payload[0].value)}>{i18n.formatPercent(payload[0].value, true)}</p>
+    </div>
+  );
+};
+
+const inputClass = "bg-binance-dark border border-binance-gray/40 rounded px-2 py-1 text-xs text-binance-light w-20 text-right focus:outline-none focus:border-binance-yellow";
+
+const FundCard: React.FC<FundCardProps> = ({ daily, level, lastUpdate, i18n }) => {
+  const { t } = i18n;
+  const [settings, setSettings] = useState<FundSettings>(loadFundSettings);
+
+  const update = (patch: Partial<FundSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    saveFundSettings(next);
+  };
+
+  const history = useMemo(
+    () => buildNavHistory(daily, settings).slice(-NAV_HISTORY_DAYS),
+    [daily, settings]
+  );
+
+  // Live values carry today's simulated premium over to the latest level
+  const today = history.length > 0 ? history[history.length - 1] : null;
+  const nav = computeNav(level, lastUpdate, settings.managementFeePct);
+  const premium = today?.premium ?? 0;
+
+  return (
+    <div className="bg-binance-black rounded-xl p-6 border border-binance-gray/20 shadow-xl">
+      <h3 className="font-semibold mb-4 flex items-center gap-2">
+        <Landmark className="w-4 h-4 text-binance-yellow" /> {t.fund}
+      </h3>
+
+      <div className="space-y-2 text-sm">
+        <div className="flex justify-between">
+          <span className="text-binance-text">{t.nav}</span>
+          <span className="font-mono">{i18n.formatNumber(nav, 2)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-binance-text">{t.marketPrice}</span>
+          <span className="font-mono">{i18n.formatNumber(nav * (1 + premium), 2)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-binance-text">{t.premiumDiscount}</span>
+          <span className={`font-mono ${premiumColor(premium)}`}>{i18n.formatPercent(premium, true)}</span>
+        </div>
+        <div className="flex justify-between">
+          <span className="text-binance-text">{t.feesAccrued}</span>
+          <span className="font-mono">{i18n.formatNumber((1 - feeFactor(lastUpdate, settings.managementFeePct)) * 100, 3)}%</span>
+        </div>
+      </div>
+
+      <div className="mt-4 pt-4 border-t border-binance-gray/20 space-y-2 text-xs text-binance-text">
+        <label className="flex justify-between items-center">
+          {t.managementFee}
+          <input type="number" min={0} step="0.01" value={settings.managementFeePct}
+            onChange={(e) => update({ managementFeePct: Math.max(0, Number(e.target.value)) })} className={inputClass} />
+        </label>
+        <label className="flex justify-between items-center">
+          {t.creationBand} ({t.bps})
+          <input type="number" min={0} step="any" value={settings.bandBps}
+            onChange={(e) => update({ bandBps: Math.max(0, Number(e.target.value)) })} className={inputClass} />
+        </label>
+        <label className="flex justify-between items-center">
+          {t.premiumVolatility} ({t.bps})
+          <input type="number" min={0} step="any" value={settings.premiumVolBps}
+            onChange={(e) => update({ premiumVolBps: Math.max(0, Number(e.target.value)) })} className={inputClass} />
+        </label>
+      </div>
+
+      {history.length > 1 && (
+        <div className="mt-4">
+          <div className="text-xs text-binance-text mb-1">{t.premiumDiscount}</div>
+          <ResponsiveContainer width="100%" height={80}>
+            <BarChart data={history} margin={{ top: 2, right: 0, left: 0, bottom: 2 }}>
+              <XAxis dataKey="time" hide />
+              <YAxis hide domain={[-settings.bandBps / 10000, settings.bandBps / 10000]} />
+              <Tooltip content={<PremiumTooltip i18n={i18n} />} cursor={{ fill: '#2B3139' }} />
+              <ReferenceLine y={0} stroke="#474D57" />
+              <Bar dataKey="premium" isAnimationActive={false}>
+                {history.map(p => <Cell key={p.time} fill={p.premium >= 0 ? '#0ECB81' : '#F6465D'} />)}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      {history.length > 0 && (
+        <div className="mt-4">
+          <div className="text-xs text-binance-text mb-1">{t.navHistory}</div>
+          <div className="max-h-48 overflow-y-auto">
+            <table className="w-full text-xs">
+              <thead className="text-binance-text sticky top-0 bg-binance-black">
+                <tr>
+                  <th className="py-1 text-left font-medium">{t.date}</th>
+                  <th className="py-1 text-right font-medium">{t.nav}</th>
+                  <th className="py-1 text-right font-medium">{t.premiumDiscount}</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono divide-y divide-binance-gray/10">
+                {[...history].reverse().map(p => (
+                  <tr key={p.time} title={p.flow !== FundFlow.NONE ? t.fundFlows[p.flow] : undefined}>
+                    <td className="py-1">{i18n.formatDate(p.time)}</td>
+                    <td className="py-1 text-right">{i18n.formatNumber(p.nav, 2)}</td>
+                    <td className={`py-1 text-right ${premiumColor(p.premium)}`}>
+                      {i18n.formatPercent(p.premium, true)}{p.flow !== FundFlow.NONE && ' •'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FundCard;
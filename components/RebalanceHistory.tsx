@@ -0,0 +1,131 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { RebalanceRecord, WeightChange } from '../types';
+import { diffRebalances } from '../services/rebalance';
+import { baseAssetOf } from '../services/marketData';
+import { exportCompositionCsv } from '../services/exports';
+import { I18n } from '../services/i18n';
+import { Download, History } from 'lucide-react';
+
+interface RebalanceHistoryProps {
+  log: RebalanceRecord[];
+  indexName: string;
+  i18n: I18n;
+}
+
+const recordLabel = (record: RebalanceRecord, i18n: I18n) =>
+  `${i18n.formatDateTime(record.timestamp)} · ${i18n.t.rebalanceTriggers[record.trigger]}`;
+
+const ChangeList = ({ title, items, color, i18n }: { title: string; items: WeightChange[]; color: string; i18n: I18n }) => (
+  <div>
+    <h4 className={`text-xs uppercase tracking-wider mb-2 ${color}`}>{title} ({items.length})</h4>
+    {items.length === 0 ? (
+      <div className="text-xs text-binance-text">—</div>
+    ) : (
+      <ul className="space-y-1 text-sm font-mono">
+        {items.map(item => (
+          <li key={item.pair} className="flex justify-between">
+            <span>{baseAssetOf(item.pair)}</span>
+            <span className="text-binance-text">{i18n.formatPercent(Math.max(item.before, item.after))}</span>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+const RebalanceHistory: React.FC<RebalanceHistoryProps> = ({ log, indexName, i18n }) => {
+  const { t } = i18n;
+  // Default to comparing the two most recent rebalances
+  const [fromIdx, setFromIdx] = useState(Math.max(0, log.length - 2));
+  const [toIdx, setToIdx] = useState(Math.max(0, log.length - 1));
+
+  // Follow new rebalances as they land
+  useEffect(() => {
+    setFromIdx(Math.max(0, log.length - 2));
+    setToIdx(Math.max(0, log.length - 1));
+  }, [log.length]);
+
+  const from = log[fromIdx];
+  const to = log[toIdx];
+  const diff = useMemo(() => (from && to ? diffRebalances(from, to) : null), [from, to]);
+
+  const selectClass = "bg-binance-dark border border-binance-gray/40 rounded px-2 py-1 text-xs text-binance-light focus:outline-none focus:border-binance-yellow";
+
+  return (
+    <div className="bg-binance-black rounded-xl border border-binance-gray/20 shadow-xl overflow-hidden">
+      <div className="p-4 border-b border-binance-gray/20 flex flex-wrap gap-3 justify-between items-center">
+        <h3 className="font-semibold text-lg flex items-center gap-2">
+          <History className="w-4 h-4 text-binance-yellow" /> {t.rebalanceHistory}
+        </h3>
+        <div className="flex flex-wrap items-center gap-2 text-xs text-binance-text">
+          {log.length > 1 && (
+            <div className="flex items-center gap-2">
+              <span>{t.compareFrom}</span>
+              <select value={fromIdx} onChange={(e) => setFromIdx(Number(e.target.value))} className={selectClass}>
+                {log.map((r, i) => <option key={r.timestamp} value={i}>{recordLabel(r, i18n)}</option>)}
+              </select>
+              <span>{t.compareTo}</span>
+              <select value={toIdx} onChange={(e) => setToIdx(Number(e.target.value))} className={selectClass}>
+                {log.map((r, i) => <option key={r.timestamp} value={i}>{recordLabel(r, i18n)}</option>)}
+              </select>
+            </div>
+          )}
+          {to && (
+            <button
+              onClick={() => exportCompositionCsv(to, indexName, t, i18n.lang)}
+              title={recordLabel(to, i18n)}
+              className="flex items-center gap-1 px-2 py-1 rounded hover:text-binance-light hover:bg-binance-gray/30 transition-colors"
+            >
+              <Download className="w-3 h-3" /> {t.exportComposition}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {log.length < 2 || !diff || !from || !to ? (
+        <div className="p-4 text-sm text-binance-text">{t.noRebalances}</div>
+      ) : (
+        <div className="p-4 space-y-6">
+          <div className="grid grid-cols-2 gap-4 text-xs font-mono text-binance-text">
+            {[from, to].map((r, i) => (
+              <div key={i} className="space-y-1">
+                <div>{recordLabel(r, i18n)} · {t.weightingMethods[r.weighting]}</div>
+                <div>{t.price}: <span className="text-binance-light">{i18n.formatNumber(r.level, 2)}</span></div>
+                <div>{t.divisor}: <span className="text-binance-light">{i18n.formatNumber(r.divisor, 4)}</span></div>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <ChangeList title={t.entrants} items={diff.entrants} color="text-binance-green" i18n={i18n} />
+            <ChangeList title={t.leavers} items={diff.leavers} color="text-binance-red" i18n={i18n} />
+            <div>
+              <h4 className="text-xs uppercase tracking-wider mb-2 text-binance-yellow">{t.weightChanges}</h4>
+              <div className="max-h-64 overflow-y-auto pr-2">
+                <table className="w-full text-sm font-mono">
+                  <tbody>
+                    {diff.changes.map(c => {
+                      const delta = c.after - c.before;
+                      return (
+                        <tr key={c.pair}>
+                          <td className="py-0.5">{baseAssetOf(c.pair)}</td>
+                          <td className="py-0.5 text-right text-binance-text">{i18n.formatPercent(c.before)}</td>
+                          <td className="py-0.5 text-right">{i18n.formatPercent(c.after)}</td>
+                          <td className={`py-0.5 text-right ${delta >= 0 ? 'text-binance-green' : 'text-binance-red'}`}>
+                            {i18n.formatNumber(delta * 100, 2, true)}
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RebalanceHistory;
@@ -0,0 +1,67 @@
+import React from 'react';
+import { I18n } from '../services/i18n';
+import { REPLAY_SPEEDS, ReplayState } from '../services/replay';
+import { Pause, Play, X } from 'lucide-react';
+
+interface ReplayControlsProps {
+  state: ReplayState;
+  i18n: I18n;
+  onPlay: () => void;
+  onPause: () => void;
+  onSpeed: (speed: number) => void;
+  onSeek: (time: number) => void;
+  onExit: () => void;
+}
+
+const ReplayControls: React.FC<ReplayControlsProps> = ({ state, i18n, onPlay, onPause, onSpeed, onSeek, onExit }) => {
+  const { t } = i18n;
+  const progress = state.end > state.start ? (state.time - state.start) / (state.end - state.start) : 0;
+
+  return (
+    <div className="bg-binance-black rounded-xl border border-binance-yellow/40 shadow-xl p-4 flex flex-wrap items-center gap-4">
+      <span className="text-xs font-mono bg-binance-yellow text-black px-2 py-0.5 rounded">{t.replay}</span>
+
+      <button
+        onClick={state.playing ? onPause : onPlay}
+        title={state.playing ? t.pause : t.play}
+        className="bg-binance-gray/20 hover:bg-binance-gray/40 p-2 rounded transition-colors"
+      >
+        {state.playing ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+      </button>
+
+      <div className="flex items-center gap-1">
+        {REPLAY_SPEEDS.map(speed => (
+          <button
+            key={speed}
+            onClick={() => onSpeed(speed)}
+            className={`px-2 py-0.5 rounded text-xs font-mono transition-colors ${speed === state.speed ? 'bg-binance-yellow text-black' : 'text-binance-text hover:bg-binance-gray/30'}`}
+          >
+            {speed}x
+          </button>
+        ))}
+      </div>
+
+      <input
+        type="range"
+        min={0}
+        max={1000}
+        value={Math.round(progress * 1000)}
+        onChange={(e) => onSeek(state.start + (Number(e.target.value) / 1000) * (state.end - state.start))}
+        className="flex-1 min-w-[160px] accent-binance-yellow"
+      />
+
+      <span className="text-xs font-mono text-binance-text">
+        {i18n.formatDateTime(state.time)} / {i18n.formatTime(state.end)}
+      </span>
+
+      <button
+        onClick={onExit}
+        className="flex items-center gap-1 text-xs text-binance-text hover:text-binance-light transition-colors"
+      >
+        <X className="w-4 h-4" /> {t.exitReplay}
+      </button>
+    </div>
+  );
+};
+
+export default ReplayControls;
@@ -0,0 +1,177 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { LineChart, Line, ResponsiveContainer, YAxis, ReferenceLine } from 'recharts';
+import { CandleData, RiskMetric, Timeframe, TimeframeSeries } from '../types';
+import { BETA_WINDOW, RISK_WINDOW_MS } from '../constants';
+import { MarketDataSource, TIMEFRAME_MS } from '../services/marketData';
+import { fetchKlineRange } from '../services/backfill';
+import { alignCloses, annualizedVolatility, periodReturns } from '../services/performance';
+import { computeConcentration, computeDrawdown, rollingBeta, sharpeRatio, sortinoRatio } from '../services/risk';
+import { I18n } from '../services/i18n';
+import { Info, ShieldAlert } from 'lucide-react';
+
+interface RiskCardProps {
+  series: TimeframeSeries;
+  // Current market-value weights of the constituents
+  weights: number[];
+  source: MarketDataSource;
+  i18n: I18n;
+}
+
+const BTC_PAIR = 'BTCUSDT';
+const BTC_REFRESH_MS = 5 * 60 * 1000;
+// Fewer returns than this and a statistic is noise
+const MIN_RETURNS = 10;
+
+// Each horizon is measured on a timeframe fine enough to give it plenty of returns
+const VOL_HORIZONS: { label: string; ms: number; timeframe: Timeframe }[] = [
+  { label: '1H', ms: 60 * 60 * 1000, timeframe: Timeframe.M1 },
+  { label: '24H', ms: 24 * 60 * 60 * 1000, timeframe: Timeframe.M5 },
+  { label: '7D', ms: 7 * 24 * 60 * 60 * 1000, timeframe: Timeframe.H1 },
+  { label: '30D', ms: 30 * 24 * 60 * 60 * 1000, timeframe: Timeframe.H4 }
+];
+
+const formatPercent = (i18n: I18n, v: number | undefined) => (v !== undefined && isFinite(v) ? i18n.formatPercent(v) : '—');
+const formatRatio = (i18n: I18n, v: number | undefined) => (v !== undefined && isFinite(v) ? i18n.formatNumber(v, 2) : '—');
+
+const formatDuration = (i18n: I18n, ms: number) => {
+  const hours = Math.round(ms / (60 * 60 * 1000));
+  return hours >= 24
+    ? i18n.message('durationDaysHours', { days: Math.floor(hours / 24), hours: hours % 24 })
+    : i18n.message('durationHours', { hours });
+};
+
+const MetricRow = ({ label, tip, children }: { label: string; tip: string; children: React.ReactNode }) => (
+  <div className="flex justify-between items-center text-sm">
+    <span className="group relative flex items-center gap-1 text-binance-text cursor-help">
+      {label}
+      <Info className="w-3 h-3 opacity-60" />
+      <span className="pointer-events-none absolute left-0 bottom-full mb-1 w-56 rounded border border-binance-gray bg-binance-black p-2 text-xs text-binance-light shadow-lg opacity-0 group-hover:opacity-100 transition-opacity z-20">
+        {tip}
+      </span>
+    </span>
+    <span className="font-mono">{children}</span>
+  </div>
+);
+
+const RiskCard: React.FC<RiskCardProps> = ({ series, weights, source, i18n }) => {
+  const { t } = i18n;
+  const [btcCandles, setBtcCandles] = useState<CandleData[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load = async () => {
+      const end = Date.now();
+      try {
+        const candles = await fetchKlineRange(source, BTC_PAIR, Timeframe.H1, end - RISK_WINDOW_MS, end);
+        if (!cancelled) setBtcCandles(candles);
+      } catch (error) {
+        console.error("Failed to load BTC klines for beta:", error);
+      }
+    };
+    load();
+    const interval = setInterval(load, BTC_REFRESH_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [source]);
+
+  const volatility = useMemo(() => {
+    const now = Date.now();
+    return VOL_HORIZONS.map(h => {
+      const closes = (series[h.timeframe] ?? [])
+        .filter(c => c.time >= now - h.ms)
+        .map(c => c.close);
+      const returns = periodReturns(closes);
+      return { label: h.label, value: returns.length >= MIN_RETURNS ? annualizedVolatility(returns, TIMEFRAME_MS[h.timeframe]) : NaN };
+    });
+  }, [series]);
+
+  // Drawdown, risk-adjusted returns and beta all run on hourly candles over the risk window
+  const performance = useMemo(() => {
+    const hourly = (series[Timeframe.H1] ?? [])
+      .filter(c => c.time >= Date.now() - RISK_WINDOW_MS);
+    const returns = periodReturns(hourly.map(c => c.close));
+    const enough = returns.length >= MIN_RETURNS;
+
+    const btc = alignCloses(btcCandles, hourly.map(c => c.time));
+    const paired = hourly
+      .map((c, i) => [c.close, btc[i]] as const)
+      .filter((p): p is readonly [number, number] => p[1] !== null);
+    const betas = rollingBeta(periodReturns(paired.map(p => p[0])), periodReturns(paired.map(p => p[1])), BETA_WINDOW);
+
+    return {
+      drawdown: computeDrawdown(hourly),
+      sharpe: enough ? sharpeRatio(returns, TIMEFRAME_MS[Timeframe.H1]) : NaN,
+      sortino: enough ? sortinoRatio(returns, TIMEFRAME_MS[Timeframe.H1]) : NaN,
+      betas: betas.map((value, i) => ({ i, value: isFinite(value) ? value : null }))
+    };
+  }, [series, btcCandles]);
+
+  const concentration = useMemo(() => computeConcentration(weights), [weights]);
+  const { drawdown, betas } = performance;
+  const currentBeta = betas.length > 0 ? betas[betas.length - 1].value ?? NaN : NaN;
+
+  return (
+    <div className="bg-binance-black rounded-xl p-6 border border-binance-gray/20 shadow-xl">
+      <h3 className="font-semibold mb-4 flex items-center gap-2">
+        <ShieldAlert className="w-4 h-4 text-binance-yellow" /> {t.riskAnalytics}
+      </h3>
+
+      <div className="space-y-3">
+        <MetricRow label={t.riskLabels[RiskMetric.REALIZED_VOL]} tip={t.riskTips[RiskMetric.REALIZED_VOL]}>
+          <span></span>
+        </MetricRow>
+        <div className="grid grid-cols-4 gap-1 text-center">
+          {volatility.map(v => (
+            <div key={v.label} className="bg-binance-dark rounded py-1">
+              <div className="text-[10px] text-binance-text">{v.label}</div>
+              <div className="text-xs font-mono">{formatPercent(i18n, v.value)}</div>
+            </div>
+          ))}
+        </div>
+
+        <MetricRow label={t.riskLabels[RiskMetric.MAX_DRAWDOWN]} tip={t.riskTips[RiskMetric.MAX_DRAWDOWN]}>
+          <span className="text-binance-red">{formatPercent(i18n, drawdown?.maxDrawdown)}</span>
+        </MetricRow>
+        <MetricRow label={t.riskLabels[RiskMetric.DRAWDOWN_DURATION]} tip={t.riskTips[RiskMetric.DRAWDOWN_DURATION]}>
+          {drawdown && drawdown.maxDrawdown < 0
+            ? `${formatDuration(i18n, drawdown.durationMs)}${drawdown.recoveredAt === null ? ` (${t.ongoing})` : ''}`
+            : '—'}
+        </MetricRow>
+        <MetricRow label={t.riskLabels[RiskMetric.SHARPE]} tip={t.riskTips[RiskMetric.SHARPE]}>
+          {formatRatio(i18n, performance.sharpe)}
+        </MetricRow>
+        <MetricRow label={t.riskLabels[RiskMetric.SORTINO]} tip={t.riskTips[RiskMetric.SORTINO]}>
+          {formatRatio(i18n, performance.sortino)}
+        </MetricRow>
+        <MetricRow label={t.riskLabels[RiskMetric.BETA]} tip={t.riskTips[RiskMetric.BETA]}>
+          {formatRatio(i18n, currentBeta)}
+        </MetricRow>
+        {betas.length > 1 && (
+          <ResponsiveContainer width="100%" height={40}>
+            <LineChart data={betas} margin={{ top: 2, right: 0, left: 0, bottom: 2 }}>
+              <YAxis hide domain={['auto', 'auto']} />
+              <ReferenceLine y={1} stroke="#474D57" strokeDasharray="3 3" />
+              <Line dataKey="value" stroke="#F0B90B" dot={false} isAnimationActive={false} strokeWidth={1.5} connectNulls />
+            </LineChart>
+          </ResponsiveContainer>
+        )}
+
+        <div className="pt-3 border-t border-binance-gray/20 space-y-3">
+          <MetricRow label={t.riskLabels[RiskMetric.HERFINDAHL]} tip={t.riskTips[RiskMetric.HERFINDAHL]}>
+            {concentration ? i18n.formatNumber(concentration.herfindahl, 4) : '—'}
+          </MetricRow>
+          <MetricRow label={t.riskLabels[RiskMetric.EFFECTIVE_N]} tip={t.riskTips[RiskMetric.EFFECTIVE_N]}>
+            {concentration ? i18n.formatNumber(concentration.effectiveN, 1) : '—'}
+          </MetricRow>
+          <MetricRow label={t.riskLabels[RiskMetric.TOP5_SHARE]} tip={t.riskTips[RiskMetric.TOP5_SHARE]}>
+            {formatPercent(i18n, concentration?.top5Share)}
+          </MetricRow>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RiskCard;
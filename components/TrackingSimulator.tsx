@@ -0,0 +1,194 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid } from 'recharts';
+import { Coin, LotSizeRule, RebalanceRecord, Timeframe, TrackingResult, TrackingSettings } from '../types';
+import { TRACKING_WINDOW_MS } from '../constants';
+import { baseAssetOf, MarketDataSource, TIMEFRAME_MS } from '../services/marketData';
+import { fetchLotSizeRules } from '../services/binanceService';
+import { fetchKlinesByPair } from '../services/backfill';
+import { bucketStart } from '../services/candles';
+import { I18n } from '../services/i18n';
+import { describeHoldings, loadTrackingSettings, saveTrackingSettings, simulateTracking, trackedPairs } from '../services/tracking';
+import { Loader2, Play, Scale } from 'lucide-react';
+
+interface TrackingSimulatorProps {
+  log: RebalanceRecord[];
+  indexName: string;
+  coins: Coin[];
+  source: MarketDataSource;
+  i18n: I18n;
+}
+
+const TIMEFRAME = Timeframe.H1;
+
+const formatPercent = (i18n: I18n, v: number, signed = false) => (isFinite(v) ? i18n.formatPercent(v, signed) : '—');
+const formatQuote = (i18n: I18n, v: number) => i18n.formatNumber(v, 2);
+
+const TrackingTooltip = ({ active, payload, label, i18n }: any) => {
+  if (!active || !payload || !payload.length) return null;
+  return (
+    <div className="bg-binance-black border border-binance-gray p-2 rounded shadow-lg text-xs font-mono z-50">
+      <p className="text-binance-text">{i18n.formatDateTime(label)}</p>
+      {payload.map((p: any) => (
+        <p key={p.dataKey} style={{ color: p.color }}>{p.name}: {formatQuote(i18n, p.value)}</p>
+      ))}
+    </div>
+  );
+};
+
+const inputClass = "bg-binance-dark border border-binance-gray/40 rounded px-2 py-1 text-sm text-binance-light focus:outline-none focus:border-binance-yellow";
+
+const TrackingSimulator: React.FC<TrackingSimulatorProps> = ({ log, indexName, coins, source, i18n }) => {
+  const { t } = i18n;
+  const [settings, setSettings] = useState<TrackingSettings>(loadTrackingSettings);
+  const [result, setResult] = useState<TrackingResult | null>(null);
+  const [status, setStatus] = useState<'idle' | 'running' | 'empty' | 'failed'>('idle');
+  const [rules, setRules] = useState<Record<string, LotSizeRule> | null>(null);
+  // Exchange filters change rarely; fetched on the first run only
+  const rulesRef = useRef<Record<string, LotSizeRule> | null>(null);
+
+  const update = (patch: Partial<TrackingSettings>) => {
+    const next = { ...settings, ...patch };
+    setSettings(next);
+    saveTrackingSettings(next);
+  };
+
+  const isValid = settings.notional > 0 && settings.feeBps >= 0 && settings.slippageBps >= 0;
+
+  const run = async () => {
+    if (!isValid) return;
+    setStatus('running');
+    try {
+      if (!rulesRef.current) {
+        const fetched = await fetchLotSizeRules();
+        rulesRef.current = Object.fromEntries(fetched.map(r => [r.pair, r]));
+        setRules(rulesRef.current);
+      }
+      const end = bucketStart(Date.now(), TIMEFRAME);
+      const start = end - TRACKING_WINDOW_MS;
+      const pairs = trackedPairs(log, start, end);
+      if (pairs.length === 0) {
+        setResult(null);
+        setStatus('empty');
+        return;
+      }
+      const klines = await fetchKlinesByPair(source, pairs, TIMEFRAME, start, end);
+      const times: number[] = [];
+      for (let time = start; time <= end; time += TIMEFRAME_MS[TIMEFRAME]) times.push(time);
+      const simulated = simulateTracking(log, klines, times, TIMEFRAME, settings, rulesRef.current);
+      setResult(simulated);
+      setStatus(simulated ? 'idle' : 'empty');
+    } catch (error) {
+      console.error("Tracking simulation failed:", error);
+      setStatus('failed');
+    }
+  };
+
+  // What the notional buys right now, at live weights and prices
+  const current = useMemo(() => {
+    if (!rules || !(settings.notional > 0)) return null;
+    const weights = Object.fromEntries(coins.map(c => [c.pair, c.weight]));
+    const prices = Object.fromEntries(coins.map(c => [c.pair, c.price]));
+    return describeHoldings(weights, prices, settings.notional, rules);
+  }, [rules, coins, settings.notional]);
+
+  const stats = result ? [
+    { label: t.trackingError, value: formatPercent(i18n, result.trackingError) },
+    { label: t.trackingDifference, value: formatPercent(i18n, result.trackingDifference, true) },
+    { label: t.turnover, value: formatPercent(i18n, result.turnover) },
+    { label: t.costDrag, value: formatPercent(i18n, result.costDrag) },
+    { label: t.totalCosts, value: formatQuote(i18n, result.costs) },
+    { label: t.rebalanceCount, value: String(result.rebalances) }
+  ] : [];
+
+  return (
+    <div className="bg-binance-black rounded-xl border border-binance-gray/20 shadow-xl overflow-hidden">
+      <div className="p-4 border-b border-binance-gray/20 flex flex-wrap gap-3 justify-between items-end">
+        <h3 className="font-semibold text-lg flex items-center gap-2">
+          <Scale className="w-4 h-4 text-binance-yellow" /> {t.trackingSimulator}
+        </h3>
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="flex flex-col gap-1 text-xs text-binance-text">
+            {t.notional}
+            <input type="number" min={0} step="any" value={settings.notional} onChange={(e) => update({ notional: Number(e.target.value) })} className={`${inputClass} w-32`} />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-binance-text">
+            {t.takerFee} ({t.bps})
+            <input type="number" min={0} step="any" value={settings.feeBps} onChange={(e) => update({ feeBps: Number(e.target.value) })} className={`${inputClass} w-20`} />
+          </label>
+          <label className="flex flex-col gap-1 text-xs text-binance-text">
+            {t.slippage} ({t.bps})
+            <input type="number" min={0} step="any" value={settings.slippageBps} onChange={(e) => update({ slippageBps: Number(e.target.value) })} className={`${inputClass} w-20`} />
+          </label>
+          <button
+            onClick={run}
+            disabled={!isValid || status === 'running'}
+            className="flex items-center gap-1 px-3 py-1.5 rounded text-xs font-semibold bg-binance-yellow text-black disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            {status === 'running' ? <Loader2 className="w-3 h-3 animate-spin" /> : <Play className="w-3 h-3" />}
+            {status === 'running' ? t.simulating : t.runSimulation}
+          </button>
+        </div>
+      </div>
+
+      {status === 'empty' && <div className="p-4 text-sm text-binance-text">{t.needsRebalanceHistory}</div>}
+      {status === 'failed' && <div className="p-4 text-sm text-binance-red">{t.simulationFailed}</div>}
+
+      {result && (
+        <div className="p-4 space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-2 text-center">
+            {stats.map(s => (
+              <div key={s.label} className="bg-binance-dark rounded py-2">
+                <div className="text-[10px] text-binance-text uppercase">{s.label}</div>
+                <div className="text-sm font-mono">{s.value}</div>
+              </div>
+            ))}
+          </div>
+          <ResponsiveContainer width="100%" height={220}>
+            <LineChart data={result.points} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+              <CartesianGrid stroke="#2B3139" strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="time" tickFormatter={(time: number) => i18n.formatDate(time)} stroke="#848E9C" fontSize={11} minTickGap={40} />
+              <YAxis domain={['auto', 'auto']} orientation="right" stroke="#848E9C" fontSize={11}
+                tickFormatter={(val) => formatQuote(i18n, val)} axisLine={false} tickLine={false} width={70} />
+              <Tooltip content={<TrackingTooltip i18n={i18n} />} cursor={{ stroke: '#848E9C', strokeDasharray: '3 3' }} />
+              <Line dataKey="index" name={indexName} stroke="#F0B90B" dot={false} isAnimationActive={false} strokeWidth={2} />
+              <Line dataKey="portfolio" name={t.portfolio} stroke="#14B8A6" dot={false} isAnimationActive={false} strokeWidth={1.5} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      {current && (
+        <div className="border-t border-binance-gray/20">
+          <div className="px-4 py-2 flex justify-between items-center bg-binance-dark text-xs text-binance-text">
+            <span>{t.lotSizeTip}</span>
+            <span>{t.cashResidual}: <span className="font-mono text-binance-light">{formatQuote(i18n, current.cash)}</span></span>
+          </div>
+          <div className="max-h-64 overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead className="text-xs text-binance-text sticky top-0 bg-binance-black">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium">{t.symbol}</th>
+                  <th className="px-4 py-2 text-right font-medium">{t.targetWeight}</th>
+                  <th className="px-4 py-2 text-right font-medium">{t.quantity}</th>
+                  <th className="px-4 py-2 text-right font-medium">{t.actualWeight}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-binance-gray/10 font-mono">
+                {current.holdings.map(h => (
+                  <tr key={h.pair} className={h.quantity === 0 ? 'opacity-50' : ''}>
+                    <td className="px-4 py-1.5 font-sans">{baseAssetOf(h.pair)}</td>
+                    <td className="px-4 py-1.5 text-right">{formatPercent(i18n, h.targetWeight)}</td>
+                    <td className="px-4 py-1.5 text-right">{h.quantity === 0 ? <span className="font-sans text-xs text-binance-red">{t.belowMinimum}</span> : h.quantity.toLocaleString(i18n.locale, { maximumFractionDigits: 8 })}</td>
+                    <td className="px-4 py-1.5 text-right">{formatPercent(i18n, h.actualWeight)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TrackingSimulator;
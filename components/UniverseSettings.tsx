@@ -0,0 +1,111 @@
+import React, { useEffect, useState } from 'react';
+import { ConstituentCount, UniverseRules } from '../types';
+import { CONSTITUENT_COUNTS, QUOTE_ASSETS } from '../constants';
+import { I18n } from '../services/i18n';
+import { SlidersHorizontal } from 'lucide-react';
+
+interface UniverseSettingsProps {
+  rules: UniverseRules;
+  i18n: I18n;
+  disabled?: boolean;
+  onApply: (rules: UniverseRules) => void;
+}
+
+// Default buffer around the cut-off when the constituent count changes (45/60 for 50)
+const ENTRY_RATIO = 0.9;
+const EXIT_RATIO = 1.2;
+
+const inputClass = "w-24 bg-binance-dark border border-binance-gray/40 rounded px-2 py-1 text-xs text-binance-light text-right focus:outline-none focus:border-binance-yellow";
+
+const Field = ({ label, children }: { label: string; children: React.ReactNode }) => (
+  <label className="flex items-center justify-between gap-3 text-sm">
+    <span className="text-binance-text">{label}</span>
+    {children}
+  </label>
+);
+
+const UniverseSettings: React.FC<UniverseSettingsProps> = ({ rules, i18n, disabled, onApply }) => {
+  const { t } = i18n;
+  // Edits stay local until applied, since applying triggers a rebalance
+  const [draft, setDraft] = useState<UniverseRules>(rules);
+  useEffect(() => setDraft(rules), [rules]);
+
+  const update = (patch: Partial<UniverseRules>) => setDraft(prev => ({ ...prev, ...patch }));
+
+  const changeCount = (count: ConstituentCount) => update({
+    constituentCount: count,
+    entryRank: Math.round(count * ENTRY_RATIO),
+    exitRank: Math.round(count * EXIT_RATIO)
+  });
+
+  // The basket is filled from the buffer, so the cut-off has to sit inside it
+  const bufferFitsCount = draft.entryRank <= draft.constituentCount && draft.constituentCount <= draft.exitRank;
+  const isValid = draft.entryRank >= 1 && bufferFitsCount && draft.minVolume24h >= 0 && draft.minListingAgeDays >= 0;
+  const isDirty = JSON.stringify(draft) !== JSON.stringify(rules);
+
+  return (
+    <div className="bg-binance-black rounded-xl border border-binance-gray/20 shadow-xl overflow-hidden">
+      <div className="p-4 border-b border-binance-gray/20 flex justify-between items-center">
+        <h3 className="font-semibold text-lg flex items-center gap-2">
+          <SlidersHorizontal className="w-4 h-4 text-binance-yellow" /> {t.universeRules}
+        </h3>
+        <button
+          onClick={() => onApply(draft)}
+          disabled={disabled || !isValid || !isDirty}
+          className="px-3 py-1 rounded text-xs font-semibold bg-binance-yellow text-black disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {t.applyAndRebalance}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-x-8 gap-y-3 p-4">
+        <Field label={t.quoteAsset}>
+          <select value={draft.quoteAsset} onChange={(e) => update({ quoteAsset: e.target.value })} className={inputClass}>
+            {QUOTE_ASSETS.map(q => <option key={q} value={q}>{q}</option>)}
+          </select>
+        </Field>
+        <Field label={t.constituentCount}>
+          <select value={draft.constituentCount} onChange={(e) => changeCount(Number(e.target.value) as ConstituentCount)} className={inputClass}>
+            {CONSTITUENT_COUNTS.map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </Field>
+        <Field label={t.minVolume}>
+          <input type="number" min={0} step={100000} value={draft.minVolume24h}
+            onChange={(e) => update({ minVolume24h: Number(e.target.value) })} className={inputClass} />
+        </Field>
+        <Field label={t.minListingAge}>
+          <input type="number" min={0} value={draft.minListingAgeDays}
+            onChange={(e) => update({ minListingAgeDays: Number(e.target.value) })} className={inputClass} />
+        </Field>
+        <Field label={t.entryRank}>
+          <input type="number" min={1} value={draft.entryRank}
+            onChange={(e) => update({ entryRank: Number(e.target.value) })} className={inputClass} />
+        </Field>
+        <Field label={t.exitRank}>
+          <input type="number" min={1} value={draft.exitRank}
+            onChange={(e) => update({ exitRank: Number(e.target.value) })} className={inputClass} />
+        </Field>
+        <div className="md:col-span-3 flex flex-wrap gap-4 text-sm">
+          {([
+            ['excludeStablecoins', t.excludeStablecoins],
+            ['excludeLeveraged', t.excludeLeveraged],
+            ['excludeWrapped', t.excludeWrapped]
+          ] as const).map(([key, label]) => (
+            <label key={key} className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={draft[key]} onChange={(e) => update({ [key]: e.target.checked })}
+                className="accent-binance-yellow" />
+              <span className="text-binance-text">{label}</span>
+            </label>
+          ))}
+        </div>
+        {!isValid && (
+          <div className="md:col-span-3 text-xs text-binance-red">
+            {bufferFitsCount ? t.invalidBuffer : i18n.message('invalidRankBuffer', { count: draft.constituentCount })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UniverseSettings;
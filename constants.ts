@@ -1,39 +1,151 @@
-import { Lang, Translation } from './types';
+import { ConstituentColumn, FundSettings, IndicatorSettings, Lang, Sector, Timeframe, TrackingSettings, Translation, UniverseRules } from './types';
+import { EN } from './locales/en';
+import { ZH_TW } from './locales/zhTW';
+import { ZH_CN } from './locales/zhCN';
+import { JA } from './locales/ja';
+import { KO } from './locales/ko';
 
-export const BASE_DATE_TIMESTAMP = new Date('2025-02-05T12:00:00').getTime();
+export const BASE_DATE_TIMESTAMP = Date.UTC(2025, 1, 5, 12); // 2025-02-05 12:00 UTC, the same instant in every time zone
 export const BASE_INDEX_VALUE = 1000; // Starting value of ETF on Base Date
+export const INDEX_NOTIONAL = 1_000_000; // Basket market value (USDT) right after each rebalance
+export const COMPOSITION_STORAGE_KEY = 'crypto50.composition';
+export const WEIGHTING_STORAGE_KEY = 'crypto50.weighting';
+export const DATA_SOURCE_STORAGE_KEY = 'crypto50.dataSource';
+export const REBALANCE_LOG_STORAGE_KEY = 'crypto50.rebalances'; // Legacy, migrated to IndexedDB
+export const REBALANCE_PERIOD_MS = 24 * 60 * 60 * 1000;
+export const REBALANCE_OFFSET_MS = 16 * 60 * 60 * 1000; // 00:00 UTC+8 is 16:00 UTC
+export const BACKFILL_WINDOW_MS = 24 * 60 * 60 * 1000; // History fetched from klines on load
+export const MAX_CANDLES = 7 * 24 * 60; // 1m base candles kept in memory (7 days)
+export const MAX_CHART_CANDLES = 1440; // Most candles drawn at once, whatever the timeframe
+export const TIMEFRAME_STORAGE_KEY = 'crypto50.timeframe';
+export const CANDLE_FLUSH_INTERVAL_MS = 15000; // How often live candles are written to IndexedDB
+export const TICK_INTERVAL_MS = 1000; // Index recalculation cadence in the worker
+export const SNAPSHOT_THROTTLE_MS = 250; // Minimum gap between snapshots posted to the UI
+
+// Data quality guard
+export const STALE_AFTER_MS = 2 * 60 * 1000;   // No accepted tick for this long: stale
+export const HALTED_AFTER_MS = 15 * 60 * 1000; // ...and for this long: treated as halted
+export const OUTLIER_WINDOW = 21;              // Accepted prices in each pair's rolling median
+export const OUTLIER_MIN_SAMPLES = 5;          // No filtering until the median means something
+export const OUTLIER_THRESHOLD = 0.1;          // Max deviation from the median (10%)
+export const OUTLIER_CONFIRMATIONS = 3;        // Consistent rejected prints that establish a new level
+export const DEGRADED_STALE_WEIGHT = 0.2;      // Index flagged degraded above this stale weight
+
+// How long stored index candles are kept, per timeframe
+export const CANDLE_RETENTION_MS: Record<Timeframe, number> = {
+  [Timeframe.M1]: 7 * 24 * 60 * 60 * 1000,
+  [Timeframe.M5]: 30 * 24 * 60 * 60 * 1000,
+  [Timeframe.M15]: 60 * 24 * 60 * 60 * 1000,
+  [Timeframe.H1]: 365 * 24 * 60 * 60 * 1000,
+  [Timeframe.H4]: 2 * 365 * 24 * 60 * 60 * 1000,
+  [Timeframe.D1]: Infinity
+};
+export const INDICATOR_STORAGE_KEY = 'crypto50.indicators';
+export const DEFAULT_INDICATORS: IndicatorSettings = {
+  sma: { enabled: false, period: 20 },
+  ema: { enabled: false, period: 50 },
+  bollinger: { enabled: false, period: 20, multiplier: 2 },
+  vwap: { enabled: false },
+  rsi: { enabled: false, period: 14 },
+  macd: { enabled: false, fast: 12, slow: 26, signal: 9 }
+};
+// Per-constituent price snapshots kept for windowed attribution (1H needs a little slack)
+export const PRICE_SNAPSHOT_INTERVAL_MS = 60 * 1000;
+export const PRICE_HISTORY_MS = 65 * 60 * 1000;
+
+export const WEIGHT_CAP = 0.1; // Max weight per constituent for capped weighting
+
+export const UNIVERSE_STORAGE_KEY = 'crypto50.universe';
+export const LISTING_DATE_STORAGE_KEY = 'crypto50.listingDates';
+export const QUOTE_ASSETS = ['USDT', 'USDC', 'FDUSD'];
+export const CONSTITUENT_COUNTS = [10, 20, 50, 100] as const;
+
+// Risk analytics. Crypto convention: no risk-free rate, returns measured against zero.
+export const RISK_FREE_RATE = 0;
+export const RISK_WINDOW_MS = 30 * 24 * 60 * 60 * 1000; // Drawdown, Sharpe/Sortino and beta look-back
+export const BETA_WINDOW = 7 * 24; // Hourly returns per rolling beta estimate
+
+export const CUSTOM_INDEX_STORAGE_KEY = 'crypto50.customIndices';
+export const ACTIVE_INDEX_STORAGE_KEY = 'crypto50.activeIndex';
+export const CUSTOM_LOG_LIMIT = 365; // Rebalance records kept per custom index
+export const CUSTOM_LEVEL_POLL_MS = 15000; // Refresh of the levels listed for indices not on screen
+export const ALERT_RULES_STORAGE_KEY = 'crypto50.alertRules';
+export const ALERT_LOG_STORAGE_KEY = 'crypto50.alertLog';
+export const ALERT_LOG_LIMIT = 200; // Fired alerts kept in the in-app log
+export const TRACKING_STORAGE_KEY = 'crypto50.tracking';
+export const TRACKING_WINDOW_MS = 30 * 24 * 60 * 60 * 1000; // Look-back of the tracking simulation (hourly steps)
+export const DEFAULT_TRACKING_SETTINGS: TrackingSettings = { notional: 10000, feeBps: 10, slippageBps: 5 };
+export const FUND_STORAGE_KEY = 'crypto50.fund';
+export const FUND_INCEPTION_TIMESTAMP = BASE_DATE_TIMESTAMP; // Shares issued at the index level on the base date
+export const DEFAULT_FUND_SETTINGS: FundSettings = { managementFeePct: 0.95, bandBps: 50, premiumVolBps: 20 };
+export const PREMIUM_PERSISTENCE = 0.7; // Share of yesterday's premium that carries over
+export const NAV_HISTORY_DAYS = 90;
+export const CONSTITUENT_COLUMNS_STORAGE_KEY = 'crypto50.constituentColumns';
+export const DEFAULT_CONSTITUENT_COLUMNS: ConstituentColumn[] = Object.values(ConstituentColumn);
+export const CONSTITUENT_ROW_HEIGHT = 48;    // px, fixed so the table can be virtualized
+export const CONSTITUENT_VISIBLE_ROWS = 12;  // Rows in view before the table scrolls
+export const CONSTITUENT_OVERSCAN = 6;       // Extra rows rendered above and below the viewport
+export const PRICE_FLASH_MS = 800;
+export const FACTSHEET_TOP_HOLDINGS = 10;
+export const FACTSHEET_MIN_DAYS = 10; // Daily returns needed before volatility and Sharpe are shown
+
+// Sector of well-known base assets; anything not listed counts as OTHER
+export const SECTOR_BY_ASSET: Record<string, Sector> = {
+  BTC: Sector.LAYER_1, ETH: Sector.LAYER_1, SOL: Sector.LAYER_1, ADA: Sector.LAYER_1, AVAX: Sector.LAYER_1,
+  DOT: Sector.LAYER_1, TRX: Sector.LAYER_1, NEAR: Sector.LAYER_1, SUI: Sector.LAYER_1, APT: Sector.LAYER_1,
+  ATOM: Sector.LAYER_1, TON: Sector.LAYER_1, ICP: Sector.LAYER_1, SEI: Sector.LAYER_1, HBAR: Sector.LAYER_1,
+  ALGO: Sector.LAYER_1, ETC: Sector.LAYER_1, TIA: Sector.LAYER_1, INJ: Sector.LAYER_1, EGLD: Sector.LAYER_1,
+  KAS: Sector.LAYER_1, S: Sector.LAYER_1, BERA: Sector.LAYER_1,
+  ARB: Sector.LAYER_2, OP: Sector.LAYER_2, POL: Sector.LAYER_2, MATIC: Sector.LAYER_2, STRK: Sector.LAYER_2,
+  IMX: Sector.LAYER_2, ZK: Sector.LAYER_2, MNT: Sector.LAYER_2,
+  UNI: Sector.DEFI, AAVE: Sector.DEFI, MKR: Sector.DEFI, CRV: Sector.DEFI, LDO: Sector.DEFI, PENDLE: Sector.DEFI,
+  JUP: Sector.DEFI, ENA: Sector.DEFI, COMP: Sector.DEFI, SNX: Sector.DEFI, RUNE: Sector.DEFI, CAKE: Sector.DEFI,
+  RAY: Sector.DEFI, ONDO: Sector.DEFI, ETHFI: Sector.DEFI,
+  BNB: Sector.EXCHANGE, OKB: Sector.EXCHANGE, CRO: Sector.EXCHANGE,
+  XRP: Sector.PAYMENTS, LTC: Sector.PAYMENTS, BCH: Sector.PAYMENTS, XLM: Sector.PAYMENTS, XMR: Sector.PAYMENTS,
+  LINK: Sector.INFRASTRUCTURE, FIL: Sector.INFRASTRUCTURE, AR: Sector.INFRASTRUCTURE, GRT: Sector.INFRASTRUCTURE,
+  PYTH: Sector.INFRASTRUCTURE, STX: Sector.INFRASTRUCTURE, ENS: Sector.INFRASTRUCTURE, W: Sector.INFRASTRUCTURE,
+  FET: Sector.AI, RENDER: Sector.AI, TAO: Sector.AI, WLD: Sector.AI, VIRTUAL: Sector.AI,
+  AXS: Sector.GAMING, SAND: Sector.GAMING, MANA: Sector.GAMING, GALA: Sector.GAMING, APE: Sector.GAMING,
+  DOGE: Sector.MEME, SHIB: Sector.MEME, PEPE: Sector.MEME, WIF: Sector.MEME, BONK: Sector.MEME, FLOKI: Sector.MEME,
+  TRUMP: Sector.MEME, PENGU: Sector.MEME, BOME: Sector.MEME
+};
+export const DEFAULT_UNIVERSE_RULES: UniverseRules = {
+  quoteAsset: 'USDT',
+  excludeStablecoins: true,
+  excludeLeveraged: true,
+  excludeWrapped: true,
+  minListingAgeDays: 30,
+  minVolume24h: 1_000_000,
+  constituentCount: 50,
+  entryRank: 45,
+  exitRank: 60
+};
+
+export const LANG_STORAGE_KEY = 'crypto50.lang';
+
+// Number and date formatting locale per UI language
+export const LOCALES: Record<Lang, string> = {
+  [Lang.EN]: 'en-US',
+  [Lang.TW]: 'zh-TW',
+  [Lang.CN]: 'zh-CN',
+  [Lang.JA]: 'ja-JP',
+  [Lang.KO]: 'ko-KR'
+};
+
+// Shown in the language picker, each in its own language
+export const LANGUAGE_NAMES: Record<Lang, string> = {
+  [Lang.EN]: 'English',
+  [Lang.TW]: '繁體中文',
+  [Lang.CN]: '简体中文',
+  [Lang.JA]: '日本語',
+  [Lang.KO]: '한국어'
+};
 
 export const TRANSLATIONS: Record<Lang, Translation> = {
-  [Lang.EN]: {
-    title: "Crypto50 ETF Index",
-    subtitle: "Top 50 Volume Weighted Index",
-    price: "Index Price",
-    change: "24h Change",
-    high: "24h High",
-    low: "24h Low",
-    volume: "24h Vol (USDT)",
-    composition: "Index Constituents (Top 50)",
-    symbol: "Symbol",
-    weight: "Weight",
-    lastPrice: "Price",
-    connectStatus: "System Status",
-    rebalanceInfo: "Daily Rebalance: 00:00 UTC+8",
-    chart: "Real-time Chart"
-  },
-  [Lang.TW]: {
-    title: "加密貨幣50大 ETF 指數",
-    subtitle: "幣安交易量前50大加權指數",
-    price: "指數價格",
-    change: "24h 漲跌",
-    high: "24h 最高",
-    low: "24h 最低",
-    volume: "24h 成交量 (USDT)",
-    composition: "成分股權重 (前50大)",
-    symbol: "幣種",
-    weight: "權重",
-    lastPrice: "最新價",
-    connectStatus: "系統狀態",
-    rebalanceInfo: "每日調倉: 00:00 UTC+8",
-    chart: "即時K線"
-  }
+  [Lang.EN]: EN,
+  [Lang.TW]: ZH_TW,
+  [Lang.CN]: ZH_CN,
+  [Lang.JA]: JA,
+  [Lang.KO]: KO
 };
\ No newline at end of file
@@ -0,0 +1,308 @@
+import { AlertDirection, AlertKind, AttributionWindow, ConnectionState, ConstituentFilter, DataHealth, DataSourceId, FactsheetPeriod, FundFlow, RebalanceTrigger, RiskMetric, Sector, Translation, WeightingMethod } from '../types';
+
+// English. Source strings; the other locales follow its keys and wording.
+export const EN: Translation = {
+  title: "Crypto50 ETF Index",
+  subtitle: {
+    [WeightingMethod.VOLUME]: "Top {count} Volume Weighted Index",
+    [WeightingMethod.CAPPED_VOLUME]: "Top {count} Capped Volume Weighted Index ({cap} cap)",
+    [WeightingMethod.EQUAL]: "Top {count} Equal Weighted Index",
+    [WeightingMethod.SQRT_VOLUME]: "Top {count} Square-root Volume Weighted Index"
+  },
+  weighting: "Weighting",
+  weightingMethods: {
+    [WeightingMethod.VOLUME]: "Volume",
+    [WeightingMethod.CAPPED_VOLUME]: "Capped Volume",
+    [WeightingMethod.EQUAL]: "Equal Weight",
+    [WeightingMethod.SQRT_VOLUME]: "√ Volume"
+  },
+  price: "Index Price",
+  change: "24h Change",
+  high: "24h High",
+  low: "24h Low",
+  volume: "24h Vol (USDT)",
+  composition: "Index Constituents",
+  constituentTotal: { one: "{count} constituent", other: "{count} constituents" },
+  symbol: "Symbol",
+  weight: "Weight",
+  lastPrice: "Price",
+  connectStatus: "System Status",
+  rebalanceInfo: "Daily Rebalance: {time}",
+  nextRebalanceIn: "Next in",
+  chart: "Real-time Chart",
+  rebalanceHistory: "Rebalance History",
+  compareFrom: "From",
+  compareTo: "To",
+  entrants: "Added",
+  leavers: "Removed",
+  weightChanges: "Weight Changes",
+  noRebalances: "Not enough rebalances to compare yet.",
+  divisor: "Divisor",
+  rebalanceTriggers: {
+    [RebalanceTrigger.INITIAL]: "Initial",
+    [RebalanceTrigger.SCHEDULED]: "Scheduled",
+    [RebalanceTrigger.METHODOLOGY]: "Methodology change"
+  },
+  dataSource: "Data Source",
+  dataSources: {
+    [DataSourceId.BINANCE]: "Binance",
+    [DataSourceId.OKX]: "OKX",
+    [DataSourceId.BYBIT]: "Bybit",
+    [DataSourceId.COMPOSITE]: "Composite (Median)"
+  },
+  connectionStates: {
+    [ConnectionState.IDLE]: "Idle",
+    [ConnectionState.CONNECTING]: "Connecting...",
+    [ConnectionState.OPEN]: "Online",
+    [ConnectionState.STALE]: "Stale",
+    [ConnectionState.RECONNECTING]: "Reconnecting...",
+    [ConnectionState.CLOSED]: "Offline"
+  },
+  lastMessage: { one: "last msg {count} sec ago", other: "last msg {count} secs ago" },
+  chartInterval: "({timeframe} interval)",
+  record: "Record",
+  stopRecording: "Stop & Save",
+  loadReplay: "Replay File",
+  replayLoadFailed: "Could not load recording",
+  replay: "REPLAY",
+  play: "Play",
+  pause: "Pause",
+  exitReplay: "Back to live",
+  attribution: "Performance Attribution",
+  attributionWindows: {
+    [AttributionWindow.SINCE_OPEN]: "Since Open",
+    [AttributionWindow.ONE_HOUR]: "1H",
+    [AttributionWindow.SINCE_REBALANCE]: "Since Rebalance"
+  },
+  contribution: "Contribution (pp)",
+  heatmap: "Heatmap (size = weight, color = return)",
+  weightShort: "W: {value}",
+  returnShort: "R: {value}",
+  percentagePoints: "{value} pp",
+  noData: "No data yet.",
+  notEnoughHistory: "Not enough history for this window yet.",
+  todayContribution: "Contribution Today",
+  orderBook: "Order Book",
+  bestBid: "Best Bid",
+  bestAsk: "Best Ask",
+  spread: "Spread",
+  depthUnavailable: "Depth is not streamed by this data source.",
+  weightHistory: "Weight History",
+  universeRules: "Universe Rules",
+  applyAndRebalance: "Apply & Rebalance",
+  quoteAsset: "Quote Asset",
+  constituentCount: "Constituents",
+  minVolume: "Min 24h Volume",
+  minListingAge: "Min Listing Age (days)",
+  entryRank: "Entry Rank",
+  exitRank: "Exit Rank",
+  excludeStablecoins: "Exclude stablecoins",
+  excludeLeveraged: "Exclude leveraged tokens",
+  excludeWrapped: "Exclude wrapped assets",
+  invalidBuffer: "Exit rank must be at or below entry rank, and minimums cannot be negative.",
+  invalidRankBuffer: "Entry rank must be at most {count} and exit rank at least {count}, the number of constituents.",
+  customIndices: "My Indices",
+  mainIndex: "Crypto50",
+  newIndex: "New",
+  indexName: "Name",
+  symbols: "Symbols",
+  baseValue: "Base Value",
+  baseDate: "Base Date",
+  save: "Save",
+  cancel: "Cancel",
+  edit: "Edit",
+  view: "Show on dashboard",
+  deleteIndex: "Delete",
+  confirmDelete: "Delete",
+  importIndices: "Import",
+  exportIndices: "Export",
+  importFailed: "Could not import indices",
+  rebalanceFailed: "Rebalance failed",
+  unpricedPairs: "No prices for {pairs}; left out of the basket.",
+  noCustomIndices: "No custom indices yet. Create one from any set of symbols.",
+  candles: "Candles",
+  compare: "Compare",
+  rebasedAt: "Rebased to 100 at",
+  resetRebase: "Reset",
+  clickToRebase: "click the chart to rebase",
+  relativeStrength: "Relative Strength",
+  series: "Series",
+  return: "Return",
+  volatility: "Volatility (ann.)",
+  riskAnalytics: "Risk Analytics",
+  riskLabels: {
+    [RiskMetric.REALIZED_VOL]: "Realized Volatility",
+    [RiskMetric.MAX_DRAWDOWN]: "Max Drawdown (30D)",
+    [RiskMetric.DRAWDOWN_DURATION]: "Drawdown Duration",
+    [RiskMetric.SHARPE]: "Sharpe Ratio",
+    [RiskMetric.SORTINO]: "Sortino Ratio",
+    [RiskMetric.BETA]: "Beta to BTC (7D)",
+    [RiskMetric.HERFINDAHL]: "Herfindahl Index",
+    [RiskMetric.EFFECTIVE_N]: "Effective Constituents",
+    [RiskMetric.TOP5_SHARE]: "Top 5 Weight"
+  },
+  riskTips: {
+    [RiskMetric.REALIZED_VOL]: "Annualized standard deviation of index returns over each horizon.",
+    [RiskMetric.MAX_DRAWDOWN]: "Largest peak-to-trough fall of the index over the last 30 days, on hourly closes.",
+    [RiskMetric.DRAWDOWN_DURATION]: "Time from the peak before the max drawdown until the index regained that peak.",
+    [RiskMetric.SHARPE]: "Annualized mean excess return divided by volatility, on hourly returns over 30 days.",
+    [RiskMetric.SORTINO]: "Like Sharpe, but divides by downside deviation so only losses count as risk.",
+    [RiskMetric.BETA]: "Sensitivity of hourly index returns to BTC over a rolling 7-day window. 1 moves with BTC.",
+    [RiskMetric.HERFINDAHL]: "Sum of squared weights. Ranges from 1/N (equal weights) to 1 (a single coin).",
+    [RiskMetric.EFFECTIVE_N]: "1 / Herfindahl: the number of equal-weighted coins with the same concentration.",
+    [RiskMetric.TOP5_SHARE]: "Combined weight of the five largest constituents at current prices."
+  },
+  ongoing: "ongoing",
+  durationHours: "{hours}h",
+  durationDaysHours: "{days}d {hours}h",
+  alerts: "Alerts",
+  newAlert: "New Alert",
+  alertKinds: {
+    [AlertKind.INDEX_LEVEL]: "Index level",
+    [AlertKind.INDEX_CHANGE]: "Index change (%)",
+    [AlertKind.CONSTITUENT_PRICE]: "Constituent price",
+    [AlertKind.CONSTITUENT_WEIGHT]: "Constituent weight (%)"
+  },
+  alertDirections: {
+    [AlertDirection.ABOVE]: "rises above",
+    [AlertDirection.BELOW]: "falls below"
+  },
+  threshold: "Threshold",
+  alertWindow: "Window",
+  cooldown: "Cooldown",
+  hysteresis: "Hysteresis",
+  minutes: "min",
+  constituent: "Constituent",
+  alertLog: "Alert Log",
+  clearLog: "Clear",
+  noAlertRules: "No alert rules yet.",
+  noAlertEvents: "No alerts have fired.",
+  enableNotifications: "Enable notifications",
+  notificationsBlocked: "Notifications blocked by the browser",
+  notificationsUnsupported: "Notifications not supported",
+  alertTriggered: "Alert triggered",
+  dataHealth: {
+    [DataHealth.OK]: "Live",
+    [DataHealth.OUTLIER]: "Outlier",
+    [DataHealth.STALE]: "Stale",
+    [DataHealth.HALTED]: "Halted"
+  },
+  dataHealthTips: {
+    [DataHealth.OK]: "Price is updating normally.",
+    [DataHealth.OUTLIER]: "The latest print was rejected as an outlier; the last good price is used.",
+    [DataHealth.STALE]: "No valid update for over 2 minutes; the last good price is carried.",
+    [DataHealth.HALTED]: "No valid update for over 15 minutes; the pair may be halted or delisted."
+  },
+  degraded: "Degraded",
+  staleWeight: "Stale weight",
+  exportData: "Export",
+  exportComposition: "Export composition",
+  exportFailed: "Export failed",
+  time: "Time",
+  open: "Open",
+  candleHigh: "High",
+  candleLow: "Low",
+  close: "Close",
+  quantity: "Quantity",
+  referencePrice: "Reference Price",
+  trackingSimulator: "Tracking Portfolio",
+  notional: "Notional",
+  takerFee: "Taker Fee",
+  slippage: "Slippage",
+  bps: "bps",
+  runSimulation: "Run Simulation",
+  simulating: "Simulating...",
+  simulationFailed: "Simulation failed",
+  needsRebalanceHistory: "No basket in the rebalance history covers the simulation window yet.",
+  trackingError: "Tracking Error",
+  trackingDifference: "Tracking Difference",
+  turnover: "Turnover",
+  costDrag: "Cost Drag",
+  totalCosts: "Total Costs",
+  rebalanceCount: "Rebalances",
+  portfolio: "Portfolio",
+  targetWeight: "Target Weight",
+  actualWeight: "Actual Weight",
+  cashResidual: "Uninvested Cash",
+  belowMinimum: "Below exchange minimum",
+  lotSizeTip: "Quantities are rounded down to Binance LOT_SIZE steps; lines under the minimum order size are skipped.",
+  fund: "ETF Fund",
+  nav: "NAV",
+  marketPrice: "Market Price",
+  premiumDiscount: "Premium / Discount",
+  managementFee: "Mgmt Fee (% p.a.)",
+  feesAccrued: "Fees Accrued",
+  creationBand: "Creation/Redemption Band",
+  premiumVolatility: "Premium Volatility",
+  navHistory: "Daily NAV",
+  date: "Date",
+  language: "Language",
+  updated: "Updated",
+  waitingForData: "Waiting for market data...",
+  footerCopyright: "Crypto50 ETF © {year}. Market data: {source}.",
+  footerBaseDate: "Base Date: {date}",
+  ohlcShort: { open: "O", high: "H", low: "L", close: "C" },
+  fundFlows: {
+    [FundFlow.NONE]: "—",
+    [FundFlow.CREATION]: "Creation",
+    [FundFlow.REDEMPTION]: "Redemption"
+  },
+  searchSymbols: "Search symbol",
+  columns: "Columns",
+  rankChange: "Rank Δ",
+  lastHour: "1h",
+  newEntrant: "New",
+  noMatches: "No constituents match.",
+  constituentFilters: {
+    [ConstituentFilter.ALL]: "All",
+    [ConstituentFilter.GAINERS]: "Gainers",
+    [ConstituentFilter.LOSERS]: "Losers"
+  },
+  methodology: "Methodology & Factsheet",
+  print: "Print",
+  keyFacts: "Key Facts",
+  factsheetIntro: "{name} is a rules-based index of the most traded spot crypto pairs quoted in {quote}, calculated in real time from {source} prices.",
+  factsheetIntroCustom: "{name} tracks a fixed basket of {count} user-selected pairs, calculated in real time from {source} prices.",
+  universeMethod: "Eligible pairs are ranked by 24h quote volume. A pair joins the index when it ranks {entry} or better and stays while it ranks {exit} or better; the {count} highest-ranked eligible pairs form the basket.",
+  weightingDescriptions: {
+    [WeightingMethod.VOLUME]: "Each constituent is weighted by its 24h quote volume.",
+    [WeightingMethod.CAPPED_VOLUME]: "Weighted by 24h quote volume, with no constituent above {cap}. The excess is redistributed pro rata to the uncapped constituents.",
+    [WeightingMethod.EQUAL]: "Every constituent receives the same weight.",
+    [WeightingMethod.SQRT_VOLUME]: "Weighted by the square root of 24h quote volume, which tilts the basket away from the largest pairs."
+  },
+  indexCalculation: "Index Calculation",
+  calculationMethod: "The level is the basket's market value divided by a divisor: Level = Σ(quantity × price) / divisor. Quantities are fixed between rebalances. At each rebalance they are reset to the target weights and the divisor is adjusted so the level is continuous.",
+  rebalanceSchedule: "Rebalanced daily at {time}: the universe is screened again and weights are reset to target. Changing the weighting scheme triggers an extra rebalance.",
+  lastRebalance: "Last Rebalance",
+  topHoldings: "Top Holdings",
+  sectorBreakdown: "Sector Breakdown",
+  sector: "Sector",
+  sectors: {
+    [Sector.LAYER_1]: "Layer 1",
+    [Sector.LAYER_2]: "Layer 2",
+    [Sector.DEFI]: "DeFi",
+    [Sector.EXCHANGE]: "Exchange Token",
+    [Sector.PAYMENTS]: "Payments",
+    [Sector.INFRASTRUCTURE]: "Infrastructure",
+    [Sector.AI]: "AI",
+    [Sector.GAMING]: "Gaming",
+    [Sector.MEME]: "Meme",
+    [Sector.OTHER]: "Other"
+  },
+  performanceStats: "Historical Performance",
+  factsheetPeriods: {
+    [FactsheetPeriod.ONE_WEEK]: "1W",
+    [FactsheetPeriod.ONE_MONTH]: "1M",
+    [FactsheetPeriod.THREE_MONTHS]: "3M",
+    [FactsheetPeriod.YTD]: "YTD",
+    [FactsheetPeriod.ONE_YEAR]: "1Y",
+    [FactsheetPeriod.INCEPTION]: "Since Base Date"
+  },
+  maxDrawdown: "Max Drawdown",
+  bestDay: "Best Day",
+  worstDay: "Worst Day",
+  historySince: "Statistics use daily closes since {date}.",
+  generatedAt: "Generated {time} from the configuration in use. Simulated index; past performance is not indicative of future results.",
+  yes: "Yes",
+  no: "No"
+};
@@ -0,0 +1,308 @@
+import { AlertDirection, AlertKind, AttributionWindow, ConnectionState, ConstituentFilter, DataHealth, DataSourceId, FactsheetPeriod, FundFlow, RebalanceTrigger, RiskMetric, Sector, Translation, WeightingMethod } from '../types';
+
+// Japanese
+export const JA: Translation = {
+  title: "Crypto50 ETF 指数",
+  subtitle: {
+    [WeightingMethod.VOLUME]: "出来高上位{count}銘柄 出来高加重指数",
+    [WeightingMethod.CAPPED_VOLUME]: "出来高上位{count}銘柄 キャップ付き出来高加重指数 (上限{cap})",
+    [WeightingMethod.EQUAL]: "出来高上位{count}銘柄 均等加重指数",
+    [WeightingMethod.SQRT_VOLUME]: "出来高上位{count}銘柄 平方根出来高加重指数"
+  },
+  weighting: "加重方式",
+  weightingMethods: {
+    [WeightingMethod.VOLUME]: "出来高",
+    [WeightingMethod.CAPPED_VOLUME]: "キャップ付き出来高",
+    [WeightingMethod.EQUAL]: "均等加重",
+    [WeightingMethod.SQRT_VOLUME]: "√ 出来高"
+  },
+  price: "指数価格",
+  change: "24時間変動",
+  high: "24時間高値",
+  low: "24時間安値",
+  volume: "24時間出来高 (USDT)",
+  composition: "構成銘柄",
+  constituentTotal: { other: "{count} 銘柄" },
+  symbol: "銘柄",
+  weight: "ウェイト",
+  lastPrice: "価格",
+  connectStatus: "システム状態",
+  rebalanceInfo: "毎日リバランス: {time}",
+  nextRebalanceIn: "次回まで",
+  chart: "リアルタイムチャート",
+  rebalanceHistory: "リバランス履歴",
+  compareFrom: "比較元",
+  compareTo: "比較先",
+  entrants: "採用",
+  leavers: "除外",
+  weightChanges: "ウェイト変更",
+  noRebalances: "比較できるリバランスがまだありません。",
+  divisor: "除数",
+  rebalanceTriggers: {
+    [RebalanceTrigger.INITIAL]: "初回構築",
+    [RebalanceTrigger.SCHEDULED]: "定期",
+    [RebalanceTrigger.METHODOLOGY]: "算出方法の変更"
+  },
+  dataSource: "データソース",
+  dataSources: {
+    [DataSourceId.BINANCE]: "Binance",
+    [DataSourceId.OKX]: "OKX",
+    [DataSourceId.BYBIT]: "Bybit",
+    [DataSourceId.COMPOSITE]: "複合 (中央値)"
+  },
+  connectionStates: {
+    [ConnectionState.IDLE]: "待機中",
+    [ConnectionState.CONNECTING]: "接続中...",
+    [ConnectionState.OPEN]: "オンライン",
+    [ConnectionState.STALE]: "更新停止",
+    [ConnectionState.RECONNECTING]: "再接続中...",
+    [ConnectionState.CLOSED]: "オフライン"
+  },
+  lastMessage: { other: "最終受信 {count} 秒前" },
+  chartInterval: "({timeframe} 足)",
+  record: "録画",
+  stopRecording: "停止して保存",
+  loadReplay: "リプレイファイル",
+  replayLoadFailed: "録画を読み込めませんでした",
+  replay: "リプレイ",
+  play: "再生",
+  pause: "一時停止",
+  exitReplay: "ライブに戻る",
+  attribution: "パフォーマンス寄与",
+  attributionWindows: {
+    [AttributionWindow.SINCE_OPEN]: "始値から",
+    [AttributionWindow.ONE_HOUR]: "1時間",
+    [AttributionWindow.SINCE_REBALANCE]: "リバランス以降"
+  },
+  contribution: "寄与度 (pp)",
+  heatmap: "ヒートマップ (面積 = ウェイト, 色 = リターン)",
+  weightShort: "ウェイト: {value}",
+  returnShort: "リターン: {value}",
+  percentagePoints: "{value} pp",
+  noData: "データがまだありません。",
+  notEnoughHistory: "この期間を計算できるだけの履歴がまだありません。",
+  todayContribution: "本日の寄与度",
+  orderBook: "板情報",
+  bestBid: "最良買気配",
+  bestAsk: "最良売気配",
+  spread: "スプレッド",
+  depthUnavailable: "このデータソースは板情報を配信していません。",
+  weightHistory: "ウェイト推移",
+  universeRules: "ユニバース条件",
+  applyAndRebalance: "適用してリバランス",
+  quoteAsset: "決済通貨",
+  constituentCount: "構成銘柄数",
+  minVolume: "最低24時間出来高",
+  minListingAge: "最低上場日数",
+  entryRank: "採用順位",
+  exitRank: "除外順位",
+  excludeStablecoins: "ステーブルコインを除外",
+  excludeLeveraged: "レバレッジトークンを除外",
+  excludeWrapped: "ラップド資産を除外",
+  invalidBuffer: "除外順位は採用順位以下にはできません。また、最低値に負の数は指定できません。",
+  invalidRankBuffer: "採用順位は{count}以下、除外順位は{count}以上（構成銘柄数）にしてください。",
+  customIndices: "マイ指数",
+  mainIndex: "Crypto50",
+  newIndex: "新規",
+  indexName: "名前",
+  symbols: "銘柄",
+  baseValue: "基準値",
+  baseDate: "基準日",
+  save: "保存",
+  cancel: "キャンセル",
+  edit: "編集",
+  view: "ダッシュボードに表示",
+  deleteIndex: "削除",
+  confirmDelete: "削除する",
+  importIndices: "インポート",
+  exportIndices: "エクスポート",
+  importFailed: "指数をインポートできませんでした",
+  rebalanceFailed: "リバランスに失敗しました",
+  unpricedPairs: "{pairs} の価格を取得できないため、バスケットから除外しました。",
+  noCustomIndices: "カスタム指数はまだありません。任意の銘柄の組み合わせから作成できます。",
+  candles: "ローソク足",
+  compare: "比較",
+  rebasedAt: "100 に基準化した時点",
+  resetRebase: "リセット",
+  clickToRebase: "チャートをクリックして基準化",
+  relativeStrength: "相対力",
+  series: "系列",
+  return: "リターン",
+  volatility: "ボラティリティ (年率)",
+  riskAnalytics: "リスク分析",
+  riskLabels: {
+    [RiskMetric.REALIZED_VOL]: "実現ボラティリティ",
+    [RiskMetric.MAX_DRAWDOWN]: "最大ドローダウン (30日)",
+    [RiskMetric.DRAWDOWN_DURATION]: "ドローダウン期間",
+    [RiskMetric.SHARPE]: "シャープレシオ",
+    [RiskMetric.SORTINO]: "ソルティノレシオ",
+    [RiskMetric.BETA]: "対BTCベータ (7日)",
+    [RiskMetric.HERFINDAHL]: "ハーフィンダール指数",
+    [RiskMetric.EFFECTIVE_N]: "実効銘柄数",
+    [RiskMetric.TOP5_SHARE]: "上位5銘柄ウェイト"
+  },
+  riskTips: {
+    [RiskMetric.REALIZED_VOL]: "各期間における指数リターンの年率換算標準偏差。",
+    [RiskMetric.MAX_DRAWDOWN]: "過去30日間の指数の高値から安値までの最大下落率 (1時間足終値ベース)。",
+    [RiskMetric.DRAWDOWN_DURATION]: "最大ドローダウン前の高値から、指数がその高値を回復するまでの時間。",
+    [RiskMetric.SHARPE]: "年率平均超過リターンをボラティリティで割った値 (30日間の1時間リターン)。",
+    [RiskMetric.SORTINO]: "シャープレシオと同様ですが、下方偏差で割るため損失のみをリスクとみなします。",
+    [RiskMetric.BETA]: "7日間のローリング期間における、指数の1時間リターンのBTCに対する感応度。1はBTCと同じ動き。",
+    [RiskMetric.HERFINDAHL]: "ウェイトの二乗和。1/N (均等加重) から 1 (単一銘柄) の範囲。",
+    [RiskMetric.EFFECTIVE_N]: "1 / ハーフィンダール指数：同じ集中度を持つ均等加重の銘柄数。",
+    [RiskMetric.TOP5_SHARE]: "現在価格での上位5構成銘柄の合計ウェイト。"
+  },
+  ongoing: "継続中",
+  durationHours: "{hours}時間",
+  durationDaysHours: "{days}日{hours}時間",
+  alerts: "アラート",
+  newAlert: "新規アラート",
+  alertKinds: {
+    [AlertKind.INDEX_LEVEL]: "指数水準",
+    [AlertKind.INDEX_CHANGE]: "指数変動率 (%)",
+    [AlertKind.CONSTITUENT_PRICE]: "構成銘柄の価格",
+    [AlertKind.CONSTITUENT_WEIGHT]: "構成銘柄のウェイト (%)"
+  },
+  alertDirections: {
+    [AlertDirection.ABOVE]: "を上回る",
+    [AlertDirection.BELOW]: "を下回る"
+  },
+  threshold: "しきい値",
+  alertWindow: "期間",
+  cooldown: "クールダウン",
+  hysteresis: "ヒステリシス",
+  minutes: "分",
+  constituent: "構成銘柄",
+  alertLog: "アラート履歴",
+  clearLog: "クリア",
+  noAlertRules: "アラートルールはまだありません。",
+  noAlertEvents: "発生したアラートはありません。",
+  enableNotifications: "通知を有効にする",
+  notificationsBlocked: "通知はブラウザでブロックされています",
+  notificationsUnsupported: "通知に対応していません",
+  alertTriggered: "アラート発生",
+  dataHealth: {
+    [DataHealth.OK]: "正常",
+    [DataHealth.OUTLIER]: "異常値",
+    [DataHealth.STALE]: "遅延",
+    [DataHealth.HALTED]: "停止"
+  },
+  dataHealthTips: {
+    [DataHealth.OK]: "価格は正常に更新されています。",
+    [DataHealth.OUTLIER]: "最新の約定は異常値として除外され、直前の有効価格を使用しています。",
+    [DataHealth.STALE]: "2分以上有効な更新がありません。直前の有効価格を使用しています。",
+    [DataHealth.HALTED]: "15分以上有効な更新がありません。取引停止または上場廃止の可能性があります。"
+  },
+  degraded: "品質低下",
+  staleWeight: "遅延ウェイト",
+  exportData: "エクスポート",
+  exportComposition: "構成をエクスポート",
+  exportFailed: "エクスポートに失敗しました",
+  time: "時刻",
+  open: "始値",
+  candleHigh: "高値",
+  candleLow: "安値",
+  close: "終値",
+  quantity: "数量",
+  referencePrice: "基準価格",
+  trackingSimulator: "トラッキングポートフォリオ",
+  notional: "投資額",
+  takerFee: "テイカー手数料",
+  slippage: "スリッページ",
+  bps: "bps",
+  runSimulation: "シミュレーション実行",
+  simulating: "シミュレーション中...",
+  simulationFailed: "シミュレーションに失敗しました",
+  needsRebalanceHistory: "シミュレーション期間をカバーする構成がリバランス履歴にまだありません。",
+  trackingError: "トラッキングエラー",
+  trackingDifference: "トラッキングディファレンス",
+  turnover: "売買回転率",
+  costDrag: "コスト負担",
+  totalCosts: "総コスト",
+  rebalanceCount: "リバランス回数",
+  portfolio: "ポートフォリオ",
+  targetWeight: "目標ウェイト",
+  actualWeight: "実際のウェイト",
+  cashResidual: "未投資現金",
+  belowMinimum: "取引所の最低額未満",
+  lotSizeTip: "数量は Binance の LOT_SIZE 単位に切り捨てられ、最低注文額に満たない銘柄は除外されます。",
+  fund: "ETF ファンド",
+  nav: "基準価額",
+  marketPrice: "市場価格",
+  premiumDiscount: "プレミアム / ディスカウント",
+  managementFee: "信託報酬 (年率 %)",
+  feesAccrued: "累計報酬",
+  creationBand: "設定/解約バンド",
+  premiumVolatility: "プレミアム変動",
+  navHistory: "日次基準価額",
+  date: "日付",
+  language: "言語",
+  updated: "更新",
+  waitingForData: "市場データを待っています...",
+  footerCopyright: "Crypto50 ETF © {year}。市場データ：{source}。",
+  footerBaseDate: "基準日：{date}",
+  ohlcShort: { open: "始", high: "高", low: "安", close: "終" },
+  fundFlows: {
+    [FundFlow.NONE]: "—",
+    [FundFlow.CREATION]: "設定",
+    [FundFlow.REDEMPTION]: "解約"
+  },
+  searchSymbols: "銘柄を検索",
+  columns: "表示列",
+  rankChange: "順位変動",
+  lastHour: "1時間",
+  newEntrant: "新規",
+  noMatches: "該当する構成銘柄はありません。",
+  constituentFilters: {
+    [ConstituentFilter.ALL]: "すべて",
+    [ConstituentFilter.GAINERS]: "値上がり",
+    [ConstituentFilter.LOSERS]: "値下がり"
+  },
+  methodology: "算出方法・ファクトシート",
+  print: "印刷",
+  keyFacts: "基本情報",
+  factsheetIntro: "{name} は、{quote} 建てで最も取引の多い暗号資産現物ペアで構成されるルールベースの指数で、{source} の価格からリアルタイムに算出されます。",
+  factsheetIntroCustom: "{name} は、ユーザーが選んだ {count} ペアの固定バスケットに連動し、{source} の価格からリアルタイムに算出されます。",
+  universeMethod: "適格ペアは24時間売買代金で順位付けされます。{entry} 位以内で採用され、{exit} 位以内である限り継続採用されます。上位 {count} ペアがバスケットを構成します。",
+  weightingDescriptions: {
+    [WeightingMethod.VOLUME]: "各構成銘柄を24時間売買代金で加重します。",
+    [WeightingMethod.CAPPED_VOLUME]: "24時間売買代金で加重し、1銘柄の上限を {cap} とします。超過分は上限に達していない銘柄に比例配分されます。",
+    [WeightingMethod.EQUAL]: "すべての構成銘柄に同じウェイトを付けます。",
+    [WeightingMethod.SQRT_VOLUME]: "24時間売買代金の平方根で加重し、最大級のペアへの偏りを抑えます。"
+  },
+  indexCalculation: "指数の算出",
+  calculationMethod: "指数値はバスケットの時価総額を除数で割った値です：指数値 = Σ(数量 × 価格) / 除数。リバランス間は数量を固定し、リバランス時に目標ウェイトへ数量を再設定したうえで、指数値が連続するよう除数を調整します。",
+  rebalanceSchedule: "毎日 {time} にリバランスし、ユニバースを再選定してウェイトを目標値に戻します。加重方式を変更した場合も臨時リバランスを行います。",
+  lastRebalance: "前回リバランス",
+  topHoldings: "組入上位銘柄",
+  sectorBreakdown: "セクター構成",
+  sector: "セクター",
+  sectors: {
+    [Sector.LAYER_1]: "レイヤー1",
+    [Sector.LAYER_2]: "レイヤー2",
+    [Sector.DEFI]: "DeFi",
+    [Sector.EXCHANGE]: "取引所トークン",
+    [Sector.PAYMENTS]: "決済",
+    [Sector.INFRASTRUCTURE]: "インフラ",
+    [Sector.AI]: "AI",
+    [Sector.GAMING]: "ゲーム",
+    [Sector.MEME]: "ミーム",
+    [Sector.OTHER]: "その他"
+  },
+  performanceStats: "過去のパフォーマンス",
+  factsheetPeriods: {
+    [FactsheetPeriod.ONE_WEEK]: "1週間",
+    [FactsheetPeriod.ONE_MONTH]: "1ヶ月",
+    [FactsheetPeriod.THREE_MONTHS]: "3ヶ月",
+    [FactsheetPeriod.YTD]: "年初来",
+    [FactsheetPeriod.ONE_YEAR]: "1年",
+    [FactsheetPeriod.INCEPTION]: "基準日来"
+  },
+  maxDrawdown: "最大ドローダウン",
+  bestDay: "最高の日",
+  worstDay: "最悪の日",
+  historySince: "統計は {date} 以降の日次終値に基づきます。",
+  generatedAt: "{time} に現在の設定から作成。シミュレーション指数であり、過去の実績は将来の成果を保証するものではありません。",
+  yes: "はい",
+  no: "いいえ"
+};
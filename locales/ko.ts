@@ -0,0 +1,308 @@
+import { AlertDirection, AlertKind, AttributionWindow, ConnectionState, ConstituentFilter, DataHealth, DataSourceId, FactsheetPeriod, FundFlow, RebalanceTrigger, RiskMetric, Sector, Translation, WeightingMethod } from '../types';
+
+// Korean
+export const KO: Translation = {
+  title: "Crypto50 ETF 지수",
+  subtitle: {
+    [WeightingMethod.VOLUME]: "거래량 상위 {count}개 거래량 가중 지수",
+    [WeightingMethod.CAPPED_VOLUME]: "거래량 상위 {count}개 상한 거래량 가중 지수 (상한 {cap})",
+    [WeightingMethod.EQUAL]: "거래량 상위 {count}개 동일 가중 지수",
+    [WeightingMethod.SQRT_VOLUME]: "거래량 상위 {count}개 제곱근 거래량 가중 지수"
+  },
+  weighting: "가중 방식",
+  weightingMethods: {
+    [WeightingMethod.VOLUME]: "거래량",
+    [WeightingMethod.CAPPED_VOLUME]: "상한 거래량",
+    [WeightingMethod.EQUAL]: "동일 가중",
+    [WeightingMethod.SQRT_VOLUME]: "√ 거래량"
+  },
+  price: "지수 가격",
+  change: "24시간 변동",
+  high: "24시간 최고",
+  low: "24시간 최저",
+  volume: "24시간 거래량 (USDT)",
+  composition: "지수 구성 종목",
+  constituentTotal: { other: "{count}개 종목" },
+  symbol: "종목",
+  weight: "비중",
+  lastPrice: "가격",
+  connectStatus: "시스템 상태",
+  rebalanceInfo: "일일 리밸런싱: {time}",
+  nextRebalanceIn: "다음까지",
+  chart: "실시간 차트",
+  rebalanceHistory: "리밸런싱 내역",
+  compareFrom: "비교 기준",
+  compareTo: "비교 대상",
+  entrants: "편입",
+  leavers: "편출",
+  weightChanges: "비중 변경",
+  noRebalances: "비교할 리밸런싱 내역이 아직 부족합니다.",
+  divisor: "제수",
+  rebalanceTriggers: {
+    [RebalanceTrigger.INITIAL]: "최초 구성",
+    [RebalanceTrigger.SCHEDULED]: "정기",
+    [RebalanceTrigger.METHODOLOGY]: "방법론 변경"
+  },
+  dataSource: "데이터 소스",
+  dataSources: {
+    [DataSourceId.BINANCE]: "바이낸스",
+    [DataSourceId.OKX]: "OKX",
+    [DataSourceId.BYBIT]: "Bybit",
+    [DataSourceId.COMPOSITE]: "종합 (중앙값)"
+  },
+  connectionStates: {
+    [ConnectionState.IDLE]: "대기",
+    [ConnectionState.CONNECTING]: "연결 중...",
+    [ConnectionState.OPEN]: "온라인",
+    [ConnectionState.STALE]: "업데이트 지연",
+    [ConnectionState.RECONNECTING]: "재연결 중...",
+    [ConnectionState.CLOSED]: "오프라인"
+  },
+  lastMessage: { other: "마지막 메시지 {count}초 전" },
+  chartInterval: "({timeframe} 간격)",
+  record: "녹화",
+  stopRecording: "중지 및 저장",
+  loadReplay: "리플레이 파일",
+  replayLoadFailed: "녹화를 불러올 수 없습니다",
+  replay: "리플레이",
+  play: "재생",
+  pause: "일시정지",
+  exitReplay: "실시간으로 돌아가기",
+  attribution: "성과 기여도",
+  attributionWindows: {
+    [AttributionWindow.SINCE_OPEN]: "시가 이후",
+    [AttributionWindow.ONE_HOUR]: "1시간",
+    [AttributionWindow.SINCE_REBALANCE]: "리밸런싱 이후"
+  },
+  contribution: "기여도 (%p)",
+  heatmap: "히트맵 (크기 = 비중, 색상 = 수익률)",
+  weightShort: "비중: {value}",
+  returnShort: "수익률: {value}",
+  percentagePoints: "{value}%p",
+  noData: "아직 데이터가 없습니다.",
+  notEnoughHistory: "이 기간을 계산할 기록이 아직 부족합니다.",
+  todayContribution: "오늘 기여도",
+  orderBook: "호가창",
+  bestBid: "최우선 매수호가",
+  bestAsk: "최우선 매도호가",
+  spread: "스프레드",
+  depthUnavailable: "이 데이터 소스는 호가 정보를 제공하지 않습니다.",
+  weightHistory: "비중 추이",
+  universeRules: "유니버스 규칙",
+  applyAndRebalance: "적용 후 리밸런싱",
+  quoteAsset: "기준 통화",
+  constituentCount: "구성 종목 수",
+  minVolume: "최소 24시간 거래량",
+  minListingAge: "최소 상장 기간 (일)",
+  entryRank: "편입 순위",
+  exitRank: "편출 순위",
+  excludeStablecoins: "스테이블코인 제외",
+  excludeLeveraged: "레버리지 토큰 제외",
+  excludeWrapped: "래핑 자산 제외",
+  invalidBuffer: "편출 순위는 편입 순위보다 같거나 낮아야 하며, 최소값은 음수일 수 없습니다.",
+  invalidRankBuffer: "편입 순위는 {count} 이하, 편출 순위는 {count} 이상(구성 종목 수)이어야 합니다.",
+  customIndices: "내 지수",
+  mainIndex: "Crypto50",
+  newIndex: "새로 만들기",
+  indexName: "이름",
+  symbols: "종목",
+  baseValue: "기준값",
+  baseDate: "기준일",
+  save: "저장",
+  cancel: "취소",
+  edit: "편집",
+  view: "대시보드에 표시",
+  deleteIndex: "삭제",
+  confirmDelete: "삭제 확인",
+  importIndices: "가져오기",
+  exportIndices: "내보내기",
+  importFailed: "지수를 가져올 수 없습니다",
+  rebalanceFailed: "리밸런싱 실패",
+  unpricedPairs: "{pairs}의 가격이 없어 바스켓에서 제외했습니다.",
+  noCustomIndices: "아직 사용자 지수가 없습니다. 원하는 종목 조합으로 만들어 보세요.",
+  candles: "캔들",
+  compare: "비교",
+  rebasedAt: "100으로 재기준화한 시점",
+  resetRebase: "초기화",
+  clickToRebase: "차트를 클릭해 재기준화",
+  relativeStrength: "상대 강도",
+  series: "시리즈",
+  return: "수익률",
+  volatility: "변동성 (연율)",
+  riskAnalytics: "리스크 분석",
+  riskLabels: {
+    [RiskMetric.REALIZED_VOL]: "실현 변동성",
+    [RiskMetric.MAX_DRAWDOWN]: "최대 낙폭 (30일)",
+    [RiskMetric.DRAWDOWN_DURATION]: "낙폭 지속 기간",
+    [RiskMetric.SHARPE]: "샤프 지수",
+    [RiskMetric.SORTINO]: "소르티노 지수",
+    [RiskMetric.BETA]: "BTC 대비 베타 (7일)",
+    [RiskMetric.HERFINDAHL]: "허핀달 지수",
+    [RiskMetric.EFFECTIVE_N]: "유효 종목 수",
+    [RiskMetric.TOP5_SHARE]: "상위 5개 비중"
+  },
+  riskTips: {
+    [RiskMetric.REALIZED_VOL]: "각 기간 동안 지수 수익률의 연율화 표준편차입니다.",
+    [RiskMetric.MAX_DRAWDOWN]: "최근 30일간 지수의 고점 대비 최대 하락률입니다 (1시간 종가 기준).",
+    [RiskMetric.DRAWDOWN_DURATION]: "최대 낙폭 직전 고점부터 지수가 그 고점을 회복할 때까지의 시간입니다.",
+    [RiskMetric.SHARPE]: "연율화 평균 초과수익을 변동성으로 나눈 값입니다 (30일간 1시간 수익률).",
+    [RiskMetric.SORTINO]: "샤프 지수와 비슷하지만 하방 편차로 나누어 손실만 위험으로 봅니다.",
+    [RiskMetric.BETA]: "7일 롤링 구간에서 지수 1시간 수익률의 BTC 민감도입니다. 1은 BTC와 같이 움직임을 뜻합니다.",
+    [RiskMetric.HERFINDAHL]: "비중 제곱의 합. 1/N (동일 가중)부터 1 (단일 종목)까지입니다.",
+    [RiskMetric.EFFECTIVE_N]: "1 / 허핀달 지수: 같은 집중도를 갖는 동일 가중 종목 수입니다.",
+    [RiskMetric.TOP5_SHARE]: "현재 가격 기준 상위 5개 구성 종목의 합산 비중입니다."
+  },
+  ongoing: "진행 중",
+  durationHours: "{hours}시간",
+  durationDaysHours: "{days}일 {hours}시간",
+  alerts: "알림",
+  newAlert: "새 알림",
+  alertKinds: {
+    [AlertKind.INDEX_LEVEL]: "지수 수준",
+    [AlertKind.INDEX_CHANGE]: "지수 변동률 (%)",
+    [AlertKind.CONSTITUENT_PRICE]: "구성 종목 가격",
+    [AlertKind.CONSTITUENT_WEIGHT]: "구성 종목 비중 (%)"
+  },
+  alertDirections: {
+    [AlertDirection.ABOVE]: "이상으로 상승",
+    [AlertDirection.BELOW]: "이하로 하락"
+  },
+  threshold: "임계값",
+  alertWindow: "기간",
+  cooldown: "쿨다운",
+  hysteresis: "히스테리시스",
+  minutes: "분",
+  constituent: "구성 종목",
+  alertLog: "알림 기록",
+  clearLog: "지우기",
+  noAlertRules: "알림 규칙이 아직 없습니다.",
+  noAlertEvents: "발생한 알림이 없습니다.",
+  enableNotifications: "알림 허용",
+  notificationsBlocked: "브라우저에서 알림이 차단되었습니다",
+  notificationsUnsupported: "알림을 지원하지 않습니다",
+  alertTriggered: "알림 발생",
+  dataHealth: {
+    [DataHealth.OK]: "정상",
+    [DataHealth.OUTLIER]: "이상치",
+    [DataHealth.STALE]: "지연",
+    [DataHealth.HALTED]: "중단"
+  },
+  dataHealthTips: {
+    [DataHealth.OK]: "가격이 정상적으로 업데이트되고 있습니다.",
+    [DataHealth.OUTLIER]: "최신 체결가가 이상치로 제외되어 마지막 유효 가격을 사용합니다.",
+    [DataHealth.STALE]: "2분 넘게 유효한 업데이트가 없어 마지막 유효 가격을 유지합니다.",
+    [DataHealth.HALTED]: "15분 넘게 유효한 업데이트가 없습니다. 거래 중단 또는 상장 폐지되었을 수 있습니다."
+  },
+  degraded: "품질 저하",
+  staleWeight: "지연 비중",
+  exportData: "내보내기",
+  exportComposition: "구성 내보내기",
+  exportFailed: "내보내기 실패",
+  time: "시간",
+  open: "시가",
+  candleHigh: "고가",
+  candleLow: "저가",
+  close: "종가",
+  quantity: "수량",
+  referencePrice: "기준 가격",
+  trackingSimulator: "추적 포트폴리오",
+  notional: "투자 금액",
+  takerFee: "테이커 수수료",
+  slippage: "슬리피지",
+  bps: "bp",
+  runSimulation: "시뮬레이션 실행",
+  simulating: "시뮬레이션 중...",
+  simulationFailed: "시뮬레이션 실패",
+  needsRebalanceHistory: "리밸런싱 내역에 시뮬레이션 기간을 포함하는 구성이 아직 없습니다.",
+  trackingError: "추적 오차",
+  trackingDifference: "추적 차이",
+  turnover: "회전율",
+  costDrag: "비용 부담",
+  totalCosts: "총비용",
+  rebalanceCount: "리밸런싱 횟수",
+  portfolio: "포트폴리오",
+  targetWeight: "목표 비중",
+  actualWeight: "실제 비중",
+  cashResidual: "미투자 현금",
+  belowMinimum: "거래소 최소 금액 미만",
+  lotSizeTip: "수량은 바이낸스 LOT_SIZE 단위로 내림 처리되며, 최소 주문 금액에 못 미치는 종목은 제외됩니다.",
+  fund: "ETF 펀드",
+  nav: "순자산가치",
+  marketPrice: "시장 가격",
+  premiumDiscount: "프리미엄 / 디스카운트",
+  managementFee: "운용보수 (연 %)",
+  feesAccrued: "누적 보수",
+  creationBand: "설정/환매 밴드",
+  premiumVolatility: "프리미엄 변동성",
+  navHistory: "일별 순자산가치",
+  date: "날짜",
+  language: "언어",
+  updated: "업데이트",
+  waitingForData: "시장 데이터를 기다리는 중...",
+  footerCopyright: "Crypto50 ETF © {year}. 시장 데이터: {source}.",
+  footerBaseDate: "기준일: {date}",
+  ohlcShort: { open: "시", high: "고", low: "저", close: "종" },
+  fundFlows: {
+    [FundFlow.NONE]: "—",
+    [FundFlow.CREATION]: "설정",
+    [FundFlow.REDEMPTION]: "환매"
+  },
+  searchSymbols: "종목 검색",
+  columns: "열",
+  rankChange: "순위 변동",
+  lastHour: "1시간",
+  newEntrant: "신규",
+  noMatches: "일치하는 구성 종목이 없습니다.",
+  constituentFilters: {
+    [ConstituentFilter.ALL]: "전체",
+    [ConstituentFilter.GAINERS]: "상승",
+    [ConstituentFilter.LOSERS]: "하락"
+  },
+  methodology: "산출 방법 및 팩트시트",
+  print: "인쇄",
+  keyFacts: "주요 정보",
+  factsheetIntro: "{name}는 {quote} 기준으로 가장 활발히 거래되는 암호화폐 현물 페어로 구성된 규칙 기반 지수이며, {source} 가격으로 실시간 산출됩니다.",
+  factsheetIntroCustom: "{name}는 사용자가 선택한 {count}개 페어의 고정 바스켓을 추종하며, {source} 가격으로 실시간 산출됩니다.",
+  universeMethod: "적격 페어는 24시간 거래대금으로 순위를 매깁니다. {entry}위 이내에 들면 편입되고 {exit}위 이내를 유지하는 동안 잔류하며, 상위 {count}개 페어가 바스켓을 구성합니다.",
+  weightingDescriptions: {
+    [WeightingMethod.VOLUME]: "각 구성 종목을 24시간 거래대금으로 가중합니다.",
+    [WeightingMethod.CAPPED_VOLUME]: "24시간 거래대금으로 가중하되 종목당 상한은 {cap}입니다. 초과분은 상한 미만 종목에 비례 배분됩니다.",
+    [WeightingMethod.EQUAL]: "모든 구성 종목에 같은 비중을 부여합니다.",
+    [WeightingMethod.SQRT_VOLUME]: "24시간 거래대금의 제곱근으로 가중해 최대 페어의 쏠림을 줄입니다."
+  },
+  indexCalculation: "지수 산출",
+  calculationMethod: "지수 수준은 바스켓 시가총액을 제수로 나눈 값입니다: 지수 = Σ(수량 × 가격) / 제수. 리밸런싱 사이에는 수량이 고정되며, 리밸런싱 시 목표 비중으로 수량을 재설정하고 지수가 연속되도록 제수를 조정합니다.",
+  rebalanceSchedule: "매일 {time}에 리밸런싱하며 유니버스를 다시 선별하고 비중을 목표치로 재설정합니다. 가중 방식을 바꾸면 추가 리밸런싱이 실행됩니다.",
+  lastRebalance: "최근 리밸런싱",
+  topHoldings: "상위 보유 종목",
+  sectorBreakdown: "섹터 구성",
+  sector: "섹터",
+  sectors: {
+    [Sector.LAYER_1]: "레이어 1",
+    [Sector.LAYER_2]: "레이어 2",
+    [Sector.DEFI]: "디파이",
+    [Sector.EXCHANGE]: "거래소 토큰",
+    [Sector.PAYMENTS]: "결제",
+    [Sector.INFRASTRUCTURE]: "인프라",
+    [Sector.AI]: "AI",
+    [Sector.GAMING]: "게임",
+    [Sector.MEME]: "밈",
+    [Sector.OTHER]: "기타"
+  },
+  performanceStats: "과거 성과",
+  factsheetPeriods: {
+    [FactsheetPeriod.ONE_WEEK]: "1주",
+    [FactsheetPeriod.ONE_MONTH]: "1개월",
+    [FactsheetPeriod.THREE_MONTHS]: "3개월",
+    [FactsheetPeriod.YTD]: "연초 이후",
+    [FactsheetPeriod.ONE_YEAR]: "1년",
+    [FactsheetPeriod.INCEPTION]: "기준일 이후"
+  },
+  maxDrawdown: "최대 낙폭",
+  bestDay: "최고의 날",
+  worstDay: "최악의 날",
+  historySince: "통계는 {date} 이후 일별 종가를 사용합니다.",
+  generatedAt: "{time}에 현재 설정으로 생성되었습니다. 모의 지수이며 과거 성과가 미래 수익을 보장하지 않습니다.",
+  yes: "예",
+  no: "아니요"
+};
@@ -0,0 +1,308 @@
+import { AlertDirection, AlertKind, AttributionWindow, ConnectionState, ConstituentFilter, DataHealth, DataSourceId, FactsheetPeriod, FundFlow, RebalanceTrigger, RiskMetric, Sector, Translation, WeightingMethod } from '../types';
+
+// Simplified Chinese (Mainland)
+export const ZH_CN: Translation = {
+  title: "加密货币50强 ETF 指数",
+  subtitle: {
+    [WeightingMethod.VOLUME]: "币安交易量前{count}大加权指数",
+    [WeightingMethod.CAPPED_VOLUME]: "币安交易量前{count}大上限加权指数 (单一上限{cap})",
+    [WeightingMethod.EQUAL]: "币安交易量前{count}大等权重指数",
+    [WeightingMethod.SQRT_VOLUME]: "币安交易量前{count}大平方根加权指数"
+  },
+  weighting: "加权方式",
+  weightingMethods: {
+    [WeightingMethod.VOLUME]: "交易量",
+    [WeightingMethod.CAPPED_VOLUME]: "上限交易量",
+    [WeightingMethod.EQUAL]: "等权重",
+    [WeightingMethod.SQRT_VOLUME]: "√ 交易量"
+  },
+  price: "指数价格",
+  change: "24h 涨跌",
+  high: "24h 最高",
+  low: "24h 最低",
+  volume: "24h 成交量 (USDT)",
+  composition: "成分权重",
+  constituentTotal: { other: "共 {count} 个" },
+  symbol: "币种",
+  weight: "权重",
+  lastPrice: "最新价",
+  connectStatus: "系统状态",
+  rebalanceInfo: "每日调仓: {time}",
+  nextRebalanceIn: "距下次",
+  chart: "实时K线",
+  rebalanceHistory: "调仓记录",
+  compareFrom: "从",
+  compareTo: "至",
+  entrants: "纳入",
+  leavers: "剔除",
+  weightChanges: "权重变动",
+  noRebalances: "调仓记录不足，暂无法比较。",
+  divisor: "除数",
+  rebalanceTriggers: {
+    [RebalanceTrigger.INITIAL]: "初始建仓",
+    [RebalanceTrigger.SCHEDULED]: "定期调仓",
+    [RebalanceTrigger.METHODOLOGY]: "变更加权方式"
+  },
+  dataSource: "数据来源",
+  dataSources: {
+    [DataSourceId.BINANCE]: "币安",
+    [DataSourceId.OKX]: "OKX",
+    [DataSourceId.BYBIT]: "Bybit",
+    [DataSourceId.COMPOSITE]: "综合 (中位数)"
+  },
+  connectionStates: {
+    [ConnectionState.IDLE]: "待机",
+    [ConnectionState.CONNECTING]: "连接中...",
+    [ConnectionState.OPEN]: "在线",
+    [ConnectionState.STALE]: "数据停滞",
+    [ConnectionState.RECONNECTING]: "重新连接中...",
+    [ConnectionState.CLOSED]: "离线"
+  },
+  lastMessage: { other: "最后消息 {count} 秒前" },
+  chartInterval: "({timeframe} 周期)",
+  record: "录制",
+  stopRecording: "停止并保存",
+  loadReplay: "加载回放",
+  replayLoadFailed: "无法加载录制文件",
+  replay: "回放",
+  play: "播放",
+  pause: "暂停",
+  exitReplay: "返回实时",
+  attribution: "业绩归因",
+  attributionWindows: {
+    [AttributionWindow.SINCE_OPEN]: "自开盘",
+    [AttributionWindow.ONE_HOUR]: "1小时",
+    [AttributionWindow.SINCE_REBALANCE]: "自上次调仓"
+  },
+  contribution: "贡献度 (百分点)",
+  heatmap: "热力图 (面积 = 权重, 颜色 = 收益)",
+  weightShort: "权重: {value}",
+  returnShort: "收益: {value}",
+  percentagePoints: "{value} 个百分点",
+  noData: "暂无数据。",
+  notEnoughHistory: "历史数据尚不足以覆盖此区间。",
+  todayContribution: "今日贡献",
+  orderBook: "订单簿",
+  bestBid: "最优买价",
+  bestAsk: "最优卖价",
+  spread: "价差",
+  depthUnavailable: "此数据来源不提供深度推送。",
+  weightHistory: "权重历史",
+  universeRules: "成分筛选规则",
+  applyAndRebalance: "应用并调仓",
+  quoteAsset: "计价资产",
+  constituentCount: "成分数量",
+  minVolume: "最低 24h 成交量",
+  minListingAge: "最短上市天数",
+  entryRank: "纳入排名",
+  exitRank: "剔除排名",
+  excludeStablecoins: "排除稳定币",
+  excludeLeveraged: "排除杠杆代币",
+  excludeWrapped: "排除包装资产",
+  invalidBuffer: "剔除排名须不小于纳入排名，且最低门槛不可为负数。",
+  invalidRankBuffer: "纳入排名须不大于 {count}，剔除排名须不小于 {count}（成分数量）。",
+  customIndices: "我的指数",
+  mainIndex: "加密货币50强",
+  newIndex: "新建",
+  indexName: "名称",
+  symbols: "币种",
+  baseValue: "基期指数",
+  baseDate: "基期日",
+  save: "保存",
+  cancel: "取消",
+  edit: "编辑",
+  view: "显示在仪表盘",
+  deleteIndex: "删除",
+  confirmDelete: "确认删除",
+  importIndices: "导入",
+  exportIndices: "导出",
+  importFailed: "无法导入指数",
+  rebalanceFailed: "调仓失败",
+  unpricedPairs: "{pairs} 无报价，已从篮子中剔除。",
+  noCustomIndices: "暂无自定义指数，可用任意币种组合创建。",
+  candles: "K线",
+  compare: "比较",
+  rebasedAt: "以 100 为基准于",
+  resetRebase: "重置",
+  clickToRebase: "点击图表以重新设定基准",
+  relativeStrength: "相对强弱",
+  series: "序列",
+  return: "收益",
+  volatility: "波动率 (年化)",
+  riskAnalytics: "风险分析",
+  riskLabels: {
+    [RiskMetric.REALIZED_VOL]: "已实现波动率",
+    [RiskMetric.MAX_DRAWDOWN]: "最大回撤 (30天)",
+    [RiskMetric.DRAWDOWN_DURATION]: "回撤持续时间",
+    [RiskMetric.SHARPE]: "夏普比率",
+    [RiskMetric.SORTINO]: "索提诺比率",
+    [RiskMetric.BETA]: "对 BTC 贝塔 (7天)",
+    [RiskMetric.HERFINDAHL]: "赫芬达尔指数",
+    [RiskMetric.EFFECTIVE_N]: "有效成分数",
+    [RiskMetric.TOP5_SHARE]: "前五大权重"
+  },
+  riskTips: {
+    [RiskMetric.REALIZED_VOL]: "各期间内指数收益率的年化标准差。",
+    [RiskMetric.MAX_DRAWDOWN]: "过去 30 天内指数从高点到低点的最大跌幅，按每小时收盘价计算。",
+    [RiskMetric.DRAWDOWN_DURATION]: "从最大回撤前的高点起，到指数重回该高点所经历的时间。",
+    [RiskMetric.SHARPE]: "年化平均超额收益除以波动率，按 30 天内的每小时收益计算。",
+    [RiskMetric.SORTINO]: "与夏普比率类似，但仅以下行波动衡量风险。",
+    [RiskMetric.BETA]: "指数每小时收益对 BTC 的敏感度，采用 7 天滚动窗口。1 表示与 BTC 同步。",
+    [RiskMetric.HERFINDAHL]: "权重平方和，介于 1/N (等权) 与 1 (单一币种) 之间。",
+    [RiskMetric.EFFECTIVE_N]: "1 / 赫芬达尔指数：集中度相同时的等权币种数量。",
+    [RiskMetric.TOP5_SHARE]: "按现价计算，前五大成分的合计权重。"
+  },
+  ongoing: "进行中",
+  durationHours: "{hours}小时",
+  durationDaysHours: "{days}天{hours}小时",
+  alerts: "预警",
+  newAlert: "新建预警",
+  alertKinds: {
+    [AlertKind.INDEX_LEVEL]: "指数点位",
+    [AlertKind.INDEX_CHANGE]: "指数涨跌幅 (%)",
+    [AlertKind.CONSTITUENT_PRICE]: "成分币价格",
+    [AlertKind.CONSTITUENT_WEIGHT]: "成分币权重 (%)"
+  },
+  alertDirections: {
+    [AlertDirection.ABOVE]: "高于",
+    [AlertDirection.BELOW]: "低于"
+  },
+  threshold: "阈值",
+  alertWindow: "期间",
+  cooldown: "冷却时间",
+  hysteresis: "回滞区间",
+  minutes: "分钟",
+  constituent: "成分币",
+  alertLog: "预警记录",
+  clearLog: "清除",
+  noAlertRules: "暂无预警规则。",
+  noAlertEvents: "暂无触发的预警。",
+  enableNotifications: "启用通知",
+  notificationsBlocked: "通知已被浏览器屏蔽",
+  notificationsUnsupported: "浏览器不支持通知",
+  alertTriggered: "预警触发",
+  dataHealth: {
+    [DataHealth.OK]: "正常",
+    [DataHealth.OUTLIER]: "异常值",
+    [DataHealth.STALE]: "延迟",
+    [DataHealth.HALTED]: "停止交易"
+  },
+  dataHealthTips: {
+    [DataHealth.OK]: "价格正常更新中。",
+    [DataHealth.OUTLIER]: "最新成交价被判定为异常值，沿用上一笔有效价格。",
+    [DataHealth.STALE]: "超过 2 分钟没有有效更新，沿用上一笔有效价格。",
+    [DataHealth.HALTED]: "超过 15 分钟没有有效更新，可能已暂停交易或下架。"
+  },
+  degraded: "数据降级",
+  staleWeight: "延迟权重",
+  exportData: "导出",
+  exportComposition: "导出成分",
+  exportFailed: "导出失败",
+  time: "时间",
+  open: "开盘",
+  candleHigh: "最高",
+  candleLow: "最低",
+  close: "收盘",
+  quantity: "数量",
+  referencePrice: "参考价格",
+  trackingSimulator: "跟踪投资组合",
+  notional: "投资金额",
+  takerFee: "吃单手续费",
+  slippage: "滑点",
+  bps: "基点",
+  runSimulation: "运行模拟",
+  simulating: "模拟中...",
+  simulationFailed: "模拟失败",
+  needsRebalanceHistory: "调仓记录中尚无覆盖模拟期间的成分。",
+  trackingError: "跟踪误差",
+  trackingDifference: "跟踪偏离",
+  turnover: "换手率",
+  costDrag: "成本拖累",
+  totalCosts: "总成本",
+  rebalanceCount: "调仓次数",
+  portfolio: "投资组合",
+  targetWeight: "目标权重",
+  actualWeight: "实际权重",
+  cashResidual: "未投资现金",
+  belowMinimum: "低于交易所最低限额",
+  lotSizeTip: "数量按 Binance LOT_SIZE 步长向下取整；低于最低下单金额的项目将被跳过。",
+  fund: "ETF 基金",
+  nav: "净值",
+  marketPrice: "市价",
+  premiumDiscount: "溢价 / 折价",
+  managementFee: "管理费 (年化 %)",
+  feesAccrued: "累计费用",
+  creationBand: "申购/赎回区间",
+  premiumVolatility: "溢价波动",
+  navHistory: "每日净值",
+  date: "日期",
+  language: "语言",
+  updated: "更新时间",
+  waitingForData: "等待市场数据...",
+  footerCopyright: "Crypto50 ETF © {year}。市场数据：{source}。",
+  footerBaseDate: "基期日：{date}",
+  ohlcShort: { open: "开", high: "高", low: "低", close: "收" },
+  fundFlows: {
+    [FundFlow.NONE]: "—",
+    [FundFlow.CREATION]: "申购",
+    [FundFlow.REDEMPTION]: "赎回"
+  },
+  searchSymbols: "搜索币种",
+  columns: "列",
+  rankChange: "排名变动",
+  lastHour: "1小时",
+  newEntrant: "新进",
+  noMatches: "没有符合条件的成分币。",
+  constituentFilters: {
+    [ConstituentFilter.ALL]: "全部",
+    [ConstituentFilter.GAINERS]: "上涨",
+    [ConstituentFilter.LOSERS]: "下跌"
+  },
+  methodology: "编制方法与产品概览",
+  print: "打印",
+  keyFacts: "基本信息",
+  factsheetIntro: "{name} 是按规则编制的指数，成分为以 {quote} 计价、交易最活跃的加密货币现货交易对，并按 {source} 价格实时计算。",
+  factsheetIntroCustom: "{name} 跟踪由用户选定的 {count} 个交易对组成的固定篮子，并按 {source} 价格实时计算。",
+  universeMethod: "符合条件的交易对按 24 小时成交额排序。排名进入前 {entry} 名才会纳入，排名保持在前 {exit} 名则保留；排名最前的 {count} 个交易对组成指数。",
+  weightingDescriptions: {
+    [WeightingMethod.VOLUME]: "各成分按 24 小时成交额加权。",
+    [WeightingMethod.CAPPED_VOLUME]: "按 24 小时成交额加权，单一成分上限为 {cap}，超出部分按比例分配给未达上限的成分。",
+    [WeightingMethod.EQUAL]: "所有成分权重相同。",
+    [WeightingMethod.SQRT_VOLUME]: "按 24 小时成交额的平方根加权，降低最大交易对的占比。"
+  },
+  indexCalculation: "指数计算",
+  calculationMethod: "指数点位为篮子市值除以除数：点位 = Σ(数量 × 价格) / 除数。两次调仓之间数量固定；每次调仓时数量重置为目标权重，并调整除数使点位保持连续。",
+  rebalanceSchedule: "每日 {time} 调仓：重新筛选成分并将权重重置为目标值。变更加权方式也会触发一次调仓。",
+  lastRebalance: "上次调仓",
+  topHoldings: "前十大成分",
+  sectorBreakdown: "板块分布",
+  sector: "板块",
+  sectors: {
+    [Sector.LAYER_1]: "一层公链",
+    [Sector.LAYER_2]: "二层扩容",
+    [Sector.DEFI]: "去中心化金融",
+    [Sector.EXCHANGE]: "平台币",
+    [Sector.PAYMENTS]: "支付",
+    [Sector.INFRASTRUCTURE]: "基础设施",
+    [Sector.AI]: "人工智能",
+    [Sector.GAMING]: "游戏",
+    [Sector.MEME]: "Meme 币",
+    [Sector.OTHER]: "其他"
+  },
+  performanceStats: "历史表现",
+  factsheetPeriods: {
+    [FactsheetPeriod.ONE_WEEK]: "1周",
+    [FactsheetPeriod.ONE_MONTH]: "1个月",
+    [FactsheetPeriod.THREE_MONTHS]: "3个月",
+    [FactsheetPeriod.YTD]: "年初至今",
+    [FactsheetPeriod.ONE_YEAR]: "1年",
+    [FactsheetPeriod.INCEPTION]: "基期以来"
+  },
+  maxDrawdown: "最大回撤",
+  bestDay: "最佳单日",
+  worstDay: "最差单日",
+  historySince: "统计数据采用自 {date} 起的每日收盘价。",
+  generatedAt: "于 {time} 根据当前配置生成。此为模拟指数，过往表现不代表未来收益。",
+  yes: "是",
+  no: "否"
+};
@@ -0,0 +1,308 @@
+import { AlertDirection, AlertKind, AttributionWindow, ConnectionState, ConstituentFilter, DataHealth, DataSourceId, FactsheetPeriod, FundFlow, RebalanceTrigger, RiskMetric, Sector, Translation, WeightingMethod } from '../types';
+
+// Traditional Chinese (Taiwan)
+export const ZH_TW: Translation = {
+  title: "加密貨幣50大 ETF 指數",
+  subtitle: {
+    [WeightingMethod.VOLUME]: "幣安交易量前{count}大加權指數",
+    [WeightingMethod.CAPPED_VOLUME]: "幣安交易量前{count}大上限加權指數 (單一上限{cap})",
+    [WeightingMethod.EQUAL]: "幣安交易量前{count}大等權重指數",
+    [WeightingMethod.SQRT_VOLUME]: "幣安交易量前{count}大平方根加權指數"
+  },
+  weighting: "加權方式",
+  weightingMethods: {
+    [WeightingMethod.VOLUME]: "交易量",
+    [WeightingMethod.CAPPED_VOLUME]: "上限交易量",
+    [WeightingMethod.EQUAL]: "等權重",
+    [WeightingMethod.SQRT_VOLUME]: "√ 交易量"
+  },
+  price: "指數價格",
+  change: "24h 漲跌",
+  high: "24h 最高",
+  low: "24h 最低",
+  volume: "24h 成交量 (USDT)",
+  composition: "成分股權重",
+  constituentTotal: { other: "共 {count} 檔" },
+  symbol: "幣種",
+  weight: "權重",
+  lastPrice: "最新價",
+  connectStatus: "系統狀態",
+  rebalanceInfo: "每日調倉: {time}",
+  nextRebalanceIn: "距下次",
+  chart: "即時K線",
+  rebalanceHistory: "調倉紀錄",
+  compareFrom: "從",
+  compareTo: "至",
+  entrants: "納入",
+  leavers: "剔除",
+  weightChanges: "權重變動",
+  noRebalances: "調倉紀錄不足，暫無法比較。",
+  divisor: "除數",
+  rebalanceTriggers: {
+    [RebalanceTrigger.INITIAL]: "初始建倉",
+    [RebalanceTrigger.SCHEDULED]: "定期調倉",
+    [RebalanceTrigger.METHODOLOGY]: "變更加權方式"
+  },
+  dataSource: "資料來源",
+  dataSources: {
+    [DataSourceId.BINANCE]: "幣安",
+    [DataSourceId.OKX]: "OKX",
+    [DataSourceId.BYBIT]: "Bybit",
+    [DataSourceId.COMPOSITE]: "綜合 (中位數)"
+  },
+  connectionStates: {
+    [ConnectionState.IDLE]: "待機",
+    [ConnectionState.CONNECTING]: "連線中...",
+    [ConnectionState.OPEN]: "在線",
+    [ConnectionState.STALE]: "資料停滯",
+    [ConnectionState.RECONNECTING]: "重新連線中...",
+    [ConnectionState.CLOSED]: "離線"
+  },
+  lastMessage: { other: "最後訊息 {count} 秒前" },
+  chartInterval: "({timeframe} 週期)",
+  record: "錄製",
+  stopRecording: "停止並儲存",
+  loadReplay: "載入回放",
+  replayLoadFailed: "無法載入錄製檔",
+  replay: "回放",
+  play: "播放",
+  pause: "暫停",
+  exitReplay: "返回即時",
+  attribution: "績效歸因",
+  attributionWindows: {
+    [AttributionWindow.SINCE_OPEN]: "自開盤",
+    [AttributionWindow.ONE_HOUR]: "1小時",
+    [AttributionWindow.SINCE_REBALANCE]: "自上次調倉"
+  },
+  contribution: "貢獻度 (百分點)",
+  heatmap: "熱力圖 (面積 = 權重, 顏色 = 報酬)",
+  weightShort: "權重: {value}",
+  returnShort: "報酬: {value}",
+  percentagePoints: "{value} 個百分點",
+  noData: "尚無資料。",
+  notEnoughHistory: "歷史資料尚不足以涵蓋此區間。",
+  todayContribution: "今日貢獻",
+  orderBook: "委託簿",
+  bestBid: "最佳買價",
+  bestAsk: "最佳賣價",
+  spread: "價差",
+  depthUnavailable: "此資料來源不提供深度串流。",
+  weightHistory: "權重歷史",
+  universeRules: "成分股篩選規則",
+  applyAndRebalance: "套用並調倉",
+  quoteAsset: "計價資產",
+  constituentCount: "成分股數量",
+  minVolume: "最低 24h 成交量",
+  minListingAge: "最短上市天數",
+  entryRank: "納入排名",
+  exitRank: "剔除排名",
+  excludeStablecoins: "排除穩定幣",
+  excludeLeveraged: "排除槓桿代幣",
+  excludeWrapped: "排除包裝資產",
+  invalidBuffer: "剔除排名須不小於納入排名，且最低門檻不可為負數。",
+  invalidRankBuffer: "納入排名須不大於 {count}，剔除排名須不小於 {count}（成分股數量）。",
+  customIndices: "我的指數",
+  mainIndex: "加密貨幣50大",
+  newIndex: "新增",
+  indexName: "名稱",
+  symbols: "幣種",
+  baseValue: "基期指數",
+  baseDate: "基期日",
+  save: "儲存",
+  cancel: "取消",
+  edit: "編輯",
+  view: "顯示於儀表板",
+  deleteIndex: "刪除",
+  confirmDelete: "確定刪除",
+  importIndices: "匯入",
+  exportIndices: "匯出",
+  importFailed: "無法匯入指數",
+  rebalanceFailed: "調倉失敗",
+  unpricedPairs: "{pairs} 無報價，已從籃子中剔除。",
+  noCustomIndices: "尚無自訂指數，可從任意幣種組合建立。",
+  candles: "K線",
+  compare: "比較",
+  rebasedAt: "以 100 為基準於",
+  resetRebase: "重設",
+  clickToRebase: "點擊圖表以重新設定基準",
+  relativeStrength: "相對強弱",
+  series: "序列",
+  return: "報酬",
+  volatility: "波動率 (年化)",
+  riskAnalytics: "風險分析",
+  riskLabels: {
+    [RiskMetric.REALIZED_VOL]: "已實現波動率",
+    [RiskMetric.MAX_DRAWDOWN]: "最大回撤 (30天)",
+    [RiskMetric.DRAWDOWN_DURATION]: "回撤持續時間",
+    [RiskMetric.SHARPE]: "夏普比率",
+    [RiskMetric.SORTINO]: "索提諾比率",
+    [RiskMetric.BETA]: "對 BTC 貝塔 (7天)",
+    [RiskMetric.HERFINDAHL]: "赫芬達爾指數",
+    [RiskMetric.EFFECTIVE_N]: "有效成分數",
+    [RiskMetric.TOP5_SHARE]: "前五大權重"
+  },
+  riskTips: {
+    [RiskMetric.REALIZED_VOL]: "各期間內指數報酬率的年化標準差。",
+    [RiskMetric.MAX_DRAWDOWN]: "過去 30 天內指數從高點到低點的最大跌幅，以每小時收盤價計算。",
+    [RiskMetric.DRAWDOWN_DURATION]: "從最大回撤前的高點起，到指數重回該高點所經過的時間。",
+    [RiskMetric.SHARPE]: "年化平均超額報酬除以波動率，以 30 天內的每小時報酬計算。",
+    [RiskMetric.SORTINO]: "與夏普比率類似，但僅以下行波動計算風險。",
+    [RiskMetric.BETA]: "指數每小時報酬對 BTC 的敏感度，採 7 天滾動窗口。1 代表與 BTC 同步。",
+    [RiskMetric.HERFINDAHL]: "權重平方和，介於 1/N (等權) 與 1 (單一幣種) 之間。",
+    [RiskMetric.EFFECTIVE_N]: "1 / 赫芬達爾指數：集中度相同時的等權幣種數量。",
+    [RiskMetric.TOP5_SHARE]: "以現價計算，前五大成分的合計權重。"
+  },
+  ongoing: "進行中",
+  durationHours: "{hours}小時",
+  durationDaysHours: "{days}天{hours}小時",
+  alerts: "警示",
+  newAlert: "新增警示",
+  alertKinds: {
+    [AlertKind.INDEX_LEVEL]: "指數點位",
+    [AlertKind.INDEX_CHANGE]: "指數漲跌幅 (%)",
+    [AlertKind.CONSTITUENT_PRICE]: "成分幣價格",
+    [AlertKind.CONSTITUENT_WEIGHT]: "成分幣權重 (%)"
+  },
+  alertDirections: {
+    [AlertDirection.ABOVE]: "高於",
+    [AlertDirection.BELOW]: "低於"
+  },
+  threshold: "門檻",
+  alertWindow: "期間",
+  cooldown: "冷卻時間",
+  hysteresis: "遲滯區間",
+  minutes: "分鐘",
+  constituent: "成分幣",
+  alertLog: "警示紀錄",
+  clearLog: "清除",
+  noAlertRules: "尚無警示規則。",
+  noAlertEvents: "尚無觸發的警示。",
+  enableNotifications: "啟用通知",
+  notificationsBlocked: "通知已被瀏覽器封鎖",
+  notificationsUnsupported: "瀏覽器不支援通知",
+  alertTriggered: "警示觸發",
+  dataHealth: {
+    [DataHealth.OK]: "正常",
+    [DataHealth.OUTLIER]: "異常值",
+    [DataHealth.STALE]: "延遲",
+    [DataHealth.HALTED]: "停止交易"
+  },
+  dataHealthTips: {
+    [DataHealth.OK]: "價格正常更新中。",
+    [DataHealth.OUTLIER]: "最新成交價被判定為異常值，沿用上一筆有效價格。",
+    [DataHealth.STALE]: "超過 2 分鐘沒有有效更新，沿用上一筆有效價格。",
+    [DataHealth.HALTED]: "超過 15 分鐘沒有有效更新，可能已暫停交易或下架。"
+  },
+  degraded: "資料降級",
+  staleWeight: "延遲權重",
+  exportData: "匯出",
+  exportComposition: "匯出成分",
+  exportFailed: "匯出失敗",
+  time: "時間",
+  open: "開盤",
+  candleHigh: "最高",
+  candleLow: "最低",
+  close: "收盤",
+  quantity: "數量",
+  referencePrice: "參考價格",
+  trackingSimulator: "追蹤投資組合",
+  notional: "投資金額",
+  takerFee: "吃單手續費",
+  slippage: "滑價",
+  bps: "基點",
+  runSimulation: "執行模擬",
+  simulating: "模擬中...",
+  simulationFailed: "模擬失敗",
+  needsRebalanceHistory: "再平衡紀錄中尚無涵蓋模擬期間的成分。",
+  trackingError: "追蹤誤差",
+  trackingDifference: "追蹤差異",
+  turnover: "周轉率",
+  costDrag: "成本拖累",
+  totalCosts: "總成本",
+  rebalanceCount: "再平衡次數",
+  portfolio: "投資組合",
+  targetWeight: "目標權重",
+  actualWeight: "實際權重",
+  cashResidual: "未投資現金",
+  belowMinimum: "低於交易所最低限額",
+  lotSizeTip: "數量依 Binance LOT_SIZE 步長向下取整；低於最低下單金額的項目會略過。",
+  fund: "ETF 基金",
+  nav: "淨值",
+  marketPrice: "市價",
+  premiumDiscount: "溢價 / 折價",
+  managementFee: "管理費 (年化 %)",
+  feesAccrued: "累計費用",
+  creationBand: "申購/贖回區間",
+  premiumVolatility: "溢價波動",
+  navHistory: "每日淨值",
+  date: "日期",
+  language: "語言",
+  updated: "更新時間",
+  waitingForData: "等待市場資料...",
+  footerCopyright: "Crypto50 ETF © {year}。市場資料：{source}。",
+  footerBaseDate: "基期日：{date}",
+  ohlcShort: { open: "開", high: "高", low: "低", close: "收" },
+  fundFlows: {
+    [FundFlow.NONE]: "—",
+    [FundFlow.CREATION]: "申購",
+    [FundFlow.REDEMPTION]: "贖回"
+  },
+  searchSymbols: "搜尋幣種",
+  columns: "欄位",
+  rankChange: "排名變動",
+  lastHour: "1小時",
+  newEntrant: "新進",
+  noMatches: "沒有符合的成分幣。",
+  constituentFilters: {
+    [ConstituentFilter.ALL]: "全部",
+    [ConstituentFilter.GAINERS]: "上漲",
+    [ConstituentFilter.LOSERS]: "下跌"
+  },
+  methodology: "編製方法與產品簡介",
+  print: "列印",
+  keyFacts: "基本資料",
+  factsheetIntro: "{name} 是依規則編製的指數，成分為以 {quote} 計價、交易最活躍的加密貨幣現貨交易對，並依 {source} 價格即時計算。",
+  factsheetIntroCustom: "{name} 追蹤由使用者選定的 {count} 個交易對所組成的固定籃子，並依 {source} 價格即時計算。",
+  universeMethod: "符合資格的交易對依 24 小時成交額排序。排名在第 {entry} 名以內才會納入，排名維持在第 {exit} 名以內則保留；排名最前的 {count} 個交易對組成指數。",
+  weightingDescriptions: {
+    [WeightingMethod.VOLUME]: "各成分依 24 小時成交額加權。",
+    [WeightingMethod.CAPPED_VOLUME]: "依 24 小時成交額加權，單一成分上限為 {cap}，超出部分按比例分配給未達上限的成分。",
+    [WeightingMethod.EQUAL]: "所有成分權重相同。",
+    [WeightingMethod.SQRT_VOLUME]: "依 24 小時成交額的平方根加權，降低最大交易對的比重。"
+  },
+  indexCalculation: "指數計算",
+  calculationMethod: "指數點位為籃子市值除以除數：點位 = Σ(數量 × 價格) / 除數。兩次再平衡之間數量固定；每次再平衡時數量重設為目標權重，並調整除數使點位保持連續。",
+  rebalanceSchedule: "每日 {time} 再平衡：重新篩選成分並將權重重設為目標值。變更加權方式也會觸發一次再平衡。",
+  lastRebalance: "上次再平衡",
+  topHoldings: "前十大成分",
+  sectorBreakdown: "產業分布",
+  sector: "產業",
+  sectors: {
+    [Sector.LAYER_1]: "第一層公鏈",
+    [Sector.LAYER_2]: "第二層擴容",
+    [Sector.DEFI]: "去中心化金融",
+    [Sector.EXCHANGE]: "交易所代幣",
+    [Sector.PAYMENTS]: "支付",
+    [Sector.INFRASTRUCTURE]: "基礎設施",
+    [Sector.AI]: "人工智慧",
+    [Sector.GAMING]: "遊戲",
+    [Sector.MEME]: "迷因幣",
+    [Sector.OTHER]: "其他"
+  },
+  performanceStats: "歷史績效",
+  factsheetPeriods: {
+    [FactsheetPeriod.ONE_WEEK]: "1週",
+    [FactsheetPeriod.ONE_MONTH]: "1個月",
+    [FactsheetPeriod.THREE_MONTHS]: "3個月",
+    [FactsheetPeriod.YTD]: "今年以來",
+    [FactsheetPeriod.ONE_YEAR]: "1年",
+    [FactsheetPeriod.INCEPTION]: "基期以來"
+  },
+  maxDrawdown: "最大回撤",
+  bestDay: "最佳單日",
+  worstDay: "最差單日",
+  historySince: "統計數據採用自 {date} 起的每日收盤價。",
+  generatedAt: "於 {time} 依目前設定產生。此為模擬指數，過往績效不代表未來表現。",
+  yes: "是",
+  no: "否"
+};
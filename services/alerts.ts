@@ -0,0 +1,126 @@
+import { AlertDirection, AlertEvent, AlertKind, AlertRule, CandleData } from '../types';
+import { ALERT_LOG_LIMIT, ALERT_LOG_STORAGE_KEY, ALERT_RULES_STORAGE_KEY } from '../constants';
+import { PriceMap } from './indexEngine';
+import { readJson } from './storage';
+
+// Threshold alerts evaluated on every calculation tick. A rule fires when its value
+// crosses the threshold, then stays quiet until the value has moved back past
+// threshold ± hysteresis (re-armed) and the cooldown since the last firing is over.
+
+// What the rules can look at on a given tick
+export interface AlertSnapshot {
+  level: number;
+  levelHistory: CandleData[];       // 1m index candles, oldest first
+  prices: PriceMap;
+  weights: Record<string, number>;  // pair -> market-value weight (0-1)
+}
+
+export interface AlertRuleState {
+  armed: boolean;
+  lastFiredAt: number | null;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+export const loadAlertRules = (): AlertRule[] => readJson(ALERT_RULES_STORAGE_KEY, []);
+
+export const saveAlertRules = (rules: AlertRule[]) => {
+  localStorage.setItem(ALERT_RULES_STORAGE_KEY, JSON.stringify(rules));
+};
+
+export const loadAlertLog = (): AlertEvent[] => readJson(ALERT_LOG_STORAGE_KEY, []);
+
+// Appends, keeping the newest ALERT_LOG_LIMIT events. Returns the new log.
+export const appendAlertEvents = (log: AlertEvent[], events: AlertEvent[]): AlertEvent[] => {
+  const next = [...log, ...events].slice(-ALERT_LOG_LIMIT);
+  localStorage.setItem(ALERT_LOG_STORAGE_KEY, JSON.stringify(next));
+  return next;
+};
+
+export const clearAlertLog = () => localStorage.removeItem(ALERT_LOG_STORAGE_KEY);
+
+export const createAlertId = () => `alert-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Close of the last candle at or before `time`; null if the history doesn't reach back that far
+const levelAt = (history: CandleData[], time: number): number | null => {
+  if (history.length === 0 || history[0].time > time) return null;
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (history[i].time <= time) return history[i].close;
+  }
+  return null;
+};
+
+// The rule's current value in its own units, or null when it can't be measured yet
+export const measureAlert = (rule: AlertRule, snapshot: AlertSnapshot, now: number): number | null => {
+  switch (rule.kind) {
+    case AlertKind.INDEX_LEVEL:
+      return snapshot.level;
+    case AlertKind.INDEX_CHANGE: {
+      const start = levelAt(snapshot.levelHistory, now - rule.windowMinutes * MINUTE_MS);
+      return start ? (snapshot.level / start - 1) * 100 : null;
+    }
+    case AlertKind.CONSTITUENT_PRICE:
+      return rule.pair ? snapshot.prices[rule.pair] ?? null : null;
+    case AlertKind.CONSTITUENT_WEIGHT:
+      return rule.pair && rule.pair in snapshot.weights ? snapshot.weights[rule.pair] * 100 : null;
+  }
+};
+
+const isBreached = (rule: AlertRule, value: number) =>
+  rule.direction === AlertDirection.ABOVE ? value >= rule.threshold : value <= rule.threshold;
+
+const isRearmed = (rule: AlertRule, value: number) =>
+  rule.direction === AlertDirection.ABOVE
+    ? value < rule.threshold - rule.hysteresis
+    : value > rule.threshold + rule.hysteresis;
+
+// Seed per-rule state from the log so a reload doesn't bypass cooldowns
+export const initialAlertStates = (log: AlertEvent[]): Record<string, AlertRuleState> => {
+  const states: Record<string, AlertRuleState> = {};
+  log.forEach(e => {
+    states[e.rule.id] = { armed: true, lastFiredAt: e.time };
+  });
+  return states;
+};
+
+export const evaluateAlerts = (
+  rules: AlertRule[],
+  states: Record<string, AlertRuleState>,
+  snapshot: AlertSnapshot,
+  now: number
+): { states: Record<string, AlertRuleState>; events: AlertEvent[] } => {
+  const nextStates = { ...states };
+  const events: AlertEvent[] = [];
+
+  rules.forEach(rule => {
+    if (!rule.enabled) return;
+    const value = measureAlert(rule, snapshot, now);
+    if (value === null || !isFinite(value)) return;
+
+    const state = nextStates[rule.id] ?? { armed: true, lastFiredAt: null };
+    if (!state.armed) {
+      if (isRearmed(rule, value)) nextStates[rule.id] = { ...state, armed: true };
+      return;
+    }
+
+    const coolingDown = state.lastFiredAt !== null && now - state.lastFiredAt < rule.cooldownMinutes * MINUTE_MS;
+    if (isBreached(rule, value) && !coolingDown) {
+      nextStates[rule.id] = { armed: false, lastFiredAt: now };
+      events.push({ id: createAlertId(), time: now, value, rule: { ...rule } });
+    }
+  });
+
+  return { states: nextStates, events };
+};
+
+export const notificationsSupported = () => typeof window !== 'undefined' && 'Notification' in window;
+
+// Browser notification for a fired alert; the in-app log is the fallback when not permitted
+export const showAlertNotification = (title: string, body: string, tag: string) => {
+  if (!notificationsSupported() || Notification.permission !== 'granted') return;
+  try {
+    new Notification(title, { body, tag });
+  } catch (error) {
+    console.error("Failed to show notification:", error);
+  }
+};
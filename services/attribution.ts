@@ -0,0 +1,64 @@
+import { Contribution, IndexComposition } from '../types';
+import { computeMarketValue, PriceMap } from './indexEngine';
+import { baseAssetOf } from './marketData';
+
+// Return attribution for the divisor-based index. With fixed quantities between
+// rebalances the index return splits exactly into per-constituent terms:
+//   contribution_i = q_i * (p_i - p_i0) / MV_0 = w_i0 * r_i
+// where w_i0 is the constituent's share of basket value at the window start.
+// The contributions therefore sum to the index return over the window.
+export const computeAttribution = (
+  composition: IndexComposition,
+  startPrices: PriceMap,
+  currentPrices: PriceMap
+): Contribution[] => {
+  // Pairs without a start price are treated as flat over the window
+  const start: PriceMap = {};
+  Object.keys(composition.quantities).forEach(pair => {
+    start[pair] = startPrices[pair] ?? currentPrices[pair] ?? composition.referencePrices[pair];
+  });
+  const startValue = computeMarketValue(composition, start);
+  if (startValue === 0) return [];
+
+  return Object.keys(composition.quantities)
+    .map(pair => {
+      const p0 = start[pair];
+      const p1 = currentPrices[pair] ?? p0;
+      const weight = composition.quantities[pair] * p0 / startValue;
+      const ret = p0 > 0 ? (p1 / p0 - 1) * 100 : 0;
+      return {
+        pair,
+        symbol: baseAssetOf(pair),
+        weight,
+        return: ret,
+        contribution: weight * ret
+      };
+    })
+    .sort((a, b) => b.contribution - a.contribution);
+};
+
+export interface PriceSnapshot {
+  time: number;
+  prices: PriceMap;
+}
+
+// Keep one snapshot per `intervalMs`, dropping anything older than `maxAgeMs`
+export const recordPriceSnapshot = (
+  history: PriceSnapshot[],
+  time: number,
+  prices: PriceMap,
+  intervalMs: number,
+  maxAgeMs: number
+): PriceSnapshot[] => {
+  const last = history[history.length - 1];
+  if (last && time - last.time < intervalMs) return history;
+  return [...history.filter(s => time - s.time <= maxAgeMs), { time, prices: { ...prices } }];
+};
+
+// Oldest snapshot at or after `time`, i.e. the best available start for a window.
+// Null while the history doesn't reach back to `time`: a later start would
+// measure a shorter window than the one asked for.
+export const findSnapshotAt = (history: PriceSnapshot[], time: number): PriceSnapshot | null => {
+  if (history.length === 0 || history[0].time > time) return null;
+  return history.find(s => s.time >= time) ?? history[history.length - 1];
+};
@@ -0,0 +1,163 @@
+import { CandleData, IndexComposition, RebalanceRecord, Timeframe } from '../types';
+import { MarketDataSource, TIMEFRAME_MS } from './marketData';
+import { computeIndexLevel, PriceMap } from './indexEngine';
+import { recordAt } from './rebalance';
+
+// Keep the exchange's REST rate limits happy while fetching 50 pairs
+const BACKFILL_CONCURRENCY = 5;
+
+const mapWithConcurrency = async <T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const i = next++;
+      results[i] = await fn(items[i]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
+
+// Page through klines for one pair until `endTime`. Failures yield a partial series.
+export const fetchKlineRange = async (
+  source: MarketDataSource,
+  pair: string,
+  timeframe: Timeframe,
+  startTime: number,
+  endTime: number
+): Promise<CandleData[]> => {
+  const candles: CandleData[] = [];
+  let cursor = startTime;
+  try {
+    while (cursor <= endTime) {
+      const page = await source.fetchKlines(pair, timeframe, cursor);
+      const fresh = page.filter(c => c.time >= cursor && c.time <= endTime);
+      if (fresh.length === 0) break;
+      candles.push(...fresh);
+      cursor = fresh[fresh.length - 1].time + TIMEFRAME_MS[timeframe];
+    }
+  } catch (error) {
+    console.error(`Failed to backfill ${pair}:`, error);
+  }
+  return candles;
+};
+
+// Value the basket bucket by bucket. Open and close are exact basket values at the
+// constituents' opens and closes; intrabar highs of different coins don't coincide,
+// so high/low are bounded by that open/close envelope.
+// Gaps carry the last close forward (from before `startTime` too); before a pair's first
+// candle its first open is used.
+export const reconstructIndexCandles = (
+  composition: IndexComposition,
+  klinesByPair: Record<string, CandleData[]>,
+  timeframe: Timeframe,
+  startTime: number,
+  endTime: number
+): CandleData[] => {
+  const step = TIMEFRAME_MS[timeframe];
+  const byTime: Record<string, Map<number, CandleData>> = {};
+  const lastClose: PriceMap = {};
+  const first = Math.floor(startTime / step) * step;
+
+  Object.keys(klinesByPair).forEach(pair => {
+    const klines = klinesByPair[pair];
+    byTime[pair] = new Map(klines.map(k => [k.time, k]));
+    if (klines.length === 0) return;
+    const before = klines.filter(k => k.time < first);
+    lastClose[pair] = before.length > 0 ? before[before.length - 1].close : klines[0].open;
+  });
+
+  const candles: CandleData[] = [];
+
+  for (let time = first; time <= endTime; time += step) {
+    const opens: PriceMap = {};
+    const closes: PriceMap = {};
+    let volume = 0;
+    let hasData = false;
+
+    Object.keys(byTime).forEach(pair => {
+      const k = byTime[pair].get(time);
+      if (k) {
+        opens[pair] = k.open;
+        closes[pair] = k.close;
+        lastClose[pair] = k.close;
+        volume += k.volume ?? 0;
+        hasData = true;
+      } else if (lastClose[pair] !== undefined) {
+        opens[pair] = closes[pair] = lastClose[pair];
+      }
+    });
+    if (!hasData) continue;
+
+    const open = computeIndexLevel(composition, opens);
+    const close = computeIndexLevel(composition, closes);
+    // Volume is the constituents' combined quote volume
+    candles.push({ time, open, high: Math.max(open, close), low: Math.min(open, close), close, volume });
+  }
+
+  return candles;
+};
+
+// Klines for a whole basket, a few pairs at a time
+export const fetchKlinesByPair = async (
+  source: MarketDataSource,
+  pairs: string[],
+  timeframe: Timeframe,
+  startTime: number,
+  endTime: number
+): Promise<Record<string, CandleData[]>> => {
+  const series = await mapWithConcurrency(pairs, BACKFILL_CONCURRENCY,
+    pair => fetchKlineRange(source, pair, timeframe, startTime, endTime));
+  return Object.fromEntries(pairs.map((pair, i) => [pair, series[i]]));
+};
+
+interface BasketSegment {
+  composition: IndexComposition;
+  startTime: number;
+  endTime: number;
+}
+
+// Baskets the index held over [startTime, endTime], split at the rebalances in `log`.
+// The bucket containing a rebalance belongs to the new basket. `current` is used only
+// when no logged basket covers the window (records migrated without a composition).
+export const basketSegments = (
+  log: RebalanceRecord[],
+  current: IndexComposition,
+  timeframe: Timeframe,
+  startTime: number,
+  endTime: number
+): BasketSegment[] => {
+  const step = TIMEFRAME_MS[timeframe];
+  const records = log.filter(r => r.composition).sort((a, b) => a.timestamp - b.timestamp);
+  const inWindow = records.filter(r => r.timestamp > startTime && r.timestamp <= endTime);
+  const first = recordAt(records, startTime)?.composition ?? inWindow[0]?.composition ?? current;
+
+  const starts = [
+    { composition: first, startTime },
+    ...inWindow.map(r => ({ composition: r.composition!, startTime: Math.floor(r.timestamp / step) * step }))
+  ];
+  return starts.map((s, i) => ({ ...s, endTime: i + 1 < starts.length ? starts[i + 1].startTime - 1 : endTime }));
+};
+
+// Each stretch between rebalances is valued with the quantities and divisor in effect
+// then, exactly as the live index was
+export const backfillIndexHistory = async (
+  source: MarketDataSource,
+  log: RebalanceRecord[],
+  current: IndexComposition,
+  timeframe: Timeframe,
+  startTime: number,
+  endTime: number = Date.now()
+): Promise<CandleData[]> => {
+  const segments = basketSegments(log, current, timeframe, startTime, endTime);
+  const pairs = new Set<string>();
+  segments.forEach(s => Object.keys(s.composition.quantities).forEach(p => pairs.add(p)));
+  const klinesByPair = await fetchKlinesByPair(source, Array.from(pairs), timeframe, startTime, endTime);
+
+  return segments.flatMap(s => {
+    const held = Object.keys(s.composition.quantities);
+    const klines = Object.fromEntries(held.map(p => [p, klinesByPair[p] ?? []]));
+    return reconstructIndexCandles(s.composition, klines, timeframe, s.startTime, s.endTime);
+  });
+};
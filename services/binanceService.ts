@@ -1,54 +1,214 @@
-import { TickerData } from '../types';
+import { CandleData, Coin, ConnectionStatus, DataSourceId, LotSizeRule, OrderBookLevel, OrderBookSnapshot, PairInfo, TickerData, Timeframe, TickerUpdate } from '../types';
+import { MarketDataSource, fetchJson, toCoin } from './marketData';
+import { createStreamClient, StreamClient, StreamProtocol } from './streamClient';
 
 const BASE_API = 'https://api.binance.com/api/v3';
+const WS_API = 'wss://stream.binance.com:9443';
 
-// Fetch Top 50 pairs by Quote Volume (USDT)
-export const fetchTop50Coins = async (): Promise<TickerData[]> => {
+const tickerToCoin = (t: TickerData): Coin =>
+  toCoin(t.symbol, parseFloat(t.lastPrice), parseFloat(t.priceChangePercent), parseFloat(t.quoteVolume));
+
+interface BinanceSymbolInfo {
+  symbol: string;
+  status: string;     // TRADING, BREAK, ...
+  baseAsset: string;
+  quoteAsset: string;
+  filters: { filterType: string; stepSize?: string; minQty?: string; minNotional?: string }[];
+}
+
+// Every spot ticker; the universe rules decide which ones qualify
+export const fetchAllCoins = async (): Promise<Coin[]> => {
   try {
-    const response = await fetch(`${BASE_API}/ticker/24hr`);
-    if (!response.ok) throw new Error('Network response was not ok');
-    
-    const data: TickerData[] = await response.json();
-    
-    // Filter for USDT pairs only, exclude leveraged tokens (UP/DOWN/BULL/BEAR)
-    const usdtPairs = data.filter(ticker => 
-      ticker.symbol.endsWith('USDT') && 
-      !ticker.symbol.includes('UP') && 
-      !ticker.symbol.includes('DOWN') &&
-      !ticker.symbol.includes('BULL') &&
-      !ticker.symbol.includes('BEAR') &&
-      !ticker.symbol.includes('USDC') && // Avoid stablecoin pairs overlap if needed
-      !ticker.symbol.includes('FDUSD')
-    );
-
-    // Sort by 24h Quote Volume (volume in USDT) descending
-    const sorted = usdtPairs.sort((a, b) => parseFloat(b.quoteVolume) - parseFloat(a.quoteVolume));
-    
-    return sorted.slice(0, 50);
+    const data = await fetchJson<TickerData[]>(`${BASE_API}/ticker/24hr`);
+    return data.map(tickerToCoin);
   } catch (error) {
-    console.error("Failed to fetch top coins:", error);
+    console.error("Failed to fetch tickers:", error);
     return [];
   }
 };
 
+// exchangeInfo carries no listing date; the universe falls back to the first daily kline
+export const fetchPairInfo = async (): Promise<PairInfo[]> => {
+  try {
+    const data = await fetchJson<{ symbols: BinanceSymbolInfo[] }>(`${BASE_API}/exchangeInfo?permissions=SPOT`);
+    return data.symbols.map(s => ({
+      pair: s.symbol,
+      baseAsset: s.baseAsset,
+      quoteAsset: s.quoteAsset,
+      tradable: s.status === 'TRADING',
+      listedAt: null
+    }));
+  } catch (error) {
+    console.error("Failed to fetch exchange info:", error);
+    return [];
+  }
+};
+
+// Order size filters for every spot pair. Older pairs still carry MIN_NOTIONAL, newer ones NOTIONAL.
+export const fetchLotSizeRules = async (): Promise<LotSizeRule[]> => {
+  try {
+    const data = await fetchJson<{ symbols: BinanceSymbolInfo[] }>(`${BASE_API}/exchangeInfo?permissions=SPOT`);
+    return data.symbols.map(s => {
+      const lot = s.filters.find(f => f.filterType === 'LOT_SIZE');
+      const notional = s.filters.find(f => f.filterType === 'NOTIONAL' || f.filterType === 'MIN_NOTIONAL');
+      return {
+        pair: s.symbol,
+        stepSize: parseFloat(lot?.stepSize ?? '0'),
+        minQty: parseFloat(lot?.minQty ?? '0'),
+        minNotional: parseFloat(notional?.minNotional ?? '0')
+      };
+    });
+  } catch (error) {
+    console.error("Failed to fetch lot size rules:", error);
+    return [];
+  }
+};
+
+// Fetch 24h tickers for specific pairs, e.g. to revalue a basket outside the top 50.
+// Binance rejects the whole request if one symbol is unknown (delisted, mistyped), so a
+// failed request falls back to the full snapshot and keeps the pairs that exist.
+export const fetchTickers = async (pairs: string[]): Promise<Coin[]> => {
+  if (pairs.length === 0) return [];
+  try {
+    const symbols = encodeURIComponent(JSON.stringify(pairs));
+    const data = await fetchJson<TickerData[]>(`${BASE_API}/ticker/24hr?symbols=${symbols}`);
+    return data.map(tickerToCoin);
+  } catch (error) {
+    console.error("Failed to fetch tickers, retrying with the full snapshot:", error);
+    const wanted = new Set(pairs);
+    return (await fetchAllCoins()).filter(c => wanted.has(c.pair));
+  }
+};
+
+export const fetchKlines = async (
+  pair: string,
+  timeframe: Timeframe,
+  startTime: number,
+  limit = 1000
+): Promise<CandleData[]> => {
+  // Kline format: [openTime, open, high, low, close, volume, closeTime, quoteVolume, ...]
+  const klines = await fetchJson<[number, string, string, string, string, string, number, string][]>(
+    `${BASE_API}/klines?symbol=${pair}&interval=${timeframe}&startTime=${startTime}&limit=${limit}`
+  );
+  return klines.map(k => ({
+    time: k[0],
+    open: parseFloat(k[1]),
+    high: parseFloat(k[2]),
+    low: parseFloat(k[3]),
+    close: parseFloat(k[4]),
+    volume: parseFloat(k[7])
+  }));
+};
+
+// Data format: { e: '24hrMiniTicker', s: 'BTCUSDT', c: '95000', o: '94000', q: '123456', ... }
+export const parseMiniTicker = (data: any): TickerUpdate | null => {
+  if (!data || typeof data.s !== 'string') return null;
+  const price = parseFloat(data.c);
+
+  // Binance miniTicker does NOT contain 'P' (percentage change).
+  // We must calculate it manually using 'c' (close) and 'o' (open).
+  let percentChange = 0;
+  if (data.P !== undefined) {
+    // If full ticker stream is used (not current case, but safe fallback)
+    percentChange = parseFloat(data.P);
+  } else if (data.c && data.o) {
+    const openPrice = parseFloat(data.o);
+    if (openPrice !== 0) {
+      percentChange = ((price - openPrice) / openPrice) * 100;
+    }
+  }
+
+  const volume = parseFloat(data.q);
+  return {
+    pair: data.s,
+    price,
+    change24h: percentChange,
+    volume24h: isNaN(volume) ? undefined : volume
+  };
+};
+
+// Combined-stream protocol: one socket, streams managed with SUBSCRIBE/UNSUBSCRIBE.
+// Binance drops every connection after 24h, so the client rolls over before that.
+const HEARTBEAT_ID = 0;
+let requestId = HEARTBEAT_ID;
+
+const subscriptionRequest = (method: 'SUBSCRIBE' | 'UNSUBSCRIBE', streams: string[]) =>
+  // Binance stream limit is usually 1024 streams per connection. 50 is fine.
+  streams.length === 0 ? [] : [JSON.stringify({ method, params: streams, id: ++requestId })];
+
+const binanceProtocol: StreamProtocol = {
+  url: `${WS_API}/stream`,  // Combined endpoint; /ws would deliver unwrapped payloads
+  subscribe: streams => subscriptionRequest('SUBSCRIBE', streams),
+  unsubscribe: streams => subscriptionRequest('UNSUBSCRIBE', streams),
+  heartbeat: () => JSON.stringify({ method: 'LIST_SUBSCRIPTIONS', id: HEARTBEAT_ID }),
+  isHeartbeatReply: message => message?.id === HEARTBEAT_ID,
+  maxSessionMs: 24 * 60 * 60 * 1000
+};
+
+// Stream name format: <symbol>@miniTicker
+const toMiniTickerStream = (pair: string) => `${pair.toLowerCase()}@miniTicker`;
+
 // WebSocket connection helper
 export const connectBinanceWS = (
-  symbols: string[], 
-  onMessage: (data: any) => void
-): WebSocket => {
-  // Binance stream limit is usually 1024 streams per connection. 50 is fine.
-  // Stream name format: <symbol>@miniTicker
-  const streams = symbols.map(s => `${s.toLowerCase()}@miniTicker`).join('/');
-  const ws = new WebSocket(`wss://stream.binance.com:9443/ws/${streams}`);
+  symbols: string[],
+  onMessage: (data: any) => void,
+  onStatus: (status: ConnectionStatus) => void
+): StreamClient => {
+  const client = createStreamClient({
+    protocol: binanceProtocol,
+    // Combined stream payloads are wrapped: { stream: 'btcusdt@miniTicker', data: {...} }
+    onMessage: (message) => {
+      if (message?.data) onMessage(message.data);
+    },
+    onStatus
+  });
+  client.setStreams(symbols.map(toMiniTickerStream));
+  return client;
+};
 
-  ws.onmessage = (event) => {
-    const message = JSON.parse(event.data);
-    onMessage(message);
-  };
+// Partial book stream: a fresh top-20 snapshot every 100ms, so no local book to maintain
+const DEPTH_LEVELS = 20;
+const toDepthStream = (pair: string) => `${pair.toLowerCase()}@depth${DEPTH_LEVELS}@100ms`;
 
-  ws.onerror = (err) => {
-    console.error("WS Error:", err);
-  };
+const parseLevels = (levels: [string, string][]): OrderBookLevel[] =>
+  levels.map(([price, quantity]) => ({ price: parseFloat(price), quantity: parseFloat(quantity) }));
 
-  return ws;
-};
\ No newline at end of file
+// Data format: { lastUpdateId: 160, bids: [['0.0024', '10']], asks: [['0.0026', '100']] }
+export const parseDepth = (pair: string, data: any): OrderBookSnapshot | null => {
+  if (!data || !Array.isArray(data.bids) || !Array.isArray(data.asks)) return null;
+  return { pair, bids: parseLevels(data.bids), asks: parseLevels(data.asks), time: Date.now() };
+};
+
+// Depth gets its own socket so opening a drawer never disturbs the index feed
+export const subscribeBinanceDepth = (pair: string, onUpdate: (book: OrderBookSnapshot) => void): (() => void) => {
+  const client = createStreamClient({
+    protocol: binanceProtocol,
+    onMessage: (message) => {
+      const book = parseDepth(pair, message?.data);
+      if (book) onUpdate(book);
+    },
+    onStatus: () => {}
+  });
+  client.setStreams([toDepthStream(pair)]);
+  return client.close;
+};
+
+export const binanceSource: MarketDataSource = {
+  id: DataSourceId.BINANCE,
+  name: 'Binance',
+  fetchUniverse: fetchAllCoins,
+  fetchPairInfo,
+  fetchTickers,
+  fetchKlines,
+  subscribeTickers: (pairs, onUpdate, onStatus) => {
+    const client = connectBinanceWS(pairs, (data) => {
+      const update = parseMiniTicker(data);
+      if (update) onUpdate(update);
+    }, onStatus);
+    return {
+      setPairs: next => client.setStreams(next.map(toMiniTickerStream)),
+      close: client.close
+    };
+  },
+  subscribeDepth: subscribeBinanceDepth
+};
@@ -0,0 +1,149 @@
+import { CandleData, Coin, DataSourceId, PairInfo, Timeframe, TickerUpdate } from '../types';
+import { MarketDataSource, TIMEFRAME_MS, chunk, fetchJson, toCoin } from './marketData';
+import { createStreamClient, StreamProtocol } from './streamClient';
+
+const BASE_API = 'https://api.bybit.com/v5';
+const WS_API = 'wss://stream.bybit.com/v5/public/spot';
+
+// Spot topics accept at most 10 args per subscribe request
+const SUBSCRIBE_BATCH = 10;
+
+interface BybitTicker {
+  symbol: string;
+  lastPrice: string;
+  price24hPcnt: string; // Fraction, e.g. "0.0123" for +1.23%
+  turnover24h: string;  // Quote volume
+}
+
+interface BybitInstrument {
+  symbol: string;
+  baseCoin: string;
+  quoteCoin: string;
+  status: string; // Trading, PreLaunch, ...
+}
+
+interface BybitResponse<T> {
+  retCode: number;
+  retMsg: string;
+  result: T;
+}
+
+const BYBIT_INTERVALS: Record<Timeframe, string> = {
+  [Timeframe.M1]: '1',
+  [Timeframe.M5]: '5',
+  [Timeframe.M15]: '15',
+  [Timeframe.H1]: '60',
+  [Timeframe.H4]: '240',
+  [Timeframe.D1]: 'D'
+};
+
+const toTopic = (pair: string) => `tickers.${pair}`;
+
+const subscriptionRequests = (op: 'subscribe' | 'unsubscribe', topics: string[]) =>
+  chunk(topics, SUBSCRIBE_BATCH).map(batch => JSON.stringify({ op, args: batch }));
+
+const bybitProtocol: StreamProtocol = {
+  url: WS_API,
+  subscribe: topics => subscriptionRequests('subscribe', topics),
+  unsubscribe: topics => subscriptionRequests('unsubscribe', topics),
+  heartbeat: () => JSON.stringify({ op: 'ping' }),
+  // Spot replies { op: 'ping', ret_msg: 'pong' }, other categories { op: 'pong' }
+  isHeartbeatReply: message => message?.ret_msg === 'pong' || message?.op === 'pong'
+};
+
+const parseTicker = (t: BybitTicker): TickerUpdate => ({
+  pair: t.symbol,
+  price: parseFloat(t.lastPrice),
+  change24h: parseFloat(t.price24hPcnt) * 100,
+  volume24h: parseFloat(t.turnover24h)
+});
+
+const fetchAllTickers = async (): Promise<Coin[]> => {
+  const body = await fetchJson<BybitResponse<{ list: BybitTicker[] }>>(`${BASE_API}/market/tickers?category=spot`);
+  if (body.retCode !== 0) throw new Error(body.retMsg);
+  return body.result.list
+    .map(parseTicker)
+    .map(u => toCoin(u.pair, u.price, u.change24h, u.volume24h ?? 0));
+};
+
+export const bybitSource: MarketDataSource = {
+  id: DataSourceId.BYBIT,
+  name: 'Bybit',
+
+  fetchUniverse: async () => {
+    try {
+      return await fetchAllTickers();
+    } catch (error) {
+      console.error("Failed to fetch Bybit universe:", error);
+      return [];
+    }
+  },
+
+  // Spot instruments don't publish a launch time, so the listing-age rule can't apply here
+  fetchPairInfo: async (): Promise<PairInfo[]> => {
+    try {
+      const body = await fetchJson<BybitResponse<{ list: BybitInstrument[] }>>(`${BASE_API}/market/instruments-info?category=spot`);
+      if (body.retCode !== 0) throw new Error(body.retMsg);
+      return body.result.list.map(i => ({
+        pair: i.symbol,
+        baseAsset: i.baseCoin,
+        quoteAsset: i.quoteCoin,
+        tradable: i.status === 'Trading',
+        listedAt: null
+      }));
+    } catch (error) {
+      console.error("Failed to fetch Bybit instruments:", error);
+      return [];
+    }
+  },
+
+  fetchTickers: async (pairs) => {
+    if (pairs.length === 0) return [];
+    try {
+      const wanted = new Set(pairs);
+      return (await fetchAllTickers()).filter(c => wanted.has(c.pair));
+    } catch (error) {
+      console.error("Failed to fetch Bybit tickers:", error);
+      return [];
+    }
+  },
+
+  fetchKlines: async (pair, timeframe, startTime, limit = 1000): Promise<CandleData[]> => {
+    // Bybit returns the newest `limit` bars in [start, end], so bound the window explicitly
+    const count = Math.min(limit, 1000);
+    const end = startTime + count * TIMEFRAME_MS[timeframe] - 1;
+    const body = await fetchJson<BybitResponse<{ list: string[][] }>>(
+      `${BASE_API}/market/kline?category=spot&symbol=${pair}&interval=${BYBIT_INTERVALS[timeframe]}&start=${startTime}&end=${end}&limit=${count}`
+    );
+    if (body.retCode !== 0) throw new Error(body.retMsg);
+
+    // Kline format: [startTime, open, high, low, close, volume, turnover], newest first
+    return body.result.list
+      .map(k => ({
+        time: Number(k[0]),
+        open: parseFloat(k[1]),
+        high: parseFloat(k[2]),
+        low: parseFloat(k[3]),
+        close: parseFloat(k[4]),
+        volume: parseFloat(k[6])
+      }))
+      .sort((a, b) => a.time - b.time);
+  },
+
+  subscribeTickers: (pairs, onUpdate, onStatus) => {
+    const client = createStreamClient({
+      protocol: bybitProtocol,
+      onMessage: (message) => {
+        // Data format: { topic: 'tickers.BTCUSDT', data: BybitTicker, ts }
+        if (typeof message?.topic !== 'string' || !message.topic.startsWith('tickers.')) return;
+        onUpdate(parseTicker(message.data));
+      },
+      onStatus
+    });
+    client.setStreams(pairs.map(toTopic));
+    return {
+      setPairs: next => client.setStreams(next.map(toTopic)),
+      close: client.close
+    };
+  }
+};
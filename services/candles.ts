@@ -0,0 +1,115 @@
+import { CandleData, Timeframe } from '../types';
+import { TIMEFRAME_MS } from './marketData';
+
+// Candle bookkeeping. The app keeps one base series (1m) fed by index ticks;
+// every higher timeframe is rolled up from it inside the index worker.
+
+export const BASE_TIMEFRAME = Timeframe.M1;
+
+// Timeframes built from the base series, whose stored candles also outlive it
+export const ROLLUP_TIMEFRAMES = Object.values(Timeframe).filter(tf => tf !== BASE_TIMEFRAME);
+
+// Buckets are aligned to UTC (epoch multiples), so 4h/1d candles open at 00:00 UTC
+export const bucketStart = (time: number, timeframe: Timeframe): number =>
+  Math.floor(time / TIMEFRAME_MS[timeframe]) * TIMEFRAME_MS[timeframe];
+
+// Apply one tick to the base series. A new bucket opens at the tick's own price,
+// not the previous close, so gaps between candles stay visible.
+export const applyTick = (
+  series: CandleData[],
+  price: number,
+  time: number,
+  maxLength: number,
+  timeframe: Timeframe = BASE_TIMEFRAME
+): CandleData[] => {
+  const bucket = bucketStart(time, timeframe);
+  const last = series[series.length - 1];
+
+  if (last && last.time === bucket) {
+    const updated = {
+      ...last,
+      high: Math.max(last.high, price),
+      low: Math.min(last.low, price),
+      close: price
+    };
+    return [...series.slice(0, -1), updated];
+  }
+
+  const next = [...series, { time: bucket, open: price, high: price, low: price, close: price }];
+  return next.length > maxLength ? next.slice(next.length - maxLength) : next;
+};
+
+// Roll a finer series up into `timeframe`: first open, max high, min low, last close.
+export const aggregateCandles = (series: CandleData[], timeframe: Timeframe): CandleData[] => {
+  const result: CandleData[] = [];
+  series.forEach(c => {
+    const bucket = bucketStart(c.time, timeframe);
+    const last = result[result.length - 1];
+    if (last && last.time === bucket) {
+      last.high = Math.max(last.high, c.high);
+      last.low = Math.min(last.low, c.low);
+      last.close = c.close;
+      if (c.volume !== undefined) last.volume = (last.volume ?? 0) + c.volume;
+    } else {
+      result.push({ time: bucket, open: c.open, high: c.high, low: c.low, close: c.close, volume: c.volume });
+    }
+  });
+  return result;
+};
+
+// Stitch live candles onto backfilled history. The bucket both sides have keeps the
+// backfilled open and the live close, so there's no gap and no jump at the seam.
+export const mergeCandles = (history: CandleData[], live: CandleData[]): CandleData[] => {
+  const merged = new Map(history.map(c => [c.time, { ...c }]));
+  live.forEach(c => {
+    const existing = merged.get(c.time);
+    merged.set(c.time, existing
+      ? { time: c.time, open: existing.open, high: Math.max(existing.high, c.high), low: Math.min(existing.low, c.low), close: c.close, volume: existing.volume ?? c.volume }
+      : { ...c });
+  });
+  return Array.from(merged.values()).sort((a, b) => a.time - b.time);
+};
+
+// Write candles maintained elsewhere into `series`, replacing by time. Updates almost
+// always touch the tail, so that path avoids a full merge.
+export const upsertCandles = (series: CandleData[], candles: CandleData[], maxLength: number): CandleData[] => {
+  let next = series;
+  candles.forEach(c => {
+    const last = next[next.length - 1];
+    if (!last || c.time > last.time) {
+      next = [...next, c];
+    } else if (c.time === last.time) {
+      next = [...next.slice(0, -1), c];
+    } else {
+      next = [...next.filter(existing => existing.time !== c.time), c].sort((a, b) => a.time - b.time);
+    }
+  });
+  return next.length > maxLength ? next.slice(-maxLength) : next;
+};
+
+// Series for any timeframe: rolled up from the base series, extended back in time
+// with archived candles of that timeframe that outlived the base series' retention.
+export const buildTimeframeSeries = (
+  base: CandleData[],
+  archive: CandleData[],
+  timeframe: Timeframe
+): CandleData[] => {
+  if (timeframe === BASE_TIMEFRAME) return base;
+  return mergeCandles(archive, aggregateCandles(base, timeframe));
+};
+
+// Re-roll only the `timeframe` bucket holding the newest base candle into `series`,
+// which buildTimeframeSeries produced. Per tick this replaces a full rebuild.
+export const rollUpLatest = (series: CandleData[], base: CandleData[], timeframe: Timeframe): CandleData[] => {
+  const latest = base[base.length - 1];
+  if (!latest) return series;
+  const bucket = bucketStart(latest.time, timeframe);
+  let from = base.length - 1;
+  while (from > 0 && base[from - 1].time >= bucket) from--;
+
+  const [rolled] = aggregateCandles(base.slice(from), timeframe);
+  const last = series[series.length - 1];
+  // An archived candle for the same bucket keeps its open, as in buildTimeframeSeries
+  const [candle] = last && last.time === bucket ? mergeCandles([last], [rolled]) : [rolled];
+  return upsertCandles(series, [candle], Infinity);
+};
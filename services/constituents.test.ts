@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { Coin, RebalanceRecord, RebalanceTrigger, WeightingMethod } from '../types';
+import { buildComposition, computeMarketWeights } from './indexEngine';
+import { buildConstituentRows } from './constituents';
+
+const coin = (symbol: string, price: number, weight: number): Coin =>
+  ({ symbol, pair: `${symbol}USDT`, price, change24h: 0, volume24h: 0, weight });
+
+const targets = { AUSDT: 0.5, BUSDT: 0.3, CUSDT: 0.2 };
+
+const record: RebalanceRecord = {
+  timestamp: 0,
+  trigger: RebalanceTrigger.SCHEDULED,
+  weighting: WeightingMethod.VOLUME,
+  level: 1000,
+  divisor: 10,
+  weights: targets
+};
+
+describe('buildConstituentRows', () => {
+  // Everything at 100 on a 10,000 notional: q_A = 50, q_B = 30, q_C = 20
+  const composition = buildComposition(targets, { AUSDT: 100, BUSDT: 100, CUSDT: 100 }, 1000, 0, 10000);
+
+  it('has no rank moves right after a rebalance', () => {
+    const coins = [coin('A', 100, 0.5), coin('B', 100, 0.3), coin('C', 100, 0.2)];
+    const weights = computeMarketWeights(composition, { AUSDT: 100, BUSDT: 100, CUSDT: 100 });
+    const rows = buildConstituentRows(coins, weights, record);
+    expect(rows.map(r => [r.pair, r.rank, r.rankChange])).toEqual([
+      ['AUSDT', 1, 0],
+      ['BUSDT', 2, 0],
+      ['CUSDT', 3, 0]
+    ]);
+  });
+
+  it('ranks by drifted market weight once prices move', () => {
+    // C triples: values 5000 / 3000 / 6000 of 14,000, so C overtakes A and B
+    const prices = { AUSDT: 100, BUSDT: 100, CUSDT: 300 };
+    const coins = [coin('A', 100, 0.5), coin('B', 100, 0.3), coin('C', 300, 0.2)];
+    const rows = buildConstituentRows(coins, computeMarketWeights(composition, prices), record);
+    expect(rows.map(r => [r.pair, r.rank, r.rankChange])).toEqual([
+      ['AUSDT', 2, -1],
+      ['BUSDT', 3, -1],
+      ['CUSDT', 1, 2]
+    ]);
+    expect(rows[2].weight).toBeCloseTo(6000 / 14000, 10);
+  });
+
+  it('leaves constituents the last rebalance did not hold unranked', () => {
+    const rows = buildConstituentRows([coin('D', 1, 1)], {}, record);
+    expect(rows[0].rank).toBe(1);
+    expect(rows[0].rankChange).toBeNull();
+  });
+});
@@ -0,0 +1,90 @@
+import { Coin, ConstituentColumn, ConstituentFilter, ConstituentRow, ConstituentSort, ConstituentSortKey, RebalanceRecord } from '../types';
+import { CONSTITUENT_COLUMNS_STORAGE_KEY, DEFAULT_CONSTITUENT_COLUMNS } from '../constants';
+import { PriceSnapshot } from './attribution';
+import { readJson } from './storage';
+
+// Row model of the constituents table: ranks by current weight, rank moves against
+// the last rebalance, sorting, filtering and the per-row price sparklines.
+
+export const loadConstituentColumns = (): ConstituentColumn[] => {
+  const stored = readJson<string[] | null>(CONSTITUENT_COLUMNS_STORAGE_KEY, null);
+  if (!Array.isArray(stored)) return DEFAULT_CONSTITUENT_COLUMNS;
+  const known = Object.values(ConstituentColumn) as string[];
+  return stored.filter((c): c is ConstituentColumn => known.includes(c));
+};
+
+export const saveConstituentColumns = (columns: ConstituentColumn[]) => {
+  localStorage.setItem(CONSTITUENT_COLUMNS_STORAGE_KEY, JSON.stringify(columns));
+};
+
+// pair -> 1-based position, heaviest first
+const rankByWeight = (weights: Record<string, number>): Record<string, number> => {
+  const ranks: Record<string, number> = {};
+  Object.entries(weights)
+    .sort(([, a], [, b]) => b - a)
+    .forEach(([pair], idx) => { ranks[pair] = idx + 1; });
+  return ranks;
+};
+
+// `marketWeights` are the holdings' drifted weights (quantity x live price / basket
+// value); `Coin.weight` is still the last rebalance's target. Ranks move as prices
+// drift away from those targets, so every move is 0 right after a rebalance.
+export const buildConstituentRows = (
+  coins: Coin[],
+  marketWeights: Record<string, number>,
+  lastRebalance: RebalanceRecord | null
+): ConstituentRow[] => {
+  const weights = Object.fromEntries(coins.map(c => [c.pair, marketWeights[c.pair] ?? c.weight]));
+  const current = rankByWeight(weights);
+  const previous = lastRebalance ? rankByWeight(lastRebalance.weights) : {};
+  return coins.map(coin => {
+    const before = previous[coin.pair];
+    return {
+      ...coin,
+      weight: weights[coin.pair],
+      rank: current[coin.pair],
+      rankChange: before === undefined ? null : before - current[coin.pair]
+    };
+  });
+};
+
+const sortValue = (row: ConstituentRow, key: Exclude<ConstituentSortKey, 'symbol'>): number => {
+  switch (key) {
+    case 'rank': return row.rank;
+    case 'price': return row.price;
+    case 'change': return row.change24h;
+    case 'weight': return row.weight;
+    case 'volume': return row.volume24h;
+    case 'rankChange': return row.rankChange ?? -Infinity;
+  }
+};
+
+export const sortConstituentRows = (rows: ConstituentRow[], sort: ConstituentSort): ConstituentRow[] => {
+  const direction = sort.descending ? -1 : 1;
+  return [...rows].sort((a, b) => {
+    const key = sort.key;
+    const order = key === 'symbol' ? a.symbol.localeCompare(b.symbol) : sortValue(a, key) - sortValue(b, key);
+    // Ties keep the weight order
+    return order * direction || a.rank - b.rank;
+  });
+};
+
+export const filterConstituentRows = (rows: ConstituentRow[], filter: ConstituentFilter, search: string): ConstituentRow[] => {
+  const query = search.trim().toUpperCase();
+  return rows.filter(row => {
+    if (filter === ConstituentFilter.GAINERS && row.change24h <= 0) return false;
+    if (filter === ConstituentFilter.LOSERS && row.change24h >= 0) return false;
+    return query === '' || row.symbol.includes(query) || row.pair.includes(query);
+  });
+};
+
+// Minute prices over the snapshot window, ending at the live price
+export const sparklinePrices = (history: PriceSnapshot[], pair: string, current: number): number[] => {
+  const prices: number[] = [];
+  history.forEach(s => {
+    const price = s.prices[pair];
+    if (price !== undefined) prices.push(price);
+  });
+  prices.push(current);
+  return prices;
+};
@@ -0,0 +1,117 @@
+import { CustomIndexDefinition, IndexComposition, RebalanceRecord, RebalanceTrigger, WeightingMethod } from '../types';
+import { CUSTOM_INDEX_STORAGE_KEY, CUSTOM_LOG_LIMIT, QUOTE_ASSETS } from '../constants';
+import { MarketDataSource, quoteAssetOf } from './marketData';
+import { applyWeighting, WEIGHTING_STRATEGIES } from './weighting';
+import { rebalanceFromSource } from './rebalance';
+import { downloadBlob } from './exports';
+import { readJson } from './storage';
+
+// User-defined indices. Definitions, each basket's composition and its rebalance log
+// live in localStorage; the candles shown while one is on screen are rebuilt from klines.
+
+const compositionKey = (id: string) => `${CUSTOM_INDEX_STORAGE_KEY}.${id}.composition`;
+const logKey = (id: string) => `${CUSTOM_INDEX_STORAGE_KEY}.${id}.rebalances`;
+
+export const loadCustomIndices = (): CustomIndexDefinition[] => readJson(CUSTOM_INDEX_STORAGE_KEY, []);
+
+export const saveCustomIndices = (definitions: CustomIndexDefinition[]) => {
+  localStorage.setItem(CUSTOM_INDEX_STORAGE_KEY, JSON.stringify(definitions));
+};
+
+export const loadCustomComposition = (id: string): IndexComposition | null => readJson(compositionKey(id), null);
+
+export const saveCustomComposition = (id: string, composition: IndexComposition) => {
+  localStorage.setItem(compositionKey(id), JSON.stringify(composition));
+};
+
+export const loadCustomRebalanceLog = (id: string): RebalanceRecord[] => readJson(logKey(id), []);
+
+// Appends, keeping the newest CUSTOM_LOG_LIMIT records. Returns the new log.
+export const appendCustomRebalanceRecord = (id: string, log: RebalanceRecord[], record: RebalanceRecord): RebalanceRecord[] => {
+  const next = [...log, record].slice(-CUSTOM_LOG_LIMIT);
+  localStorage.setItem(logKey(id), JSON.stringify(next));
+  return next;
+};
+
+// Drop the basket and its history, e.g. when the base date or value changes
+export const clearCustomIndexData = (id: string) => {
+  localStorage.removeItem(compositionKey(id));
+  localStorage.removeItem(logKey(id));
+};
+
+export const createCustomIndexId = () => `idx-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// "btc, eth sol/usdc" -> ['BTCUSDT', 'ETHUSDT', 'SOLUSDC']. Bare symbols get the default quote.
+export const parseSymbolList = (text: string, defaultQuote = QUOTE_ASSETS[0]): string[] => {
+  const pairs = text
+    .split(/[\s,;]+/)
+    .map(s => s.trim().toUpperCase().replace(/[-/]/g, ''))
+    .filter(s => s.length > 0)
+    .map(s => (quoteAssetOf(s) ? s : `${s}${defaultQuote}`));
+  return Array.from(new Set(pairs));
+};
+
+const formatError = (message: string) => new Error(`Invalid index definition: ${message}`);
+
+const validateDefinition = (raw: any): CustomIndexDefinition => {
+  if (!raw || typeof raw !== 'object') throw formatError('not an object');
+  if (typeof raw.name !== 'string' || raw.name.trim() === '') throw formatError('missing name');
+  if (!Array.isArray(raw.pairs) || raw.pairs.length === 0 || !raw.pairs.every((p: unknown) => typeof p === 'string')) {
+    throw formatError(`"${raw.name}" has no pairs`);
+  }
+  if (!Object.values(WeightingMethod).includes(raw.weighting)) throw formatError(`"${raw.name}" has unknown weighting ${raw.weighting}`);
+  if (!(raw.baseValue > 0)) throw formatError(`"${raw.name}" needs a positive base value`);
+  if (!(raw.baseDate > 0)) throw formatError(`"${raw.name}" needs a base date`);
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : createCustomIndexId(),
+    name: raw.name.trim(),
+    pairs: raw.pairs.map((p: string) => p.toUpperCase()),
+    weighting: raw.weighting,
+    baseValue: Number(raw.baseValue),
+    baseDate: Number(raw.baseDate)
+  };
+};
+
+// Accepts a single definition or an array of them
+export const parseCustomIndices = (text: string): CustomIndexDefinition[] => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw formatError('invalid JSON');
+  }
+  return (Array.isArray(parsed) ? parsed : [parsed]).map(validateDefinition);
+};
+
+export const downloadCustomIndices = (definitions: CustomIndexDefinition[], filename = 'crypto50-indices.json') => {
+  const blob = new Blob([JSON.stringify(definitions, null, 2)], { type: 'application/json' });
+  downloadBlob(blob, filename);
+};
+
+// Rebalance a basket that isn't on screen and persist the result.
+// Returns the pairs the source had no price for; they are left out of the basket.
+export const rebalanceCustomIndex = async (
+  source: MarketDataSource,
+  definition: CustomIndexDefinition,
+  trigger: RebalanceTrigger,
+  timestamp: number
+): Promise<string[]> => {
+  const coins = await source.fetchTickers(definition.pairs);
+  if (coins.length === 0) throw new Error(`No prices for ${definition.name}`);
+
+  const weighted = applyWeighting(coins, WEIGHTING_STRATEGIES[definition.weighting]);
+  const { composition, record } = await rebalanceFromSource(
+    source,
+    loadCustomComposition(definition.id),
+    weighted,
+    definition.weighting,
+    trigger,
+    timestamp,
+    { timestamp: definition.baseDate, value: definition.baseValue }
+  );
+  saveCustomComposition(definition.id, composition);
+  appendCustomRebalanceRecord(definition.id, loadCustomRebalanceLog(definition.id), record);
+
+  const priced = new Set(coins.map(c => c.pair));
+  return definition.pairs.filter(p => !priced.has(p));
+};
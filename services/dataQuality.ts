@@ -0,0 +1,60 @@
+import { DataHealth, IndexQuality } from '../types';
+import {
+  DEGRADED_STALE_WEIGHT,
+  HALTED_AFTER_MS,
+  OUTLIER_CONFIRMATIONS,
+  OUTLIER_MIN_SAMPLES,
+  OUTLIER_THRESHOLD,
+  OUTLIER_WINDOW,
+  STALE_AFTER_MS
+} from '../constants';
+import { median } from './marketData';
+
+// Screens every ticker print before it reaches the index. A print far from the
+// pair's rolling median is held back; if the next few prints agree with it, the
+// market really moved and the window re-bases on them. Rejected prints don't
+// count as updates, so a feed that only sends garbage goes stale.
+
+export interface PairQuality {
+  recent: number[];            // Accepted prices, oldest first
+  suspects: number[];          // Consecutive rejected prints
+  lastUpdateAt: number | null; // Last accepted print; null until the pair is first seen
+}
+
+export const createPairQuality = (): PairQuality => ({ recent: [], suspects: [], lastUpdateAt: null });
+
+const deviates = (price: number, reference: number[]) =>
+  Math.abs(price / median(reference) - 1) > OUTLIER_THRESHOLD;
+
+export const screenPrice = (quality: PairQuality, price: number, time: number): { quality: PairQuality; accepted: boolean } => {
+  if (!isFinite(price) || price <= 0) return { quality, accepted: false };
+
+  if (quality.recent.length < OUTLIER_MIN_SAMPLES || !deviates(price, quality.recent)) {
+    return {
+      quality: { recent: [...quality.recent, price].slice(-OUTLIER_WINDOW), suspects: [], lastUpdateAt: time },
+      accepted: true
+    };
+  }
+
+  const suspects = [...quality.suspects, price].slice(-OUTLIER_CONFIRMATIONS);
+  if (suspects.length === OUTLIER_CONFIRMATIONS && !suspects.some(p => deviates(p, suspects))) {
+    return { quality: { recent: suspects, suspects: [], lastUpdateAt: time }, accepted: true };
+  }
+  return { quality: { ...quality, suspects }, accepted: false };
+};
+
+export const assessHealth = (quality: PairQuality, now: number): DataHealth => {
+  const silentFor = quality.lastUpdateAt === null ? 0 : now - quality.lastUpdateAt;
+  if (silentFor > HALTED_AFTER_MS) return DataHealth.HALTED;
+  if (silentFor > STALE_AFTER_MS) return DataHealth.STALE;
+  if (quality.suspects.length > 0) return DataHealth.OUTLIER;
+  return DataHealth.OK;
+};
+
+// `weights` are current basket weights (0-1); pairs priced from a stale or halted feed count
+export const assessIndexQuality = (health: Record<string, DataHealth>, weights: Record<string, number>): IndexQuality => {
+  const staleWeight = Object.keys(health)
+    .filter(pair => health[pair] === DataHealth.STALE || health[pair] === DataHealth.HALTED)
+    .reduce((acc, pair) => acc + (weights[pair] ?? 0), 0);
+  return { health, staleWeight, degraded: staleWeight > DEGRADED_STALE_WEIGHT };
+};
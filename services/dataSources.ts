@@ -0,0 +1,136 @@
+import { CandleData, Coin, ConnectionState, ConnectionStatus, DataSourceId, TickerUpdate } from '../types';
+import { MarketDataSource, median } from './marketData';
+import { binanceSource } from './binanceService';
+import { okxSource } from './okxService';
+import { bybitSource } from './bybitService';
+
+// Quotes older than this are ignored when taking the cross-exchange median
+const COMPOSITE_QUOTE_TTL_MS = 60000;
+
+const settledValues = async <T>(promises: Promise<T>[]): Promise<Awaited<T>[]> =>
+  (await Promise.allSettled(promises))
+    .filter((r): r is PromiseFulfilledResult<Awaited<T>> => r.status === 'fulfilled')
+    .map(r => r.value);
+
+// Median price/change per pair across every source that lists it.
+// Volume comes from the first source in priority order, so ranking stays stable.
+const mergeCoins = (perSource: Coin[][]): Coin[] => {
+  const groups = new Map<string, Coin[]>();
+  perSource.forEach(coins => coins.forEach(c => {
+    groups.set(c.pair, [...(groups.get(c.pair) ?? []), c]);
+  }));
+
+  return Array.from(groups.values()).map(group => ({
+    ...group[0],
+    price: median(group.map(c => c.price)),
+    change24h: median(group.map(c => c.change24h))
+  }));
+};
+
+const mergeCandles = (perSource: CandleData[][]): CandleData[] => {
+  const buckets = new Map<number, CandleData[]>();
+  perSource.forEach(candles => candles.forEach(c => {
+    buckets.set(c.time, [...(buckets.get(c.time) ?? []), c]);
+  }));
+
+  return Array.from(buckets.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([time, group]) => ({
+      time,
+      open: median(group.map(c => c.open)),
+      high: median(group.map(c => c.high)),
+      low: median(group.map(c => c.low)),
+      close: median(group.map(c => c.close))
+    }));
+};
+
+// Healthiest state wins: the composite is online while any exchange is feeding it
+const STATE_PRIORITY: ConnectionState[] = [
+  ConnectionState.OPEN,
+  ConnectionState.STALE,
+  ConnectionState.CONNECTING,
+  ConnectionState.RECONNECTING,
+  ConnectionState.IDLE,
+  ConnectionState.CLOSED
+];
+
+const combineStatuses = (statuses: ConnectionStatus[]): ConnectionStatus => {
+  const latencies = statuses.map(s => s.latencyMs).filter((l): l is number => l !== null);
+  const lastMessages = statuses.map(s => s.lastMessageAt).filter((t): t is number => t !== null);
+  return {
+    state: STATE_PRIORITY.find(state => statuses.some(s => s.state === state)) ?? ConnectionState.IDLE,
+    latencyMs: latencies.length > 0 ? Math.min(...latencies) : null,
+    lastMessageAt: lastMessages.length > 0 ? Math.max(...lastMessages) : null,
+    reconnectAttempt: Math.min(...statuses.map(s => s.reconnectAttempt))
+  };
+};
+
+// Median-of-exchanges feed. The first source defines the universe.
+export const createCompositeSource = (sources: MarketDataSource[]): MarketDataSource => {
+  const fetchTickers = async (pairs: string[]) =>
+    mergeCoins(await settledValues(sources.map(s => s.fetchTickers(pairs))));
+
+  return {
+    id: DataSourceId.COMPOSITE,
+    name: 'Composite',
+
+    fetchUniverse: async () => mergeCoins(await settledValues(sources.map(s => s.fetchUniverse()))),
+
+    // Listing metadata comes from the first source that answers, so it alone defines eligibility
+    fetchPairInfo: async () => {
+      for (const source of sources) {
+        const info = await source.fetchPairInfo();
+        if (info.length > 0) return info;
+      }
+      return [];
+    },
+
+    fetchTickers,
+
+    fetchKlines: async (pair, timeframe, startTime, limit) =>
+      mergeCandles(await settledValues(sources.map(s => s.fetchKlines(pair, timeframe, startTime, limit)))),
+
+    subscribeTickers: (pairs, onUpdate, onStatus) => {
+      // pair -> source id -> latest quote
+      const quotes = new Map<string, Map<DataSourceId, TickerUpdate & { receivedAt: number }>>();
+      const statuses = new Map<DataSourceId, ConnectionStatus>();
+
+      const subscriptions = sources.map(source => source.subscribeTickers(
+        pairs,
+        (update) => {
+          const now = Date.now();
+          const perSource = quotes.get(update.pair) ?? new Map();
+          perSource.set(source.id, { ...update, receivedAt: now });
+          quotes.set(update.pair, perSource);
+
+          const fresh = Array.from(perSource.values()).filter(q => now - q.receivedAt <= COMPOSITE_QUOTE_TTL_MS);
+          onUpdate({
+            pair: update.pair,
+            price: median(fresh.map(q => q.price)),
+            change24h: median(fresh.map(q => q.change24h))
+            // Volumes differ per venue, so the composite leaves them alone
+          });
+        },
+        (status) => {
+          statuses.set(source.id, status);
+          onStatus(combineStatuses(Array.from(statuses.values())));
+        }
+      ));
+
+      return {
+        setPairs: next => subscriptions.forEach(s => s.setPairs(next)),
+        close: () => subscriptions.forEach(s => s.close())
+      };
+    },
+
+    // Books don't median meaningfully, so show the first venue that streams one
+    subscribeDepth: sources.find(s => s.subscribeDepth)?.subscribeDepth
+  };
+};
+
+export const DATA_SOURCES: Record<DataSourceId, MarketDataSource> = {
+  [DataSourceId.BINANCE]: binanceSource,
+  [DataSourceId.OKX]: okxSource,
+  [DataSourceId.BYBIT]: bybitSource,
+  [DataSourceId.COMPOSITE]: createCompositeSource([binanceSource, okxSource, bybitSource])
+};
@@ -0,0 +1,154 @@
+import { CandleData, Coin, Lang, RebalanceRecord, Timeframe, Translation } from '../types';
+import { LOCALES } from '../constants';
+import { baseAssetOf } from './marketData';
+
+// Report downloads. CSV numbers and dates follow the active language (fields are
+// quoted where a separator would clash); JSON keeps raw numbers and epoch-ms times
+// so it can be read back by code.
+
+const PNG_HEADER_HEIGHT = 52;
+const PNG_BACKGROUND = '#1E2329'; // binance-black
+const PNG_TITLE_COLOR = '#EAECEF';
+const PNG_SUBTITLE_COLOR = '#848E9C';
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+// "Crypto50 ETF Index" -> "crypto50-etf-index", for file names
+const slugify = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'index';
+
+export const exportFilename = (name: string, suffix: string, extension: string) =>
+  `${slugify(name)}-${suffix}-${new Date().toISOString().replace(/[:.]/g, '-')}.${extension}`;
+
+const escapeCsv = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// Leading BOM so spreadsheet apps read the (possibly Chinese) headers as UTF-8
+export const toCsv = (rows: string[][]): string =>
+  '\uFEFF' + rows.map(row => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+
+const formatNumber = (lang: Lang, value: number, maxFractionDigits: number) =>
+  new Intl.NumberFormat(LOCALES[lang], { maximumFractionDigits: maxFractionDigits }).format(value);
+
+const formatPrice = (lang: Lang, price: number) => formatNumber(lang, price, price < 1 ? 8 : 4);
+
+const formatTime = (lang: Lang, time: number) => new Date(time).toLocaleString(LOCALES[lang]);
+
+const downloadCsv = (rows: string[][], filename: string) =>
+  downloadBlob(new Blob([toCsv(rows)], { type: 'text/csv;charset=utf-8' }), filename);
+
+export const exportConstituentsCsv = (coins: Coin[], indexName: string, t: Translation, lang: Lang) => {
+  const rows = [
+    [t.symbol, t.lastPrice, `${t.change} (%)`, `${t.weight} (%)`, t.volume],
+    ...coins.map(c => [
+      c.symbol,
+      formatPrice(lang, c.price),
+      formatNumber(lang, c.change24h, 2),
+      formatNumber(lang, c.weight * 100, 4),
+      formatNumber(lang, c.volume24h, 0)
+    ])
+  ];
+  downloadCsv(rows, exportFilename(indexName, 'constituents', 'csv'));
+};
+
+export const exportCandlesCsv = (candles: CandleData[], timeframe: Timeframe, indexName: string, t: Translation, lang: Lang) => {
+  const rows = [
+    [t.time, t.open, t.candleHigh, t.candleLow, t.close, t.volume],
+    ...candles.map(c => [
+      formatTime(lang, c.time),
+      formatNumber(lang, c.open, 4),
+      formatNumber(lang, c.high, 4),
+      formatNumber(lang, c.low, 4),
+      formatNumber(lang, c.close, 4),
+      c.volume !== undefined ? formatNumber(lang, c.volume, 0) : ''
+    ])
+  ];
+  downloadCsv(rows, exportFilename(indexName, `candles-${timeframe}`, 'csv'));
+};
+
+export const exportCandlesJson = (candles: CandleData[], timeframe: Timeframe, indexName: string) => {
+  const payload = { index: indexName, timeframe, exportedAt: Date.now(), candles };
+  downloadBlob(
+    new Blob([JSON.stringify(payload, null, 2)], { type: 'application/json' }),
+    exportFilename(indexName, `candles-${timeframe}`, 'json')
+  );
+};
+
+// Basket as it stood right after `record`. Records migrated from the old log have
+// weights only, so quantity and reference price stay blank for them.
+export const exportCompositionCsv = (record: RebalanceRecord, indexName: string, t: Translation, lang: Lang) => {
+  const composition = record.composition;
+  const pairs = Object.keys(record.weights).sort((a, b) => record.weights[b] - record.weights[a]);
+  const rows = [
+    [t.time, formatTime(lang, record.timestamp)],
+    [t.weighting, t.weightingMethods[record.weighting]],
+    [t.price, formatNumber(lang, record.level, 4)],
+    [t.divisor, formatNumber(lang, record.divisor, 8)],
+    [],
+    [t.symbol, `${t.weight} (%)`, t.quantity, t.referencePrice],
+    ...pairs.map(pair => [
+      baseAssetOf(pair),
+      formatNumber(lang, record.weights[pair] * 100, 4),
+      composition?.quantities[pair] !== undefined ? formatNumber(lang, composition.quantities[pair], 8) : '',
+      composition?.referencePrices[pair] !== undefined ? formatPrice(lang, composition.referencePrices[pair]) : ''
+    ])
+  ];
+  downloadCsv(rows, exportFilename(indexName, `composition-${new Date(record.timestamp).toISOString().slice(0, 10)}`, 'csv'));
+};
+
+const loadSvgImage = (svg: SVGSVGElement, width: number, height: number): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const clone = svg.cloneNode(true) as SVGSVGElement;
+    clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+    clone.setAttribute('width', String(width));
+    clone.setAttribute('height', String(height));
+    const blob = new Blob([new XMLSerializer().serializeToString(clone)], { type: 'image/svg+xml;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('Failed to render chart SVG'));
+    };
+    image.src = url;
+  });
+
+// Rasterize every chart pane inside `container` under a title/subtitle header
+export const exportChartPng = async (container: HTMLElement, title: string, subtitle: string, filename: string) => {
+  const bounds = container.getBoundingClientRect();
+  const scale = window.devicePixelRatio || 1;
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bounds.width * scale);
+  canvas.height = Math.round((bounds.height + PNG_HEADER_HEIGHT) * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+
+  ctx.scale(scale, scale);
+  ctx.fillStyle = PNG_BACKGROUND;
+  ctx.fillRect(0, 0, bounds.width, bounds.height + PNG_HEADER_HEIGHT);
+  ctx.fillStyle = PNG_TITLE_COLOR;
+  ctx.font = '600 16px Inter, sans-serif';
+  ctx.fillText(title, 16, 24);
+  ctx.fillStyle = PNG_SUBTITLE_COLOR;
+  ctx.font = '12px Inter, sans-serif';
+  ctx.fillText(subtitle, 16, 42);
+
+  const panes = Array.from(container.querySelectorAll<SVGSVGElement>('svg.recharts-surface'));
+  for (const svg of panes) {
+    const rect = svg.getBoundingClientRect();
+    const image = await loadSvgImage(svg, rect.width, rect.height);
+    ctx.drawImage(image, rect.left - bounds.left, rect.top - bounds.top + PNG_HEADER_HEIGHT, rect.width, rect.height);
+  }
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error('PNG encoding failed');
+  downloadBlob(blob, filename);
+};
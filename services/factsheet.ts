@@ -0,0 +1,78 @@
+import { CandleData, Coin, DailyMove, FactsheetPeriod, FactsheetStats, Sector, SectorWeight, Timeframe } from '../types';
+import { FACTSHEET_MIN_DAYS, SECTOR_BY_ASSET } from '../constants';
+import { TIMEFRAME_MS } from './marketData';
+import { annualizedVolatility, periodReturns } from './performance';
+import { computeDrawdown, sharpeRatio } from './risk';
+
+// Figures for the methodology/factsheet view. Everything is derived from the
+// configuration and data on screen, so the document can't drift from the engine.
+
+const DAY_MS = TIMEFRAME_MS[Timeframe.D1];
+
+export const sectorOf = (symbol: string): Sector => SECTOR_BY_ASSET[symbol] ?? Sector.OTHER;
+
+// Heaviest sector first
+export const sectorBreakdown = (coins: Coin[]): SectorWeight[] => {
+  const bySector = new Map<Sector, SectorWeight>();
+  coins.forEach(c => {
+    const sector = sectorOf(c.symbol);
+    const entry = bySector.get(sector) ?? { sector, weight: 0, count: 0 };
+    entry.weight += c.weight;
+    entry.count += 1;
+    bySector.set(sector, entry);
+  });
+  return Array.from(bySector.values()).sort((a, b) => b.weight - a.weight);
+};
+
+export const topHoldings = (coins: Coin[], count: number): Coin[] =>
+  [...coins].sort((a, b) => b.weight - a.weight).slice(0, count);
+
+// Start of each trailing period; YTD starts at 00:00 UTC on 1 January
+const periodStart = (period: Exclude<FactsheetPeriod, FactsheetPeriod.INCEPTION>, now: number): number => {
+  switch (period) {
+    case FactsheetPeriod.ONE_WEEK: return now - 7 * DAY_MS;
+    case FactsheetPeriod.ONE_MONTH: return now - 30 * DAY_MS;
+    case FactsheetPeriod.THREE_MONTHS: return now - 90 * DAY_MS;
+    case FactsheetPeriod.YTD: return Date.UTC(new Date(now).getUTCFullYear(), 0, 1);
+    case FactsheetPeriod.ONE_YEAR: return now - 365 * DAY_MS;
+  }
+};
+
+// Close of the last day completed by `time`, or null when the history starts later
+const closeAt = (daily: CandleData[], time: number): number | null => {
+  let close: number | null = null;
+  for (const c of daily) {
+    if (c.time + DAY_MS > time) break;
+    close = c.close;
+  }
+  return close;
+};
+
+// `daily` are the index's daily candles, oldest first; `level` is the live value.
+// Inception is measured from the base value, so it is available even without history.
+export const computeFactsheetStats = (daily: CandleData[], level: number, baseValue: number, now: number): FactsheetStats => {
+  const returns = {} as Record<FactsheetPeriod, number | null>;
+  Object.values(FactsheetPeriod).forEach(period => {
+    if (period === FactsheetPeriod.INCEPTION) {
+      returns[period] = baseValue > 0 ? level / baseValue - 1 : null;
+      return;
+    }
+    const start = closeAt(daily, periodStart(period, now));
+    returns[period] = start ? level / start - 1 : null;
+  });
+
+  const dailyReturns = periodReturns(daily.map(c => c.close));
+  const moves: DailyMove[] = dailyReturns.map((r, i) => ({ time: daily[i + 1].time, return: r }));
+  const enough = dailyReturns.length >= FACTSHEET_MIN_DAYS;
+  const byReturn = [...moves].sort((a, b) => a.return - b.return);
+
+  return {
+    returns,
+    historyStart: daily.length > 0 ? daily[0].time : null,
+    volatility: enough ? annualizedVolatility(dailyReturns, DAY_MS) : NaN,
+    maxDrawdown: computeDrawdown(daily)?.maxDrawdown ?? NaN,
+    sharpe: enough ? sharpeRatio(dailyReturns, DAY_MS) : NaN,
+    bestDay: byReturn.length > 0 ? byReturn[byReturn.length - 1] : null,
+    worstDay: byReturn.length > 0 ? byReturn[0] : null
+  };
+};
@@ -0,0 +1,61 @@
+import { CandleData, FundFlow, FundSettings, NavPoint } from '../types';
+import { DEFAULT_FUND_SETTINGS, FUND_INCEPTION_TIMESTAMP, FUND_STORAGE_KEY, PREMIUM_PERSISTENCE } from '../constants';
+import { readSettings } from './storage';
+
+// Fund layer over the index. One share starts out worth one index point on the
+// inception date; the management fee is then taken out of NAV once a day.
+// There is no real exchange listing, so the secondary-market price is simulated:
+// the premium drifts back toward zero with daily noise, and authorized
+// participants create or redeem shares whenever it reaches the band, which pins
+// it at the band edge.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const loadFundSettings = (): FundSettings => readSettings(FUND_STORAGE_KEY, DEFAULT_FUND_SETTINGS);
+
+export const saveFundSettings = (settings: FundSettings) => {
+  localStorage.setItem(FUND_STORAGE_KEY, JSON.stringify(settings));
+};
+
+// Share of the index value left after the fee accrued over the full days since inception
+export const feeFactor = (time: number, managementFeePct: number): number => {
+  const days = Math.max(0, Math.floor((time - FUND_INCEPTION_TIMESTAMP) / DAY_MS));
+  return Math.pow(1 - managementFeePct / 100 / 365, days);
+};
+
+export const computeNav = (level: number, time: number, managementFeePct: number): number =>
+  level * feeFactor(time, managementFeePct);
+
+// Deterministic uniform draw in (0, 1) per day and stream, so a day's premium doesn't
+// change between renders. Separate streams give the independent draws Box-Muller needs.
+const uniformAt = (time: number, stream: number): number => {
+  let x = Math.floor(time / DAY_MS) | 0;
+  x = Math.imul(x ^ (x >>> 16), 0x45d9f3b) ^ Math.imul(stream + 1, 0x9e3779b9);
+  x = Math.imul(x ^ (x >>> 16), 0x45d9f3b);
+  x = Math.imul(x ^ (x >>> 16), 0x45d9f3b);
+  x ^= x >>> 16;
+  return ((x >>> 0) + 0.5) / 4294967296;
+};
+
+// Standard normal via Box-Muller on two draws for the day
+const normalAt = (time: number): number =>
+  Math.sqrt(-2 * Math.log(uniformAt(time, 0))) * Math.cos(2 * Math.PI * uniformAt(time, 1));
+
+// Daily NAV, market price and premium from daily index candles, oldest first
+export const buildNavHistory = (daily: CandleData[], settings: FundSettings): NavPoint[] => {
+  const band = settings.bandBps / 10000;
+  let premium = 0;
+  return daily.map(candle => {
+    premium = PREMIUM_PERSISTENCE * premium + (settings.premiumVolBps / 10000) * normalAt(candle.time);
+    let flow = FundFlow.NONE;
+    if (premium >= band) {
+      premium = band;
+      flow = FundFlow.CREATION;
+    } else if (premium <= -band) {
+      premium = -band;
+      flow = FundFlow.REDEMPTION;
+    }
+    const nav = computeNav(candle.close, candle.time, settings.managementFeePct);
+    return { time: candle.time, level: candle.close, nav, marketPrice: nav * (1 + premium), premium, flow };
+  });
+};
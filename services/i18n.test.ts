@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { Lang } from '../types';
+import { createI18n } from './i18n';
+
+describe('formatPrice', () => {
+  const { formatPrice } = createI18n(Lang.EN);
+
+  it('uses 2 decimals from 1 up', () => {
+    expect(formatPrice(96543.219)).toBe('96,543.22');
+    expect(formatPrice(1)).toBe('1.00');
+  });
+
+  it('keeps 4 significant digits on sub-unit prices', () => {
+    expect(formatPrice(0.5)).toBe('0.5000');
+    expect(formatPrice(0.001)).toBe('0.001000');
+    expect(formatPrice(0.0000123456)).toBe('0.00001235');
+  });
+});
@@ -0,0 +1,121 @@
+import { Lang, PluralForms, Translation } from '../types';
+import { LANG_STORAGE_KEY, LOCALES, TRANSLATIONS } from '../constants';
+
+// Message lookup and locale-aware formatting. Messages live in locales/*, one
+// Translation per language, so a missing or misspelled key is a compile error.
+// Placeholders are written {name}; plural messages pick their form with
+// Intl.PluralRules and always receive {count}.
+
+export type MessageParams = Record<string, string | number>;
+
+// Keys whose message is a single string / a plural table
+export type MessageKey = { [K in keyof Translation]: Translation[K] extends string ? K : never }[keyof Translation];
+export type PluralKey = { [K in keyof Translation]: Translation[K] extends PluralForms ? K : never }[keyof Translation];
+
+export interface I18n {
+  lang: Lang;
+  locale: string;
+  t: Translation;
+  message: (key: MessageKey, params?: MessageParams) => string;
+  plural: (key: PluralKey, count: number, params?: MessageParams) => string;
+  interpolate: (template: string, params: MessageParams) => string;
+  formatNumber: (value: number, fractionDigits?: number, signed?: boolean) => string;
+  formatPrice: (value: number) => string;               // 2 decimals; below 1, enough for 4 significant digits
+  formatPercent: (value: number, signed?: boolean) => string;  // `value` is a fraction: 0.0123 -> 1.23%
+  formatCompact: (value: number) => string;              // 1.2M, 120萬, ...
+  formatDateTime: (time: number) => string;
+  formatDate: (time: number) => string;
+  formatTime: (time: number, withZone?: boolean) => string;  // withZone: hh:mm plus the zone name, e.g. 00:00 GMT+8
+}
+
+// Closest supported language for a BCP 47 tag. Hant/TW/HK/MO read Traditional Chinese.
+const matchLang = (tag: string): Lang | null => {
+  const lower = tag.toLowerCase();
+  if (lower.startsWith('zh')) return /hant|-tw|-hk|-mo/.test(lower) ? Lang.TW : Lang.CN;
+  if (lower.startsWith('ja')) return Lang.JA;
+  if (lower.startsWith('ko')) return Lang.KO;
+  if (lower.startsWith('en')) return Lang.EN;
+  return null;
+};
+
+export const detectLang = (): Lang => {
+  const languages = typeof navigator === 'undefined' ? [] : navigator.languages ?? [navigator.language];
+  for (const tag of languages) {
+    const lang = matchLang(tag);
+    if (lang) return lang;
+  }
+  return Lang.EN;
+};
+
+// Saved choice first, then the browser's preferences
+export const loadLang = (): Lang => {
+  try {
+    const saved = localStorage.getItem(LANG_STORAGE_KEY);
+    if (saved && (Object.values(Lang) as string[]).includes(saved)) return saved as Lang;
+  } catch {
+    // Storage unavailable: fall through to detection
+  }
+  return detectLang();
+};
+
+export const saveLang = (lang: Lang) => {
+  localStorage.setItem(LANG_STORAGE_KEY, lang);
+};
+
+export const createI18n = (lang: Lang): I18n => {
+  const locale = LOCALES[lang];
+  const t = TRANSLATIONS[lang];
+  const pluralRules = new Intl.PluralRules(locale);
+  const integer = new Intl.NumberFormat(locale);
+  const compact = new Intl.NumberFormat(locale, { notation: 'compact', compactDisplay: 'short', maximumFractionDigits: 2 });
+  const percent = new Intl.NumberFormat(locale, { style: 'percent', minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  const signedPercent = new Intl.NumberFormat(locale, { style: 'percent', minimumFractionDigits: 2, maximumFractionDigits: 2, signDisplay: 'exceptZero' });
+  const price = new Intl.NumberFormat(locale, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  // Sub-unit prices keep 4 significant digits (0.1234, 0.00001234), never fewer than 4 decimals
+  const smallPrices = new Map<number, Intl.NumberFormat>();
+  const smallPrice = (value: number) => {
+    const digits = Math.min(12, Math.max(4, Math.ceil(-Math.log10(Math.abs(value))) + 3));
+    let format = smallPrices.get(digits);
+    if (!format) {
+      format = new Intl.NumberFormat(locale, { minimumFractionDigits: digits, maximumFractionDigits: digits });
+      smallPrices.set(digits, format);
+    }
+    return format.format(value);
+  };
+  const dateTime = new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeStyle: 'medium' });
+  const date = new Intl.DateTimeFormat(locale, { dateStyle: 'medium' });
+  const time = new Intl.DateTimeFormat(locale, { timeStyle: 'medium' });
+  const zonedTime = new Intl.DateTimeFormat(locale, { hour: '2-digit', minute: '2-digit', timeZoneName: 'short' });
+
+  // Numbers are formatted for the locale; unknown placeholders are left as written
+  const interpolate = (template: string, params: MessageParams) =>
+    template.replace(/\{(\w+)\}/g, (match, name: string) => {
+      const value = params[name];
+      if (value === undefined) return match;
+      return typeof value === 'number' ? integer.format(value) : value;
+    });
+
+  return {
+    lang,
+    locale,
+    t,
+    message: (key, params = {}) => interpolate(t[key], params),
+    plural: (key, count, params = {}) => {
+      const forms = t[key];
+      return interpolate(forms[pluralRules.select(count)] ?? forms.other, { ...params, count });
+    },
+    interpolate,
+    formatNumber: (value, fractionDigits = 2, signed = false) =>
+      new Intl.NumberFormat(locale, {
+        minimumFractionDigits: fractionDigits,
+        maximumFractionDigits: fractionDigits,
+        signDisplay: signed ? 'exceptZero' : 'auto'
+      }).format(value),
+    formatPrice: (value) => (value !== 0 && Math.abs(value) < 1 ? smallPrice(value) : price.format(value)),
+    formatPercent: (value, signed = false) => (signed ? signedPercent : percent).format(value),
+    formatCompact: (value) => compact.format(value),
+    formatDateTime: (value) => dateTime.format(value),
+    formatDate: (value) => date.format(value),
+    formatTime: (value, withZone = false) => (withZone ? zonedTime : time).format(value)
+  };
+};
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { BASE_DATE_TIMESTAMP, BASE_INDEX_VALUE, INDEX_NOTIONAL } from '../constants';
+import {
+  buildComposition,
+  computeIndexLevel,
+  computeMarketValue,
+  computeMarketWeights,
+  createBaseComposition,
+  rebalanceComposition
+} from './indexEngine';
+
+// A two-coin basket worth 1000 points on a 10,000 notional:
+//   q_A = 0.5 * 10000 / 100 = 50, q_B = 0.5 * 10000 / 50 = 100, divisor = 10000 / 1000 = 10
+const basket = () => buildComposition({ AUSDT: 0.5, BUSDT: 0.5 }, { AUSDT: 100, BUSDT: 50 }, 1000, 0, 10000);
+
+describe('buildComposition', () => {
+  it('sizes quantities from the weights and solves the divisor for the level', () => {
+    const composition = basket();
+    expect(composition.quantities.AUSDT).toBeCloseTo(50, 10);
+    expect(composition.quantities.BUSDT).toBeCloseTo(100, 10);
+    expect(composition.divisor).toBeCloseTo(10, 10);
+    expect(composition.referencePrices).toEqual({ AUSDT: 100, BUSDT: 50 });
+  });
+
+  it('drops constituents without a price and renormalizes the rest', () => {
+    const composition = buildComposition({ AUSDT: 1, BUSDT: 1, CUSDT: 2 }, { AUSDT: 100, BUSDT: 50 }, 1000, 0, 10000);
+    expect(Object.keys(composition.quantities)).toEqual(['AUSDT', 'BUSDT']);
+    expect(composition.quantities.AUSDT).toBeCloseTo(50, 10);
+  });
+
+  it('has a zero divisor when nothing can be priced', () => {
+    expect(buildComposition({ AUSDT: 1 }, {}, 1000, 0).divisor).toBe(0);
+  });
+});
+
+describe('createBaseComposition', () => {
+  it('anchors on the base date regardless of the local time zone', () => {
+    const prices = { AUSDT: 100 };
+    expect(new Date(BASE_DATE_TIMESTAMP).toISOString()).toBe('2025-02-05T12:00:00.000Z');
+    expect(createBaseComposition({ AUSDT: 1 }, prices).timestamp).toBe(BASE_DATE_TIMESTAMP);
+  });
+
+  it('starts at the base value', () => {
+    const prices = { AUSDT: 100, BUSDT: 50 };
+    const composition = createBaseComposition({ AUSDT: 0.7, BUSDT: 0.3 }, prices);
+    expect(computeMarketValue(composition, prices)).toBeCloseTo(INDEX_NOTIONAL, 6);
+    expect(computeIndexLevel(composition, prices)).toBeCloseTo(BASE_INDEX_VALUE, 10);
+  });
+});
+
+describe('computeIndexLevel', () => {
+  it('divides the basket value by the divisor', () => {
+    // 50 * 120 + 100 * 50 = 11000 -> 1100 points
+    expect(computeMarketValue(basket(), { AUSDT: 120, BUSDT: 50 })).toBeCloseTo(11000, 10);
+    expect(computeIndexLevel(basket(), { AUSDT: 120, BUSDT: 50 })).toBeCloseTo(1100, 10);
+  });
+
+  it('falls back to the reference price for a missing or bad quote', () => {
+    expect(computeIndexLevel(basket(), { AUSDT: 120 })).toBeCloseTo(1100, 10);
+    expect(computeIndexLevel(basket(), { AUSDT: 120, BUSDT: NaN })).toBeCloseTo(1100, 10);
+  });
+});
+
+describe('computeMarketWeights', () => {
+  it('drifts with prices between rebalances', () => {
+    const weights = computeMarketWeights(basket(), { AUSDT: 120, BUSDT: 50 });
+    expect(weights.AUSDT).toBeCloseTo(6000 / 11000, 10);
+    expect(weights.BUSDT).toBeCloseTo(5000 / 11000, 10);
+  });
+});
+
+describe('rebalanceComposition', () => {
+  it('keeps the level continuous across the rebalance', () => {
+    const prices = { AUSDT: 120, BUSDT: 50, CUSDT: 10 };
+    const next = rebalanceComposition(basket(), { BUSDT: 0.25, CUSDT: 0.75 }, prices, 1);
+    expect(computeIndexLevel(next, prices)).toBeCloseTo(1100, 10);
+    expect(computeMarketWeights(next, prices).CUSDT).toBeCloseTo(0.75, 10);
+    // From here only the new basket moves the level: C doubles -> 1100 * (0.25 + 0.75 * 2)
+    expect(computeIndexLevel(next, { ...prices, CUSDT: 20 })).toBeCloseTo(1925, 10);
+  });
+});
@@ -0,0 +1,100 @@
+import { Coin, IndexComposition } from '../types';
+import { BASE_DATE_TIMESTAMP, BASE_INDEX_VALUE, INDEX_NOTIONAL } from '../constants';
+
+// Pure index math. No React, no network: everything here can be checked by hand.
+//
+// The basket holds a fixed quantity of each constituent between rebalances:
+//   Level(t) = Sum(q_i * p_i(t)) / Divisor
+// At a rebalance the quantities are reset from the new target weights and the
+// divisor is re-solved so the level right after equals the level right before.
+
+export type PriceMap = Record<string, number>;
+
+// Price map keyed by pair. `at24hOpen` backs out the 24h-ago price from change24h.
+export const toPriceMap = (coins: Iterable<Coin>, at24hOpen = false): PriceMap => {
+  const prices: PriceMap = {};
+  for (const c of coins) {
+    prices[c.pair] = at24hOpen ? c.price / (1 + c.change24h / 100) : c.price;
+  }
+  return prices;
+};
+
+// Resolve a constituent's price, falling back to the last known reference price
+// when the live feed doesn't have it (e.g. a pair dropped from the stream).
+const resolvePrice = (composition: IndexComposition, prices: PriceMap, pair: string): number => {
+  const live = prices[pair];
+  if (live !== undefined && isFinite(live) && live > 0) return live;
+  return composition.referencePrices[pair] ?? 0;
+};
+
+export const computeMarketValue = (composition: IndexComposition, prices: PriceMap): number => {
+  let value = 0;
+  for (const pair of Object.keys(composition.quantities)) {
+    value += composition.quantities[pair] * resolvePrice(composition, prices, pair);
+  }
+  return value;
+};
+
+export const computeIndexLevel = (composition: IndexComposition, prices: PriceMap): number => {
+  if (composition.divisor === 0) return 0;
+  return computeMarketValue(composition, prices) / composition.divisor;
+};
+
+// Current market-value weight of each constituent (0-1)
+export const computeMarketWeights = (composition: IndexComposition, prices: PriceMap): Record<string, number> => {
+  const total = computeMarketValue(composition, prices);
+  const weights: Record<string, number> = {};
+  for (const pair of Object.keys(composition.quantities)) {
+    weights[pair] = total === 0 ? 0 : (composition.quantities[pair] * resolvePrice(composition, prices, pair)) / total;
+  }
+  return weights;
+};
+
+// Build a basket worth `level` index points.
+// Weights are normalized, constituents without a usable price are dropped.
+export const buildComposition = (
+  weights: Record<string, number>,
+  prices: PriceMap,
+  level: number,
+  timestamp: number,
+  notional: number = INDEX_NOTIONAL
+): IndexComposition => {
+  const pairs = Object.keys(weights).filter(p => weights[p] > 0 && prices[p] > 0 && isFinite(prices[p]));
+  const totalWeight = pairs.reduce((acc, p) => acc + weights[p], 0);
+
+  const quantities: Record<string, number> = {};
+  const referencePrices: Record<string, number> = {};
+  pairs.forEach(p => {
+    quantities[p] = (weights[p] / totalWeight) * notional / prices[p];
+    referencePrices[p] = prices[p];
+  });
+
+  return {
+    timestamp,
+    // Market value right after the rebalance is exactly `notional`
+    divisor: pairs.length > 0 && level > 0 ? notional / level : 0,
+    quantities,
+    referencePrices
+  };
+};
+
+// The first link of the chain: BASE_INDEX_VALUE points on BASE_DATE_TIMESTAMP.
+export const createBaseComposition = (
+  weights: Record<string, number>,
+  basePrices: PriceMap,
+  timestamp: number = BASE_DATE_TIMESTAMP,
+  baseValue: number = BASE_INDEX_VALUE
+): IndexComposition => buildComposition(weights, basePrices, baseValue, timestamp);
+
+// Chain-link a new basket onto the previous one.
+// Leavers are valued at their current price (or last reference price), entrants
+// get quantities at today's price, and the divisor keeps the level continuous.
+export const rebalanceComposition = (
+  previous: IndexComposition,
+  weights: Record<string, number>,
+  prices: PriceMap,
+  timestamp: number
+): IndexComposition => {
+  const level = computeIndexLevel(previous, prices);
+  return buildComposition(weights, prices, level, timestamp);
+};
@@ -0,0 +1,186 @@
+import { CandleData, Coin, ConnectionStatus, DataSourceId, EtfState, IndexComposition, IndexQuality, TickerUpdate, Timeframe, TimeframeSeries } from '../types';
+import { SNAPSHOT_THROTTLE_MS, TICK_INTERVAL_MS } from '../constants';
+import { TickerSubscription } from './marketData';
+import { DATA_SOURCES } from './dataSources';
+import { createTickEngine } from './tickEngine';
+
+// Dedicated worker owning the live feed: the exchange stream, coin state, index
+// level, 1m candles and their higher-timeframe roll-ups. The UI only receives
+// batched snapshots, at most one per SNAPSHOT_THROTTLE_MS, instead of handling
+// every WebSocket message itself.
+
+export type IndexWorkerRequest =
+  | { type: 'reset'; epoch: number }
+  | { type: 'coins'; coins: Coin[] }
+  | { type: 'composition'; composition: IndexComposition | null }
+  | { type: 'history'; candles: CandleData[] }
+  | { type: 'archive'; archive: TimeframeSeries }
+  | { type: 'restoreState'; state: EtfState }
+  | { type: 'subscribe'; sourceId: DataSourceId; pairs: string[] }
+  | { type: 'unsubscribe' }
+  | { type: 'recording'; enabled: boolean }
+  // Replay: the UI thread drives the clock and feeds the recorded ticks
+  | { type: 'externalClock'; enabled: boolean }
+  | { type: 'tick'; now: number; updates: TickerUpdate[] };
+
+export interface RecordedTicker {
+  update: TickerUpdate;
+  t: number;
+}
+
+export interface IndexSnapshot {
+  coins: Coin[] | null;        // Only when prices changed since the previous snapshot
+  state: EtfState | null;
+  quality: IndexQuality | null;
+  candles: CandleData[];       // Base candles that changed, oldest first
+  rollups: TimeframeSeries;    // Higher-timeframe candles that changed, oldest first
+  rebuilt: boolean;            // `rollups` hold the full series rather than their changed tails
+  time: number | null;         // Last tick computed into this snapshot
+  updates: RecordedTicker[];   // Raw ticks, while recording
+}
+
+export type IndexWorkerResponse =
+  | { type: 'snapshot'; epoch: number; snapshot: IndexSnapshot }
+  | { type: 'status'; status: ConnectionStatus };
+
+// The DOM lib types `self` as Window; this is a dedicated worker scope
+const ctx = self as unknown as Worker;
+
+const engine = createTickEngine();
+let epoch = 0;
+let subscription: TickerSubscription | null = null;
+let clock: ReturnType<typeof setInterval> | null = null;
+let isRecording = false;
+
+// Accumulated since the last post; candles by bucket so repeated ticks collapse
+let pending: Omit<IndexSnapshot, 'candles' | 'rollups'> = { coins: null, state: null, quality: null, time: null, updates: [], rebuilt: false };
+let pendingCandles = new Map<number, CandleData>();
+let pendingRollups = new Map<Timeframe, Map<number, CandleData>>();
+let lastPostAt = 0;
+let postTimer: ReturnType<typeof setTimeout> | null = null;
+
+const post = (message: IndexWorkerResponse) => ctx.postMessage(message);
+
+const clearPending = () => {
+  pending = { coins: null, state: null, quality: null, time: null, updates: [], rebuilt: false };
+  pendingCandles = new Map();
+  pendingRollups = new Map();
+};
+
+const addRollups = (series: TimeframeSeries) => {
+  (Object.keys(series) as Timeframe[]).forEach(tf => {
+    const candles = pendingRollups.get(tf) ?? new Map<number, CandleData>();
+    series[tf]?.forEach(c => candles.set(c.time, c));
+    pendingRollups.set(tf, candles);
+  });
+};
+
+const byTime = (candles: Iterable<CandleData>) => Array.from(candles).sort((a, b) => a.time - b.time);
+
+const flush = () => {
+  postTimer = null;
+  lastPostAt = Date.now();
+  const candles = byTime(pendingCandles.values());
+  const rollups: TimeframeSeries = Object.fromEntries(Array.from(pendingRollups, ([tf, c]) => [tf, byTime(c.values())]));
+  post({ type: 'snapshot', epoch, snapshot: { ...pending, candles, rollups } });
+  clearPending();
+};
+
+// Trailing throttle: everything that happens within the gap goes out in one message
+const schedulePost = () => {
+  if (postTimer !== null) return;
+  postTimer = setTimeout(flush, Math.max(0, lastPostAt + SNAPSHOT_THROTTLE_MS - Date.now()));
+};
+
+const tick = (now: number) => {
+  const result = engine.compute(now);
+  if (!result) return;
+  if (result.coins) pending.coins = result.coins;
+  pending.state = result.state;
+  pending.quality = result.quality;
+  pending.time = now;
+  pendingCandles.set(result.candle.time, result.candle);
+  addRollups(result.rollups);
+  schedulePost();
+};
+
+// The UI replaces its roll-ups wholesale after the base series or archive changes
+const rebuildRollups = () => {
+  pendingRollups = new Map();
+  addRollups(engine.rollups());
+  pending.rebuilt = true;
+  schedulePost();
+};
+
+const onUpdate = (update: TickerUpdate) => {
+  engine.ingest(update, Date.now());
+  if (isRecording) {
+    pending.updates.push({ update, t: Date.now() });
+    schedulePost();
+  }
+};
+
+const onStatus = (status: ConnectionStatus) => post({ type: 'status', status });
+
+const unsubscribe = () => {
+  subscription?.close();
+  subscription = null;
+};
+
+const setExternalClock = (enabled: boolean) => {
+  if (clock !== null) clearInterval(clock);
+  clock = enabled ? null : setInterval(() => tick(Date.now()), TICK_INTERVAL_MS);
+};
+
+ctx.onmessage = (event: MessageEvent<IndexWorkerRequest>) => {
+  const message = event.data;
+  switch (message.type) {
+    case 'reset':
+      epoch = message.epoch;
+      engine.reset();
+      if (postTimer !== null) clearTimeout(postTimer);
+      postTimer = null;
+      clearPending();
+      break;
+    case 'coins':
+      engine.setCoins(message.coins);
+      break;
+    case 'composition':
+      engine.setComposition(message.composition);
+      break;
+    case 'history':
+      engine.mergeHistory(message.candles);
+      rebuildRollups();
+      break;
+    case 'archive':
+      engine.setArchive(message.archive);
+      rebuildRollups();
+      break;
+    case 'restoreState':
+      if (engine.restoreState(message.state)) {
+        pending.state = message.state;
+        schedulePost();
+      }
+      break;
+    case 'subscribe':
+      // Re-subscribe in place when only the constituents change
+      if (subscription) subscription.setPairs(message.pairs);
+      else subscription = DATA_SOURCES[message.sourceId].subscribeTickers(message.pairs, onUpdate, onStatus);
+      break;
+    case 'unsubscribe':
+      unsubscribe();
+      break;
+    case 'recording':
+      isRecording = message.enabled;
+      break;
+    case 'externalClock':
+      setExternalClock(message.enabled);
+      break;
+    case 'tick':
+      message.updates.forEach(u => engine.ingest(u, message.now));
+      tick(message.now);
+      break;
+  }
+};
+
+setExternalClock(false);
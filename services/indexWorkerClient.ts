@@ -0,0 +1,54 @@
+import { CandleData, Coin, ConnectionStatus, DataSourceId, EtfState, IndexComposition, TickerUpdate, TimeframeSeries } from '../types';
+import { IndexSnapshot, IndexWorkerRequest, IndexWorkerResponse } from './indexWorker';
+
+// UI-thread handle on the index worker. Every reset starts a new epoch; snapshots
+// computed for an earlier session that are still in flight are dropped.
+
+export interface IndexWorkerHandlers {
+  onSnapshot: (snapshot: IndexSnapshot) => void;
+  onStatus: (status: ConnectionStatus) => void;
+}
+
+export interface IndexWorker {
+  reset: () => void;
+  setCoins: (coins: Coin[]) => void;
+  setComposition: (composition: IndexComposition | null) => void;
+  setHistory: (candles: CandleData[]) => void;
+  setArchive: (archive: TimeframeSeries) => void;
+  restoreState: (state: EtfState) => void;
+  subscribe: (sourceId: DataSourceId, pairs: string[]) => void;
+  unsubscribe: () => void;
+  setRecording: (enabled: boolean) => void;
+  setExternalClock: (enabled: boolean) => void;
+  tick: (now: number, updates: TickerUpdate[]) => void;
+  terminate: () => void;
+}
+
+export const createIndexWorker = ({ onSnapshot, onStatus }: IndexWorkerHandlers): IndexWorker => {
+  const worker = new Worker(new URL('./indexWorker.ts', import.meta.url), { type: 'module' });
+  let epoch = 0;
+
+  const send = (message: IndexWorkerRequest) => worker.postMessage(message);
+
+  worker.onmessage = (event: MessageEvent<IndexWorkerResponse>) => {
+    const message = event.data;
+    if (message.type === 'status') onStatus(message.status);
+    else if (message.epoch === epoch) onSnapshot(message.snapshot);
+  };
+  worker.onerror = (event) => console.error("Index worker error:", event.message);
+
+  return {
+    reset: () => send({ type: 'reset', epoch: ++epoch }),
+    setCoins: (coins) => send({ type: 'coins', coins }),
+    setComposition: (composition) => send({ type: 'composition', composition }),
+    setHistory: (candles) => send({ type: 'history', candles }),
+    setArchive: (archive) => send({ type: 'archive', archive }),
+    restoreState: (state) => send({ type: 'restoreState', state }),
+    subscribe: (sourceId, pairs) => send({ type: 'subscribe', sourceId, pairs }),
+    unsubscribe: () => send({ type: 'unsubscribe' }),
+    setRecording: (enabled) => send({ type: 'recording', enabled }),
+    setExternalClock: (enabled) => send({ type: 'externalClock', enabled }),
+    tick: (now, updates) => send({ type: 'tick', now, updates }),
+    terminate: () => worker.terminate()
+  };
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { CandleData } from '../types';
+import { bollinger, ema, macd, rsi, sma, vwap } from './indicators';
+
+// Expected values are worked out by hand from the closes in each case.
+
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+const candle = (time: number, price: number, volume?: number): CandleData =>
+  ({ time, open: price, high: price, low: price, close: price, volume });
+
+const fromCloses = (closes: number[]): CandleData[] => closes.map((c, i) => candle(i * MINUTE, c));
+
+const expectSeries = (actual: (number | null)[], expected: (number | null)[]) => {
+  expect(actual).toHaveLength(expected.length);
+  expected.forEach((v, i) => {
+    if (v === null) expect(actual[i]).toBeNull();
+    else expect(actual[i]).toBeCloseTo(v, 10);
+  });
+};
+
+describe('sma', () => {
+  it('averages the trailing window and leaves the warm-up null', () => {
+    expectSeries(sma(fromCloses([1, 2, 3, 4, 5]), 3), [null, null, 2, 3, 4]);
+  });
+});
+
+describe('ema', () => {
+  it('seeds with the SMA of the first period, then applies k = 2 / (period + 1)', () => {
+    // k = 0.5: seed (2 + 4 + 6) / 3 = 4, then 8 * 0.5 + 4 * 0.5 = 6, then 10 * 0.5 + 6 * 0.5 = 8
+    expectSeries(ema(fromCloses([2, 4, 6, 8, 10]), 3), [null, null, 4, 6, 8]);
+  });
+});
+
+describe('bollinger', () => {
+  it('uses the population standard deviation', () => {
+    // Mean 5, squared deviations sum to 32, so sigma = sqrt(32 / 8) = 2
+    const bands = bollinger(fromCloses([2, 4, 4, 4, 5, 5, 7, 9]), 8, 2);
+    expect(bands.middle[7]).toBeCloseTo(5, 10);
+    expect(bands.upper[7]).toBeCloseTo(9, 10);
+    expect(bands.lower[7]).toBeCloseTo(1, 10);
+    expect(bands.upper[6]).toBeNull();
+  });
+});
+
+describe('rsi', () => {
+  it("smooths gains and losses with Wilder's average", () => {
+    // Diffs +1, -1, +2, -1 with period 2:
+    //   seed     gain 0.5,  loss 0.5   -> 50
+    //   +2       gain 1.25, loss 0.25  -> 100 - 100 / 6
+    //   -1       gain 0.625, loss 0.625 -> 50
+    expectSeries(rsi(fromCloses([1, 2, 1, 3, 2]), 2), [null, null, 50, 100 - 100 / 6, 50]);
+  });
+
+  it('is 100 when there are no losses', () => {
+    expectSeries(rsi(fromCloses([1, 2, 3]), 2), [null, null, 100]);
+  });
+});
+
+describe('macd', () => {
+  it('starts the signal EMA at the first defined MACD value', () => {
+    // fast EMA(2): -, 2, 2, 14/3, 38/9, 182/27
+    // slow EMA(3): -, -, 2, 4, 4, 6
+    const result = macd(fromCloses([1, 3, 2, 6, 4, 8]), 2, 3, 2);
+    expectSeries(result.macd, [null, null, 0, 2 / 3, 2 / 9, 20 / 27]);
+    // Signal EMA(2) over [0, 2/3, 2/9, 20/27]: seed 1/3, then 7/27, then 47/81
+    expectSeries(result.signal, [null, null, null, 1 / 3, 7 / 27, 47 / 81]);
+    expectSeries(result.histogram, [null, null, null, 1 / 3, -1 / 27, 13 / 81]);
+  });
+});
+
+describe('vwap', () => {
+  it('resets at each UTC day', () => {
+    const candles = [
+      candle(0, 10, 1),
+      candle(MINUTE, 20, 3),
+      candle(DAY, 30, 2),
+      candle(DAY + MINUTE, 40, 2)
+    ];
+    // Day one: (10 * 1 + 20 * 3) / 4 = 17.5. Day two starts over from 30.
+    expectSeries(vwap(candles), [10, 17.5, 30, 35]);
+  });
+
+  it('falls back to a TWAP for a day with volume-less candles', () => {
+    const candles = [candle(0, 10, 5), candle(MINUTE, 20), candle(DAY, 30, 1)];
+    expectSeries(vwap(candles), [10, 15, 30]);
+  });
+});
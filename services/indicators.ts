@@ -0,0 +1,156 @@
+import { CandleData } from '../types';
+
+// Technical indicators on CandleData[]. Every function returns a series aligned
+// with its input; positions without enough history are null.
+
+export type IndicatorSeries = (number | null)[];
+
+const closes = (candles: CandleData[]) => candles.map(c => c.close);
+
+const smaOf = (values: number[], period: number): IndicatorSeries => {
+  const result: IndicatorSeries = [];
+  let sum = 0;
+  values.forEach((v, i) => {
+    sum += v;
+    if (i >= period) sum -= values[i - period];
+    result.push(i >= period - 1 ? sum / period : null);
+  });
+  return result;
+};
+
+// Seeded with the SMA of the first `period` values, then k = 2 / (period + 1)
+const emaOf = (values: number[], period: number): IndicatorSeries => {
+  const result: IndicatorSeries = [];
+  const k = 2 / (period + 1);
+  let prev: number | null = null;
+  values.forEach((v, i) => {
+    if (i < period - 1) {
+      result.push(null);
+      return;
+    }
+    if (prev === null) {
+      prev = values.slice(0, period).reduce((acc, x) => acc + x, 0) / period;
+    } else {
+      prev = v * k + prev * (1 - k);
+    }
+    result.push(prev);
+  });
+  return result;
+};
+
+export const sma = (candles: CandleData[], period: number): IndicatorSeries => smaOf(closes(candles), period);
+
+export const ema = (candles: CandleData[], period: number): IndicatorSeries => emaOf(closes(candles), period);
+
+export interface BollingerBands {
+  upper: IndicatorSeries;
+  middle: IndicatorSeries;
+  lower: IndicatorSeries;
+}
+
+// Middle = SMA(period), bands = middle ± multiplier * population std dev
+export const bollinger = (candles: CandleData[], period = 20, multiplier = 2): BollingerBands => {
+  const values = closes(candles);
+  const middle = smaOf(values, period);
+  const upper: IndicatorSeries = [];
+  const lower: IndicatorSeries = [];
+
+  middle.forEach((mean, i) => {
+    if (mean === null) {
+      upper.push(null);
+      lower.push(null);
+      return;
+    }
+    const window = values.slice(i - period + 1, i + 1);
+    const std = Math.sqrt(window.reduce((acc, v) => acc + (v - mean) ** 2, 0) / period);
+    upper.push(mean + multiplier * std);
+    lower.push(mean - multiplier * std);
+  });
+
+  return { upper, middle, lower };
+};
+
+// Anchored VWAP that resets at each UTC day. Live candles carry no volume, so a
+// day with any volume-less candle falls back to a TWAP of the typical price.
+export const vwap = (candles: CandleData[]): IndicatorSeries => {
+  const DAY = 24 * 60 * 60 * 1000;
+  const dayOf = (c: CandleData) => Math.floor(c.time / DAY);
+
+  const twapDays = new Set<number>();
+  candles.forEach(c => {
+    if (!(c.volume !== undefined && c.volume > 0)) twapDays.add(dayOf(c));
+  });
+
+  const result: IndicatorSeries = [];
+  let day = -1;
+  let pv = 0;
+  let vol = 0;
+
+  candles.forEach(c => {
+    const d = dayOf(c);
+    if (d !== day) {
+      day = d;
+      pv = 0;
+      vol = 0;
+    }
+    const weight = twapDays.has(d) ? 1 : c.volume as number;
+    pv += ((c.high + c.low + c.close) / 3) * weight;
+    vol += weight;
+    result.push(vol > 0 ? pv / vol : null);
+  });
+
+  return result;
+};
+
+// Wilder's RSI
+export const rsi = (candles: CandleData[], period = 14): IndicatorSeries => {
+  const values = closes(candles);
+  const result: IndicatorSeries = values.map(() => null);
+  if (values.length <= period) return result;
+
+  let gain = 0;
+  let loss = 0;
+  for (let i = 1; i <= period; i++) {
+    const diff = values[i] - values[i - 1];
+    if (diff >= 0) gain += diff; else loss -= diff;
+  }
+  gain /= period;
+  loss /= period;
+  result[period] = loss === 0 ? 100 : 100 - 100 / (1 + gain / loss);
+
+  for (let i = period + 1; i < values.length; i++) {
+    const diff = values[i] - values[i - 1];
+    gain = (gain * (period - 1) + Math.max(diff, 0)) / period;
+    loss = (loss * (period - 1) + Math.max(-diff, 0)) / period;
+    result[i] = loss === 0 ? 100 : 100 - 100 / (1 + gain / loss);
+  }
+
+  return result;
+};
+
+export interface MacdResult {
+  macd: IndicatorSeries;
+  signal: IndicatorSeries;
+  histogram: IndicatorSeries;
+}
+
+export const macd = (candles: CandleData[], fast = 12, slow = 26, signalPeriod = 9): MacdResult => {
+  const values = closes(candles);
+  const fastEma = emaOf(values, fast);
+  const slowEma = emaOf(values, slow);
+  const line: IndicatorSeries = values.map((_, i) =>
+    fastEma[i] !== null && slowEma[i] !== null ? (fastEma[i] as number) - (slowEma[i] as number) : null);
+
+  // Signal is an EMA over the defined part of the MACD line
+  const firstDefined = line.findIndex(v => v !== null);
+  const signal: IndicatorSeries = values.map(() => null);
+  if (firstDefined !== -1) {
+    const signalValues = emaOf(line.slice(firstDefined) as number[], signalPeriod);
+    signalValues.forEach((v, i) => { signal[firstDefined + i] = v; });
+  }
+
+  const histogram: IndicatorSeries = line.map((m, i) =>
+    m !== null && signal[i] !== null ? m - (signal[i] as number) : null);
+
+  return { macd: line, signal, histogram };
+};
@@ -0,0 +1,96 @@
+import { CandleData, Coin, ConnectionStatus, DataSourceId, OrderBookSnapshot, PairInfo, Timeframe, TickerUpdate } from '../types';
+import { QUOTE_ASSETS } from '../constants';
+
+// Live ticker feed. `setPairs` re-subscribes in place when constituents change.
+export interface TickerSubscription {
+  setPairs: (pairs: string[]) => void;
+  close: () => void;
+}
+
+// Everything the index needs from an exchange. Adapters normalize their own
+// payloads into Coin / TickerUpdate / CandleData with canonical pairs (BTCUSDT).
+export interface MarketDataSource {
+  id: DataSourceId;
+  name: string;
+  // Every spot ticker, unfiltered and weights left at 0. The universe rules pick constituents.
+  fetchUniverse: () => Promise<Coin[]>;
+  // Listing metadata (base/quote asset, status, listing time) for every spot pair
+  fetchPairInfo: () => Promise<PairInfo[]>;
+  fetchTickers: (pairs: string[]) => Promise<Coin[]>;
+  // Candles with open time >= startTime, oldest first
+  fetchKlines: (pair: string, timeframe: Timeframe, startTime: number, limit?: number) => Promise<CandleData[]>;
+  subscribeTickers: (
+    pairs: string[],
+    onUpdate: (update: TickerUpdate) => void,
+    onStatus: (status: ConnectionStatus) => void
+  ) => TickerSubscription;
+  // Live top-of-book for a single pair, where the venue streams one. Returns an unsubscribe.
+  subscribeDepth?: (pair: string, onUpdate: (book: OrderBookSnapshot) => void) => () => void;
+}
+
+export const TIMEFRAME_MS: Record<Timeframe, number> = {
+  [Timeframe.M1]: 60000,
+  [Timeframe.M5]: 5 * 60000,
+  [Timeframe.M15]: 15 * 60000,
+  [Timeframe.H1]: 60 * 60000,
+  [Timeframe.H4]: 4 * 60 * 60000,
+  [Timeframe.D1]: 24 * 60 * 60000
+};
+
+// Split canonical pairs on the known quote assets: BTCFDUSD -> BTC / FDUSD
+export const quoteAssetOf = (pair: string): string | null =>
+  QUOTE_ASSETS.find(q => pair.endsWith(q) && pair.length > q.length) ?? null;
+
+export const baseAssetOf = (pair: string): string => {
+  const quote = quoteAssetOf(pair);
+  return quote ? pair.slice(0, -quote.length) : pair;
+};
+
+export const toCoin = (pair: string, price: number, change24h: number, volume24h: number): Coin => ({
+  symbol: baseAssetOf(pair),
+  pair,
+  price,
+  change24h,
+  volume24h,
+  weight: 0 // Filled by the weighting strategy
+});
+
+export const fetchJson = async <T>(url: string): Promise<T> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error('Network response was not ok');
+  return response.json();
+};
+
+export const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks;
+};
+
+export const median = (values: number[]): number => {
+  if (values.length === 0) return NaN;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+// Each pair's opening price of the 1h kline starting at `timestamp`.
+// Pairs that weren't listed yet at that time are omitted from the result.
+export const fetchPricesAt = async (
+  source: MarketDataSource,
+  pairs: string[],
+  timestamp: number
+): Promise<Record<string, number>> => {
+  const entries = await Promise.all(pairs.map(async (pair): Promise<[string, number] | null> => {
+    try {
+      const klines = await source.fetchKlines(pair, Timeframe.H1, timestamp, 1);
+      if (klines.length === 0 || klines[0].time - timestamp >= TIMEFRAME_MS[Timeframe.H1]) return null;
+      return [pair, klines[0].open];
+    } catch (error) {
+      console.error(`Failed to fetch base price for ${pair}:`, error);
+      return null;
+    }
+  }));
+
+  return Object.fromEntries(entries.filter((e): e is [string, number] => e !== null));
+};
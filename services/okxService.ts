@@ -0,0 +1,156 @@
+import { CandleData, Coin, DataSourceId, PairInfo, Timeframe, TickerUpdate } from '../types';
+import { MarketDataSource, TIMEFRAME_MS, baseAssetOf, fetchJson, quoteAssetOf, toCoin } from './marketData';
+import { createStreamClient, StreamProtocol } from './streamClient';
+
+const BASE_API = 'https://www.okx.com/api/v5';
+const WS_API = 'wss://ws.okx.com:8443/ws/v5/public';
+
+interface OkxTicker {
+  instId: string;    // e.g. BTC-USDT
+  last: string;
+  open24h: string;
+  volCcy24h: string; // Quote volume for SPOT
+}
+
+interface OkxInstrument {
+  instId: string;
+  baseCcy: string;
+  quoteCcy: string;
+  state: string;     // live, suspend, preopen, ...
+  listTime: string;  // ms timestamp
+}
+
+interface OkxResponse<T> {
+  code: string;
+  msg: string;
+  data: T;
+}
+
+// OKX uses UTC+8 anchored daily bars unless the "utc" variant is requested
+const OKX_BARS: Record<Timeframe, string> = {
+  [Timeframe.M1]: '1m',
+  [Timeframe.M5]: '5m',
+  [Timeframe.M15]: '15m',
+  [Timeframe.H1]: '1H',
+  [Timeframe.H4]: '4Hutc',
+  [Timeframe.D1]: '1Dutc'
+};
+
+// BTCUSDT <-> BTC-USDT
+const toInstId = (pair: string) => `${baseAssetOf(pair)}-${quoteAssetOf(pair)}`;
+const fromInstId = (instId: string) => instId.replace('-', '');
+
+const subscriptionRequest = (op: 'subscribe' | 'unsubscribe', instIds: string[]) =>
+  instIds.length === 0 ? [] : [JSON.stringify({ op, args: instIds.map(instId => ({ channel: 'tickers', instId })) })];
+
+// OKX closes idle sockets after 30s; a plain-text "ping" keeps them alive
+const okxProtocol: StreamProtocol = {
+  url: WS_API,
+  subscribe: instIds => subscriptionRequest('subscribe', instIds),
+  unsubscribe: instIds => subscriptionRequest('unsubscribe', instIds),
+  heartbeat: () => 'ping',
+  isHeartbeatReply: message => message === 'pong'
+};
+
+const parseTicker = (t: OkxTicker): TickerUpdate => {
+  const price = parseFloat(t.last);
+  const open = parseFloat(t.open24h);
+  return {
+    pair: fromInstId(t.instId),
+    price,
+    change24h: open > 0 ? ((price - open) / open) * 100 : 0,
+    volume24h: parseFloat(t.volCcy24h)
+  };
+};
+
+const fetchAllTickers = async (): Promise<Coin[]> => {
+  const body = await fetchJson<OkxResponse<OkxTicker[]>>(`${BASE_API}/market/tickers?instType=SPOT`);
+  if (body.code !== '0') throw new Error(body.msg);
+  return body.data
+    .map(parseTicker)
+    .map(u => toCoin(u.pair, u.price, u.change24h, u.volume24h ?? 0));
+};
+
+export const okxSource: MarketDataSource = {
+  id: DataSourceId.OKX,
+  name: 'OKX',
+
+  fetchUniverse: async () => {
+    try {
+      return await fetchAllTickers();
+    } catch (error) {
+      console.error("Failed to fetch OKX universe:", error);
+      return [];
+    }
+  },
+
+  fetchPairInfo: async (): Promise<PairInfo[]> => {
+    try {
+      const body = await fetchJson<OkxResponse<OkxInstrument[]>>(`${BASE_API}/public/instruments?instType=SPOT`);
+      if (body.code !== '0') throw new Error(body.msg);
+      return body.data.map(i => ({
+        pair: fromInstId(i.instId),
+        baseAsset: i.baseCcy,
+        quoteAsset: i.quoteCcy,
+        tradable: i.state === 'live',
+        listedAt: Number(i.listTime) || null
+      }));
+    } catch (error) {
+      console.error("Failed to fetch OKX instruments:", error);
+      return [];
+    }
+  },
+
+  // No multi-symbol ticker endpoint: filter the full SPOT snapshot instead
+  fetchTickers: async (pairs) => {
+    if (pairs.length === 0) return [];
+    try {
+      const wanted = new Set(pairs);
+      return (await fetchAllTickers()).filter(c => wanted.has(c.pair));
+    } catch (error) {
+      console.error("Failed to fetch OKX tickers:", error);
+      return [];
+    }
+  },
+
+  fetchKlines: async (pair, timeframe, startTime, limit = 100): Promise<CandleData[]> => {
+    // history-candles pages backwards from `after` (exclusive) and returns newest first,
+    // so ask for the window ending `limit` bars after startTime and trim.
+    const count = Math.min(limit, 100);
+    const after = startTime + count * TIMEFRAME_MS[timeframe];
+    const body = await fetchJson<OkxResponse<string[][]>>(
+      `${BASE_API}/market/history-candles?instId=${toInstId(pair)}&bar=${OKX_BARS[timeframe]}&after=${after}&limit=${count}`
+    );
+    if (body.code !== '0') throw new Error(body.msg);
+
+    // Candle format: [ts, o, h, l, c, vol, volCcy, volCcyQuote, confirm]
+    return body.data
+      .map(k => ({
+        time: Number(k[0]),
+        open: parseFloat(k[1]),
+        high: parseFloat(k[2]),
+        low: parseFloat(k[3]),
+        close: parseFloat(k[4]),
+        volume: parseFloat(k[7])
+      }))
+      .filter(c => c.time >= startTime)
+      .sort((a, b) => a.time - b.time);
+  },
+
+  subscribeTickers: (pairs, onUpdate, onStatus) => {
+    const client = createStreamClient({
+      protocol: okxProtocol,
+      onMessage: (message) => {
+        // Data format: { arg: { channel: 'tickers', instId }, data: [OkxTicker] }
+        if (message?.arg?.channel !== 'tickers' || !Array.isArray(message.data)) return;
+        message.data.forEach((t: OkxTicker) => onUpdate(parseTicker(t)));
+      },
+      onStatus
+    });
+    client.setStreams(pairs.map(toInstId));
+    return {
+      setPairs: next => client.setStreams(next.map(toInstId)),
+      close: client.close
+    };
+  }
+};
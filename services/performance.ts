@@ -0,0 +1,59 @@
+import { CandleData } from '../types';
+
+// Return and co-movement statistics over close series. Pure functions; series are
+// plain number arrays, oldest first, already aligned to the same timestamps.
+
+// Crypto trades around the clock, so a year is 365 full days of periods
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+export const mean = (values: number[]): number =>
+  values.length === 0 ? NaN : values.reduce((acc, v) => acc + v, 0) / values.length;
+
+// Sample standard deviation
+export const stdev = (values: number[]): number => {
+  if (values.length < 2) return NaN;
+  const m = mean(values);
+  return Math.sqrt(values.reduce((acc, v) => acc + (v - m) ** 2, 0) / (values.length - 1));
+};
+
+export const covariance = (a: number[], b: number[]): number => {
+  const n = Math.min(a.length, b.length);
+  if (n < 2) return NaN;
+  const ma = mean(a.slice(0, n));
+  const mb = mean(b.slice(0, n));
+  let sum = 0;
+  for (let i = 0; i < n; i++) sum += (a[i] - ma) * (b[i] - mb);
+  return sum / (n - 1);
+};
+
+export const correlation = (a: number[], b: number[]): number =>
+  covariance(a, b) / (stdev(a) * stdev(b));
+
+// Sensitivity of `returns` to `market`: cov(r, m) / var(m)
+export const beta = (returns: number[], market: number[]): number =>
+  covariance(returns, market) / covariance(market, market);
+
+// Simple period-over-period returns
+export const periodReturns = (values: number[]): number[] =>
+  values.slice(1).map((v, i) => v / values[i] - 1);
+
+export const annualizedVolatility = (returns: number[], periodMs: number): number =>
+  stdev(returns) * Math.sqrt(YEAR_MS / periodMs);
+
+export const totalReturn = (values: number[]): number =>
+  values.length < 2 ? NaN : values[values.length - 1] / values[0] - 1;
+
+// Scale a series so its first value is `base`
+export const rebase = (values: number[], base = 100): number[] =>
+  values.length === 0 || values[0] === 0 ? [] : values.map(v => (v / values[0]) * base);
+
+// Closes at `times`, carrying the last close forward over gaps. Null before the series starts.
+export const alignCloses = (candles: CandleData[], times: number[]): (number | null)[] => {
+  const byTime = new Map(candles.map(c => [c.time, c.close]));
+  let last: number | null = null;
+  return times.map(time => {
+    const close = byTime.get(time);
+    if (close !== undefined) last = close;
+    return last;
+  });
+};
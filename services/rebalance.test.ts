@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { RebalanceRecord, RebalanceTrigger, WeightingMethod } from '../types';
+import { diffRebalances, isRebalanceDue, recordAt } from './rebalance';
+
+const record = (timestamp: number, weights: Record<string, number>): RebalanceRecord => ({
+  timestamp,
+  trigger: RebalanceTrigger.SCHEDULED,
+  weighting: WeightingMethod.VOLUME,
+  level: 1000,
+  divisor: 1,
+  weights
+});
+
+describe('isRebalanceDue', () => {
+  // Runs are scheduled daily at 16:00 UTC (00:00 UTC+8)
+  const slot = Date.UTC(2025, 2, 10, 16);
+
+  it('is due before the first run ever', () => {
+    expect(isRebalanceDue(null, slot)).toBe(true);
+  });
+
+  it('is not due again until the next slot', () => {
+    expect(isRebalanceDue(slot, slot)).toBe(false);
+    expect(isRebalanceDue(slot + 60_000, Date.UTC(2025, 2, 11, 15, 59))).toBe(false);
+  });
+
+  it('is due once the clock passes a slot the last run predates', () => {
+    // Ran at 15:59, one minute before the slot
+    expect(isRebalanceDue(slot - 60_000, slot)).toBe(true);
+    expect(isRebalanceDue(slot - 60_000, slot - 1)).toBe(false);
+  });
+
+  it('catches up exactly once after sleeping through several slots', () => {
+    const wake = Date.UTC(2025, 2, 13, 9);
+    expect(isRebalanceDue(slot, wake)).toBe(true);
+    // The catch-up run postdates the latest slot (the 12th, 16:00), so nothing more is due
+    expect(isRebalanceDue(wake, wake)).toBe(false);
+  });
+});
+
+describe('diffRebalances', () => {
+  const from = record(0, { AUSDT: 0.5, BUSDT: 0.3, CUSDT: 0.15, DUSDT: 0.05 });
+  const to = record(1, { AUSDT: 0.45, BUSDT: 0.4, EUSDT: 0.1, FUSDT: 0.05 });
+  const diff = diffRebalances(from, to);
+
+  it('sorts constituents on both sides by the size of their weight change', () => {
+    // |ΔB| = 0.10 beats |ΔA| = 0.05
+    expect(diff.changes.map(c => c.pair)).toEqual(['BUSDT', 'AUSDT']);
+    expect(diff.changes[0].before).toBe(0.3);
+    expect(diff.changes[0].after).toBe(0.4);
+  });
+
+  it('lists entrants by new weight and leavers by old weight', () => {
+    expect(diff.entrants).toEqual([
+      { pair: 'EUSDT', before: 0, after: 0.1 },
+      { pair: 'FUSDT', before: 0, after: 0.05 }
+    ]);
+    expect(diff.leavers).toEqual([
+      { pair: 'CUSDT', before: 0.15, after: 0 },
+      { pair: 'DUSDT', before: 0.05, after: 0 }
+    ]);
+  });
+
+  it('has no entrants or leavers between identical baskets', () => {
+    const same = diffRebalances(from, record(1, from.weights));
+    expect(same.entrants).toEqual([]);
+    expect(same.leavers).toEqual([]);
+    expect(same.changes.every(c => c.before === c.after)).toBe(true);
+  });
+});
+
+describe('recordAt', () => {
+  const log = [record(100, { AUSDT: 1 }), record(200, { BUSDT: 1 }), record(300, { CUSDT: 1 })];
+
+  it('returns the latest record at or before the time', () => {
+    expect(recordAt(log, 100)).toBe(log[0]);
+    expect(recordAt(log, 299)).toBe(log[1]);
+    expect(recordAt(log, 300)).toBe(log[2]);
+    expect(recordAt(log, 10_000)).toBe(log[2]);
+  });
+
+  it('is null before the first record or for an empty log', () => {
+    expect(recordAt(log, 99)).toBeNull();
+    expect(recordAt([], 100)).toBeNull();
+  });
+});
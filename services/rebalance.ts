@@ -0,0 +1,182 @@
+import { Coin, IndexComposition, RebalanceDiff, RebalanceRecord, RebalanceTrigger, WeightChange, WeightingMethod } from '../types';
+import { BASE_DATE_TIMESTAMP, BASE_INDEX_VALUE, REBALANCE_OFFSET_MS, REBALANCE_PERIOD_MS } from '../constants';
+import { computeIndexLevel, createBaseComposition, rebalanceComposition, PriceMap } from './indexEngine';
+import { fetchPricesAt, MarketDataSource } from './marketData';
+import { loadRebalanceRecords, saveRebalanceRecord } from './storage';
+
+// --- Schedule ---
+
+// Most recent scheduled run at or before `now`
+export const getLastScheduledRun = (now: number): number =>
+  Math.floor((now - REBALANCE_OFFSET_MS) / REBALANCE_PERIOD_MS) * REBALANCE_PERIOD_MS + REBALANCE_OFFSET_MS;
+
+export const getNextScheduledRun = (now: number): number => getLastScheduledRun(now) + REBALANCE_PERIOD_MS;
+
+// A run is due when the last rebalance happened before the latest scheduled slot.
+// Comparing against the slot (not the wall clock minute) means a tab that slept
+// through 16:00 UTC still catches up exactly once when it wakes.
+export const isRebalanceDue = (lastRun: number | null, now: number): boolean =>
+  lastRun === null || lastRun < getLastScheduledRun(now);
+
+interface SchedulerOptions {
+  getLastRun: () => number | null;
+  onDue: () => Promise<void>;
+  pollMs?: number;
+}
+
+// Polls cheaply and re-checks as soon as the tab becomes visible again.
+// Overlapping runs are suppressed while `onDue` is in flight.
+export const createRebalanceScheduler = ({ getLastRun, onDue, pollMs = 15000 }: SchedulerOptions) => {
+  let running = false;
+
+  const check = async () => {
+    if (running || !isRebalanceDue(getLastRun(), Date.now())) return;
+    running = true;
+    try {
+      await onDue();
+    } catch (error) {
+      console.error("Rebalance failed:", error);
+    } finally {
+      running = false;
+    }
+  };
+
+  const onVisibilityChange = () => {
+    if (document.visibilityState === 'visible') check();
+  };
+
+  const interval = setInterval(check, pollMs);
+  document.addEventListener('visibilitychange', onVisibilityChange);
+  check();
+
+  return () => {
+    clearInterval(interval);
+    document.removeEventListener('visibilitychange', onVisibilityChange);
+  };
+};
+
+// --- Execution ---
+
+// Chain-link a freshly weighted universe onto the previous basket and describe it
+export const executeRebalance = (
+  previous: IndexComposition,
+  weightedCoins: Coin[],
+  prices: PriceMap,
+  weighting: WeightingMethod,
+  trigger: RebalanceTrigger,
+  timestamp: number
+): { composition: IndexComposition; record: RebalanceRecord } => {
+  const weights = Object.fromEntries(weightedCoins.map(c => [c.pair, c.weight]));
+  const composition = rebalanceComposition(previous, weights, prices, timestamp);
+
+  return {
+    composition,
+    record: {
+      timestamp,
+      trigger,
+      weighting,
+      level: computeIndexLevel(composition, prices),
+      divisor: composition.divisor,
+      weights,
+      composition
+    }
+  };
+};
+
+export interface IndexBase {
+  timestamp: number;
+  value: number;
+}
+
+// executeRebalance plus what it needs from the network: base date prices on the very
+// first run, and today's prices for leavers so they aren't valued at a stale reference.
+export const rebalanceFromSource = async (
+  source: MarketDataSource,
+  previous: IndexComposition | null,
+  weightedCoins: Coin[],
+  weighting: WeightingMethod,
+  trigger: RebalanceTrigger,
+  timestamp: number,
+  base: IndexBase = { timestamp: BASE_DATE_TIMESTAMP, value: BASE_INDEX_VALUE }
+): Promise<{ composition: IndexComposition; record: RebalanceRecord }> => {
+  const weights = Object.fromEntries(weightedCoins.map(c => [c.pair, c.weight]));
+  const prices: PriceMap = Object.fromEntries(weightedCoins.map(c => [c.pair, c.price]));
+
+  // First run ever: start from the base value at the base date prices
+  let link = previous;
+  if (!link) {
+    const basePrices = await fetchPricesAt(source, weightedCoins.map(c => c.pair), base.timestamp);
+    link = createBaseComposition(weights, basePrices, base.timestamp, base.value);
+  }
+  if (link.divisor === 0) {
+    // No base date prices available (network failure): anchor at today instead
+    link = createBaseComposition(weights, prices, timestamp, base.value);
+  }
+
+  // Leavers must be valued at today's price, not at their last reference price
+  const missing = Object.keys(link.quantities).filter(p => !(p in prices));
+  if (missing.length > 0) {
+    (await source.fetchTickers(missing)).forEach(c => { prices[c.pair] = c.price; });
+  }
+
+  return executeRebalance(link, weightedCoins, prices, weighting, trigger, timestamp);
+};
+
+// --- Log ---
+
+// Oldest first. Snapshots live in IndexedDB (see storage.ts).
+export const loadRebalanceLog = async (): Promise<RebalanceRecord[]> => {
+  try {
+    return await loadRebalanceRecords();
+  } catch (error) {
+    console.error("Failed to load rebalance log:", error);
+    return [];
+  }
+};
+
+// The basket in effect at `time`: the latest of `records` (oldest first) at or before it
+export const recordAt = (records: RebalanceRecord[], time: number): RebalanceRecord | null => {
+  let active: RebalanceRecord | null = null;
+  for (const record of records) {
+    if (record.timestamp > time) break;
+    active = record;
+  }
+  return active;
+};
+
+// Appends and persists in the background. Returns the new log.
+export const appendRebalanceRecord = (log: RebalanceRecord[], record: RebalanceRecord): RebalanceRecord[] => {
+  saveRebalanceRecord(record).catch(error => console.error("Failed to save rebalance:", error));
+  return [...log, record];
+};
+
+// --- Diff ---
+
+export const diffRebalances = (from: RebalanceRecord, to: RebalanceRecord): RebalanceDiff => {
+  const entrants: WeightChange[] = [];
+  const leavers: WeightChange[] = [];
+  const changes: WeightChange[] = [];
+
+  Object.keys(to.weights).forEach(pair => {
+    const change = { pair, before: from.weights[pair] ?? 0, after: to.weights[pair] };
+    (pair in from.weights ? changes : entrants).push(change);
+  });
+  Object.keys(from.weights).forEach(pair => {
+    if (!(pair in to.weights)) leavers.push({ pair, before: from.weights[pair], after: 0 });
+  });
+
+  changes.sort((a, b) => Math.abs(b.after - b.before) - Math.abs(a.after - a.before));
+  entrants.sort((a, b) => b.after - a.after);
+  leavers.sort((a, b) => b.before - a.before);
+
+  return { entrants, leavers, changes };
+};
+
+// "03:12:45"
+export const formatCountdown = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const h = Math.floor(totalSeconds / 3600);
+  const m = Math.floor((totalSeconds % 3600) / 60);
+  const s = totalSeconds % 60;
+  return [h, m, s].map(v => String(v).padStart(2, '0')).join(':');
+};
@@ -0,0 +1,100 @@
+import { Coin, DataSourceId, RebalanceRecord, TickerUpdate } from '../types';
+import { downloadBlob } from './exports';
+
+// Recorded market data, one JSON object per line (JSON Lines):
+//   {"type":"header","version":1,"startedAt":1738728000000,"source":"BINANCE"}
+//   {"type":"rebalance","t":1738728000000,"record":{...},"coins":[...]}
+//   {"type":"ticker","t":1738728000123,"update":{"pair":"BTCUSDT","price":97000.1,"change24h":1.2}}
+// The first rebalance event describes the basket the session starts with,
+// so a recording can be replayed without any network access.
+
+export const RECORDING_VERSION = 1;
+
+export interface RecordingHeader {
+  type: 'header';
+  version: number;
+  startedAt: number;
+  source: DataSourceId;
+}
+
+export interface TickerEvent {
+  type: 'ticker';
+  t: number;
+  update: TickerUpdate;
+}
+
+export interface RebalanceEvent {
+  type: 'rebalance';
+  t: number;
+  record: RebalanceRecord;
+  coins: Coin[];
+}
+
+export type RecordingEvent = TickerEvent | RebalanceEvent;
+
+export interface Recording {
+  header: RecordingHeader;
+  events: RecordingEvent[]; // Sorted by t
+}
+
+const formatError = (message: string, line?: number) =>
+  new Error(line !== undefined ? `Invalid recording (line ${line}): ${message}` : `Invalid recording: ${message}`);
+
+export const parseRecording = (text: string): Recording => {
+  const lines = text.split('\n').map(l => l.trim()).filter(l => l.length > 0);
+  if (lines.length === 0) throw formatError('Empty recording');
+
+  let header: RecordingHeader;
+  try {
+    header = JSON.parse(lines[0]);
+  } catch {
+    throw formatError('Invalid JSON', 1);
+  }
+  if (header.type !== 'header') throw formatError('Missing header', 1);
+  if (header.version > RECORDING_VERSION) throw formatError(`Unsupported version ${header.version}`, 1);
+
+  const events: RecordingEvent[] = [];
+  lines.slice(1).forEach((line, i) => {
+    let event: RecordingEvent;
+    try {
+      event = JSON.parse(line);
+    } catch {
+      throw formatError('Invalid JSON', i + 2);
+    }
+    if ((event.type !== 'ticker' && event.type !== 'rebalance') || typeof event.t !== 'number') {
+      throw formatError('Unknown event', i + 2);
+    }
+    events.push(event);
+  });
+
+  events.sort((a, b) => a.t - b.t);
+  if (!events.some(e => e.type === 'rebalance')) throw formatError('Recording has no rebalance event');
+  return { header, events };
+};
+
+export interface Recorder {
+  recordTicker: (update: TickerUpdate, t?: number) => void;
+  recordRebalance: (record: RebalanceRecord, coins: Coin[], t?: number) => void;
+  eventCount: () => number;
+  toJsonl: () => string;
+}
+
+export const createRecorder = (source: DataSourceId, startedAt: number = Date.now()): Recorder => {
+  const lines: string[] = [JSON.stringify({ type: 'header', version: RECORDING_VERSION, startedAt, source } as RecordingHeader)];
+
+  return {
+    recordTicker: (update, t = Date.now()) => {
+      lines.push(JSON.stringify({ type: 'ticker', t, update } as TickerEvent));
+    },
+    recordRebalance: (record, coins, t = Date.now()) => {
+      lines.push(JSON.stringify({ type: 'rebalance', t, record, coins } as RebalanceEvent));
+    },
+    eventCount: () => lines.length - 1,
+    toJsonl: () => lines.join('\n') + '\n'
+  };
+};
+
+export const downloadRecording = (recorder: Recorder, filename = `crypto50-${new Date().toISOString().replace(/[:.]/g, '-')}.jsonl`) => {
+  const blob = new Blob([recorder.toJsonl()], { type: 'application/x-ndjson' });
+  downloadBlob(blob, filename);
+};
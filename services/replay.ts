@@ -0,0 +1,190 @@
+import { ConnectionState, TickerUpdate } from '../types';
+import { MarketDataSource } from './marketData';
+import { Recording, RebalanceEvent } from './recording';
+
+// Plays a recording back on a virtual clock. Each frame advances the clock by
+// FRAME_MS * speed, emits every event up to the new time, then calls onFrame so
+// the app can compute the index exactly as it does for live data.
+
+export const REPLAY_SPEEDS = [1, 2, 5, 10, 25, 50, 100];
+
+const FRAME_MS = 100;
+const STATE_THROTTLE_MS = 500;
+
+export interface ReplayState {
+  playing: boolean;
+  speed: number;
+  time: number;
+  start: number;
+  end: number;
+}
+
+export interface ReplayHandlers {
+  onRebalance: (event: RebalanceEvent) => void;
+  // The playhead moved back: candles and highs/lows built from later events must go
+  onRewind: () => void;
+  onFrame: (time: number) => void;
+  onState: (state: ReplayState) => void;
+}
+
+export interface ReplayController {
+  play: () => void;
+  pause: () => void;
+  setSpeed: (speed: number) => void;
+  seek: (time: number) => void;
+  getState: () => ReplayState;
+  // Basket and latest prices at the playhead
+  getSnapshot: () => { rebalance: RebalanceEvent; prices: Record<string, TickerUpdate> };
+  addTickerListener: (listener: (update: TickerUpdate) => void) => () => void;
+  dispose: () => void;
+}
+
+export const createReplayController = (recording: Recording, handlers: ReplayHandlers): ReplayController => {
+  const { events } = recording;
+  const start = events[0].t;
+  const end = events[events.length - 1].t;
+
+  let cursor = 0;
+  let time = start;
+  let playing = false;
+  let speed = 1;
+  let lastStateEmit = 0;
+  let timer: ReturnType<typeof setInterval> | null = null;
+  const listeners = new Set<(update: TickerUpdate) => void>();
+
+  const getState = (): ReplayState => ({ playing, speed, time, start, end });
+
+  const emitState = (force = false) => {
+    const now = Date.now();
+    if (!force && now - lastStateEmit < STATE_THROTTLE_MS) return;
+    lastStateEmit = now;
+    handlers.onState(getState());
+  };
+
+  const dispatch = (index: number) => {
+    const event = events[index];
+    if (event.type === 'rebalance') handlers.onRebalance(event);
+    else listeners.forEach(listener => listener(event.update));
+  };
+
+  const stopTimer = () => {
+    if (timer !== null) clearInterval(timer);
+    timer = null;
+  };
+
+  const frame = () => {
+    time = Math.min(end, time + FRAME_MS * speed);
+    while (cursor < events.length && events[cursor].t <= time) dispatch(cursor++);
+    handlers.onFrame(time);
+
+    if (time >= end) {
+      playing = false;
+      stopTimer();
+      emitState(true);
+      return;
+    }
+    emitState();
+  };
+
+  const getSnapshot = () => {
+    let rebalance = events.find(e => e.type === 'rebalance') as RebalanceEvent;
+    const prices: Record<string, TickerUpdate> = {};
+    for (let i = 0; i < events.length && events[i].t <= time; i++) {
+      const event = events[i];
+      if (event.type === 'rebalance') rebalance = event;
+      else prices[event.update.pair] = event.update;
+    }
+    return { rebalance, prices };
+  };
+
+  const controller: ReplayController = {
+    play: () => {
+      if (playing) return;
+      if (time >= end) controller.seek(start);
+      playing = true;
+      timer = setInterval(frame, FRAME_MS);
+      emitState(true);
+    },
+
+    pause: () => {
+      playing = false;
+      stopTimer();
+      emitState(true);
+    },
+
+    setSpeed: (next) => {
+      speed = next;
+      emitState(true);
+    },
+
+    // Jump the playhead, then replay the basket and last prices as of that moment
+    seek: (target) => {
+      const next = Math.max(start, Math.min(end, target));
+      if (next < time) handlers.onRewind();
+      time = next;
+      cursor = events.findIndex(e => e.t > time);
+      if (cursor === -1) cursor = events.length;
+
+      const { rebalance, prices } = getSnapshot();
+      handlers.onRebalance(rebalance);
+      Object.values(prices).forEach(update => listeners.forEach(listener => listener(update)));
+      handlers.onFrame(time);
+      emitState(true);
+    },
+
+    getState,
+    getSnapshot,
+
+    addTickerListener: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+
+    dispose: () => {
+      stopTimer();
+      listeners.clear();
+    }
+  };
+  return controller;
+};
+
+// Exposes a replay as a regular MarketDataSource so it goes through the live pipeline
+export const createReplaySource = (controller: ReplayController, recording: Recording): MarketDataSource => {
+  const coinsAtPlayhead = () => {
+    const { rebalance, prices } = controller.getSnapshot();
+    return rebalance.coins.map(c => {
+      const update = prices[c.pair];
+      return update ? { ...c, price: update.price, change24h: update.change24h } : c;
+    });
+  };
+
+  return {
+    id: recording.header.source,
+    name: 'Replay',
+    fetchUniverse: async () => coinsAtPlayhead(),
+    fetchPairInfo: async () => coinsAtPlayhead().map(c => ({
+      pair: c.pair,
+      baseAsset: c.symbol,
+      quoteAsset: c.pair.slice(c.symbol.length),
+      tradable: true,
+      listedAt: null
+    })),
+    fetchTickers: async (pairs) => coinsAtPlayhead().filter(c => pairs.includes(c.pair)),
+    // Recordings hold index-relevant ticks only; there are no exchange klines to serve
+    fetchKlines: async () => [],
+    subscribeTickers: (pairs, onUpdate, onStatus) => {
+      let wanted = new Set(pairs);
+      const remove = controller.addTickerListener(update => {
+        if (wanted.has(update.pair)) onUpdate(update);
+      });
+      onStatus({ state: ConnectionState.OPEN, latencyMs: 0, lastMessageAt: Date.now(), reconnectAttempt: 0 });
+      return {
+        setPairs: next => { wanted = new Set(next); },
+        close: () => {
+          remove();
+          onStatus({ state: ConnectionState.CLOSED, latencyMs: null, lastMessageAt: null, reconnectAttempt: 0 });
+        }
+      };
+    }
+  };
+};
@@ -0,0 +1,69 @@
+import { CandleData, ConcentrationMetrics, DrawdownStats } from '../types';
+import { RISK_FREE_RATE } from '../constants';
+import { beta, mean, stdev } from './performance';
+
+// Risk analytics on index candles and constituent weights. Pure functions;
+// ratios are annualized on a 365-day year since crypto never closes.
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+// Excess return per unit of total volatility
+export const sharpeRatio = (returns: number[], periodMs: number, riskFreeRate = RISK_FREE_RATE): number => {
+  const periodsPerYear = YEAR_MS / periodMs;
+  const excess = returns.map(r => r - riskFreeRate / periodsPerYear);
+  return (mean(excess) / stdev(excess)) * Math.sqrt(periodsPerYear);
+};
+
+// Like Sharpe, but only returns below the target count as risk
+export const sortinoRatio = (returns: number[], periodMs: number, riskFreeRate = RISK_FREE_RATE): number => {
+  if (returns.length < 2) return NaN;
+  const periodsPerYear = YEAR_MS / periodMs;
+  const excess = returns.map(r => r - riskFreeRate / periodsPerYear);
+  const downside = Math.sqrt(mean(excess.map(r => Math.min(0, r) ** 2)));
+  return (mean(excess) / downside) * Math.sqrt(periodsPerYear);
+};
+
+// Beta over each trailing `window` of returns; entry i covers returns (i - window, i]
+export const rollingBeta = (returns: number[], market: number[], window: number): number[] => {
+  const n = Math.min(returns.length, market.length);
+  const result: number[] = [];
+  for (let i = window; i <= n; i++) {
+    result.push(beta(returns.slice(i - window, i), market.slice(i - window, i)));
+  }
+  return result;
+};
+
+export const computeDrawdown = (candles: CandleData[]): DrawdownStats | null => {
+  if (candles.length < 2) return null;
+
+  let peak = candles[0];
+  let worst = { drawdown: 0, peakTime: peak.time, troughTime: peak.time, peakValue: peak.close };
+  candles.forEach(c => {
+    if (c.close > peak.close) peak = c;
+    const drawdown = c.close / peak.close - 1;
+    if (drawdown < worst.drawdown) worst = { drawdown, peakTime: peak.time, troughTime: c.time, peakValue: peak.close };
+  });
+
+  const recovery = candles.find(c => c.time > worst.troughTime && c.close >= worst.peakValue);
+  const last = candles[candles.length - 1];
+  return {
+    maxDrawdown: worst.drawdown,
+    peakTime: worst.peakTime,
+    troughTime: worst.troughTime,
+    recoveredAt: recovery?.time ?? null,
+    durationMs: (recovery?.time ?? last.time) - worst.peakTime,
+    currentDrawdown: last.close / Math.max(...candles.map(c => c.close)) - 1
+  };
+};
+
+export const computeConcentration = (weights: number[]): ConcentrationMetrics | null => {
+  const total = weights.reduce((acc, w) => acc + w, 0);
+  if (total <= 0) return null;
+  const normalized = weights.map(w => w / total).sort((a, b) => b - a);
+  const herfindahl = normalized.reduce((acc, w) => acc + w * w, 0);
+  return {
+    herfindahl,
+    effectiveN: 1 / herfindahl,
+    top5Share: normalized.slice(0, 5).reduce((acc, w) => acc + w, 0)
+  };
+};
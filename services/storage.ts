@@ -0,0 +1,149 @@
+import { CandleData, EtfState, RebalanceRecord, Timeframe } from '../types';
+import { CANDLE_RETENTION_MS, REBALANCE_LOG_STORAGE_KEY } from '../constants';
+
+// Local persistence in IndexedDB. Each schema version has one migration step;
+// bump DB_VERSION and append to MIGRATIONS, never edit a shipped step.
+// Small settings documents stay in localStorage (see the end of this file).
+
+const DB_NAME = 'crypto50';
+const DB_VERSION = 1;
+
+const STORES = {
+  candles: 'candles',       // { timeframe, time, open, high, low, close } keyed by [timeframe, time]
+  rebalances: 'rebalances', // RebalanceRecord keyed by timestamp
+  state: 'state'            // Small key/value documents, e.g. the last EtfState
+} as const;
+
+interface StoredCandle extends CandleData {
+  timeframe: Timeframe;
+}
+
+const MIGRATIONS: ((db: IDBDatabase, tx: IDBTransaction) => void)[] = [
+  // v1: initial schema. Imports the rebalance log that used to live in localStorage.
+  (db, tx) => {
+    db.createObjectStore(STORES.candles, { keyPath: ['timeframe', 'time'] });
+    db.createObjectStore(STORES.rebalances, { keyPath: 'timestamp' });
+    db.createObjectStore(STORES.state);
+
+    try {
+      const legacy: RebalanceRecord[] = JSON.parse(localStorage.getItem(REBALANCE_LOG_STORAGE_KEY) ?? '[]');
+      const store = tx.objectStore(STORES.rebalances);
+      legacy.forEach(record => store.put(record));
+      localStorage.removeItem(REBALANCE_LOG_STORAGE_KEY);
+    } catch (error) {
+      console.error("Failed to migrate rebalance log:", error);
+    }
+  }
+];
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const done = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openIndexDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        const tx = request.transaction!;
+        for (let v = event.oldVersion; v < DB_VERSION; v++) {
+          MIGRATIONS[v](request.result, tx);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+// --- Candles ---
+
+export const saveCandles = async (timeframe: Timeframe, candles: CandleData[]): Promise<void> => {
+  if (candles.length === 0) return;
+  const db = await openIndexDb();
+  const tx = db.transaction(STORES.candles, 'readwrite');
+  const store = tx.objectStore(STORES.candles);
+  candles.forEach(c => store.put({ ...c, timeframe } as StoredCandle));
+  return done(tx);
+};
+
+export const loadCandles = async (timeframe: Timeframe, since = 0): Promise<CandleData[]> => {
+  const db = await openIndexDb();
+  const range = IDBKeyRange.bound([timeframe, since], [timeframe, Infinity]);
+  const rows = await promisify(db.transaction(STORES.candles).objectStore(STORES.candles).getAll(range)) as StoredCandle[];
+  return rows.map(({ timeframe, ...candle }) => candle);
+};
+
+// Drop candles older than each timeframe's retention window
+export const pruneCandles = async (now: number = Date.now()): Promise<void> => {
+  const db = await openIndexDb();
+  const tx = db.transaction(STORES.candles, 'readwrite');
+  const store = tx.objectStore(STORES.candles);
+  (Object.keys(CANDLE_RETENTION_MS) as Timeframe[]).forEach(tf => {
+    const retention = CANDLE_RETENTION_MS[tf];
+    if (isFinite(retention)) store.delete(IDBKeyRange.bound([tf, 0], [tf, now - retention], false, true));
+  });
+  return done(tx);
+};
+
+// --- Rebalance snapshots ---
+
+export const saveRebalanceRecord = async (record: RebalanceRecord): Promise<void> => {
+  const db = await openIndexDb();
+  const tx = db.transaction(STORES.rebalances, 'readwrite');
+  tx.objectStore(STORES.rebalances).put(record);
+  return done(tx);
+};
+
+// Oldest first
+export const loadRebalanceRecords = async (): Promise<RebalanceRecord[]> => {
+  const db = await openIndexDb();
+  return promisify(db.transaction(STORES.rebalances).objectStore(STORES.rebalances).getAll()) as Promise<RebalanceRecord[]>;
+};
+
+// --- EtfState ---
+
+const ETF_STATE_KEY = 'etfState';
+
+export const saveEtfState = async (state: EtfState): Promise<void> => {
+  const db = await openIndexDb();
+  const tx = db.transaction(STORES.state, 'readwrite');
+  tx.objectStore(STORES.state).put(state, ETF_STATE_KEY);
+  return done(tx);
+};
+
+export const loadEtfState = async (): Promise<EtfState | null> => {
+  const db = await openIndexDb();
+  const state = await promisify(db.transaction(STORES.state).objectStore(STORES.state).get(ETF_STATE_KEY));
+  return (state as EtfState | undefined) ?? null;
+};
+
+// --- localStorage ---
+
+// Missing keys and unreadable values both give `fallback`
+export const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw ? JSON.parse(raw) : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+// Stored settings over the defaults, so fields added later get their default value
+export const readSettings = <T extends object>(key: string, defaults: T): T => {
+  const stored = readJson<Partial<T> | null>(key, null);
+  return stored ? { ...defaults, ...stored } : defaults;
+};
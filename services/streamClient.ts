@@ -0,0 +1,209 @@
+import { ConnectionState, ConnectionStatus } from '../types';
+
+// Exchange-specific wire protocol. Messages are strings ready for ws.send().
+export interface StreamProtocol {
+  url: string;
+  subscribe: (streams: string[]) => string[];
+  unsubscribe: (streams: string[]) => string[];
+  heartbeat: () => string;
+  // `message` is the parsed JSON, or the raw string when it isn't JSON (e.g. OKX "pong")
+  isHeartbeatReply: (message: any) => boolean;
+  // Server-enforced connection lifetime (Binance drops every socket after 24h)
+  maxSessionMs?: number;
+}
+
+export interface StreamClientOptions {
+  protocol: StreamProtocol;
+  onMessage: (message: any) => void;
+  onStatus: (status: ConnectionStatus) => void;
+  heartbeatMs?: number;
+  staleAfterMs?: number;
+  backoffBaseMs?: number;
+  backoffMaxMs?: number;
+}
+
+export interface StreamClient {
+  setStreams: (streams: string[]) => void;
+  getStatus: () => ConnectionStatus;
+  close: () => void;
+}
+
+// Roll over this long before the server would cut us off
+const SESSION_ROLLOVER_MARGIN_MS = 5 * 60000;
+const STATUS_THROTTLE_MS = 1000;
+
+const TRANSITIONS: Record<ConnectionState, ConnectionState[]> = {
+  [ConnectionState.IDLE]: [ConnectionState.CONNECTING, ConnectionState.CLOSED],
+  [ConnectionState.CONNECTING]: [ConnectionState.OPEN, ConnectionState.RECONNECTING, ConnectionState.CLOSED],
+  [ConnectionState.OPEN]: [ConnectionState.STALE, ConnectionState.RECONNECTING, ConnectionState.CLOSED],
+  [ConnectionState.STALE]: [ConnectionState.OPEN, ConnectionState.RECONNECTING, ConnectionState.CLOSED],
+  [ConnectionState.RECONNECTING]: [ConnectionState.CONNECTING, ConnectionState.CLOSED],
+  [ConnectionState.CLOSED]: []
+};
+
+// Full jitter keeps a fleet of tabs from reconnecting in lockstep
+export const getBackoffDelay = (attempt: number, baseMs: number, maxMs: number): number => {
+  const ceiling = Math.min(maxMs, baseMs * 2 ** attempt);
+  return ceiling / 2 + Math.random() * ceiling / 2;
+};
+
+const parseMessage = (raw: string): any => {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+};
+
+// Managed WebSocket: reconnects with exponential backoff, detects silent
+// connections, rolls over before forced disconnects and replays subscriptions.
+export const createStreamClient = ({
+  protocol,
+  onMessage,
+  onStatus,
+  heartbeatMs = 15000,
+  staleAfterMs = 30000,
+  backoffBaseMs = 1000,
+  backoffMaxMs = 30000
+}: StreamClientOptions): StreamClient => {
+  let ws: WebSocket | null = null;
+  let streams = new Set<string>();
+  let status: ConnectionStatus = {
+    state: ConnectionState.IDLE,
+    latencyMs: null,
+    lastMessageAt: null,
+    reconnectAttempt: 0
+  };
+  let lastEmit = 0;
+  let heartbeatSentAt: number | null = null;
+  let timers: ReturnType<typeof setTimeout>[] = [];
+
+  const emit = () => {
+    lastEmit = Date.now();
+    onStatus({ ...status });
+  };
+
+  const setState = (next: ConnectionState) => {
+    if (status.state === next) return;
+    if (!TRANSITIONS[status.state].includes(next)) {
+      console.warn(`Stream: ignoring ${status.state} -> ${next}`);
+      return;
+    }
+    status = { ...status, state: next };
+    emit();
+  };
+
+  const clearTimers = () => {
+    timers.forEach(timer => clearTimeout(timer));
+    timers = [];
+  };
+
+  const send = (messages: string[]) => {
+    if (ws?.readyState !== WebSocket.OPEN) return;
+    messages.forEach(m => ws!.send(m));
+  };
+
+  const teardownSocket = () => {
+    clearTimers();
+    if (!ws) return;
+    ws.onopen = ws.onmessage = ws.onerror = ws.onclose = null;
+    ws.close();
+    ws = null;
+  };
+
+  const scheduleReconnect = () => {
+    teardownSocket();
+    setState(ConnectionState.RECONNECTING);
+    const delay = getBackoffDelay(status.reconnectAttempt, backoffBaseMs, backoffMaxMs);
+    status = { ...status, reconnectAttempt: status.reconnectAttempt + 1 };
+    timers.push(setTimeout(connect, delay));
+  };
+
+  // Heartbeat doubles as the latency probe and the stale-connection watchdog
+  const tick = () => {
+    const now = Date.now();
+    if (status.lastMessageAt !== null && now - status.lastMessageAt > staleAfterMs) {
+      if (status.state === ConnectionState.STALE) {
+        scheduleReconnect();
+        return;
+      }
+      setState(ConnectionState.STALE);
+    }
+    heartbeatSentAt = now;
+    send([protocol.heartbeat()]);
+    timers.push(setTimeout(tick, heartbeatMs));
+  };
+
+  function connect() {
+    teardownSocket();
+    setState(ConnectionState.CONNECTING);
+
+    const socket = new WebSocket(protocol.url);
+    ws = socket;
+
+    socket.onopen = () => {
+      status = { ...status, reconnectAttempt: 0, lastMessageAt: Date.now() };
+      setState(ConnectionState.OPEN);
+      send(protocol.subscribe(Array.from(streams)));
+      timers.push(setTimeout(tick, heartbeatMs));
+
+      if (protocol.maxSessionMs) {
+        // Planned rollover: reconnect straight away instead of waiting to be dropped
+        timers.push(setTimeout(() => {
+          status = { ...status, reconnectAttempt: 0 };
+          setState(ConnectionState.RECONNECTING);
+          connect();
+        }, protocol.maxSessionMs - SESSION_ROLLOVER_MARGIN_MS));
+      }
+    };
+
+    socket.onmessage = (event) => {
+      const now = Date.now();
+      status = { ...status, lastMessageAt: now };
+      if (status.state === ConnectionState.STALE) setState(ConnectionState.OPEN);
+
+      const message = parseMessage(event.data);
+      if (protocol.isHeartbeatReply(message)) {
+        if (heartbeatSentAt !== null) {
+          status = { ...status, latencyMs: now - heartbeatSentAt };
+          heartbeatSentAt = null;
+        }
+        emit();
+        return;
+      }
+
+      onMessage(message);
+      if (now - lastEmit >= STATUS_THROTTLE_MS) emit();
+    };
+
+    socket.onerror = (err) => {
+      console.error("WS Error:", err);
+    };
+
+    socket.onclose = () => scheduleReconnect();
+  }
+
+  return {
+    // Diff against the current set and only (un)subscribe what changed
+    setStreams: (next) => {
+      const nextSet = new Set(next);
+      const added = next.filter(s => !streams.has(s));
+      const removed = Array.from(streams).filter(s => !nextSet.has(s));
+      streams = nextSet;
+
+      if (status.state === ConnectionState.IDLE) {
+        connect();
+        return;
+      }
+      if (removed.length > 0) send(protocol.unsubscribe(removed));
+      if (added.length > 0) send(protocol.subscribe(added));
+    },
+
+    getStatus: () => ({ ...status }),
+
+    close: () => {
+      teardownSocket();
+      setState(ConnectionState.CLOSED);
+    }
+  };
+};
@@ -0,0 +1,162 @@
+import { CandleData, Coin, DataHealth, EtfState, IndexComposition, IndexQuality, TickerUpdate, TimeframeSeries } from '../types';
+import { BASE_INDEX_VALUE, MAX_CANDLES } from '../constants';
+import { computeIndexLevel, computeMarketWeights, toPriceMap } from './indexEngine';
+import { applyTick, buildTimeframeSeries, mergeCandles, rollUpLatest, ROLLUP_TIMEFRAMES } from './candles';
+import { assessHealth, assessIndexQuality, createPairQuality, PairQuality, screenPrice } from './dataQuality';
+
+// Live session state: constituent prices, the index level, its 1m candles and their
+// higher-timeframe roll-ups. Runs inside the index worker; nothing here touches the DOM. Coins are kept in a
+// Map keyed by pair so each ticker update is a single lookup, not an array scan.
+// Prints pass the data-quality screen first; rejected or missing ones leave the
+// last good price in place.
+
+export interface TickResult {
+  coins: Coin[] | null;  // Null when no ticker changed since the previous result
+  state: EtfState;
+  candle: CandleData;    // Base candle the tick landed in
+  // The candle the tick landed in, for each higher timeframe
+  rollups: TimeframeSeries;
+  quality: IndexQuality;
+}
+
+export interface TickEngine {
+  setCoins: (coins: Coin[]) => void;
+  setComposition: (composition: IndexComposition | null) => void;
+  // False when the update is rejected or for a pair outside the basket
+  ingest: (update: TickerUpdate, time: number) => boolean;
+  // Stitch stored/backfilled candles under the live ones
+  mergeHistory: (candles: CandleData[]) => void;
+  // Stored higher-timeframe candles that reach back past the base series
+  setArchive: (archive: TimeframeSeries) => void;
+  // Full higher-timeframe series: archive extended with the rolled-up base series
+  rollups: () => TimeframeSeries;
+  // Adopt a persisted state until the first live level exists. True if it was taken.
+  restoreState: (state: EtfState) => boolean;
+  compute: (now: number) => TickResult | null;
+  reset: () => void;
+}
+
+export const createTickEngine = (): TickEngine => {
+  let coins = new Map<string, Coin>();
+  let quality = new Map<string, PairQuality>();
+  let composition: IndexComposition | null = null;
+  let history: CandleData[] = [];
+  let archive: TimeframeSeries = {};
+  let rollups: TimeframeSeries = {};
+  let state: EtfState | null = null;
+  let dirty = false;
+
+  const rebuildRollups = () => {
+    rollups = Object.fromEntries(ROLLUP_TIMEFRAMES.map(tf => [tf, buildTimeframeSeries(history, archive[tf] ?? [], tf)]));
+  };
+
+  return {
+    setCoins: (next) => {
+      coins = new Map(next.map(c => [c.pair, c]));
+      // Constituents that stay keep their price window across rebalances
+      quality = new Map(next.map(c => [c.pair, quality.get(c.pair) ?? createPairQuality()]));
+      dirty = false;
+    },
+
+    setComposition: (next) => {
+      composition = next;
+    },
+
+    ingest: (update, time) => {
+      const coin = coins.get(update.pair);
+      if (!coin || isNaN(update.change24h)) return false;
+      const screened = screenPrice(quality.get(update.pair) ?? createPairQuality(), update.price, time);
+      quality.set(update.pair, screened.quality);
+      if (!screened.accepted) return false;
+      coins.set(update.pair, {
+        ...coin,
+        price: update.price,
+        change24h: update.change24h,
+        volume24h: update.volume24h ?? coin.volume24h
+      });
+      dirty = true;
+      return true;
+    },
+
+    mergeHistory: (candles) => {
+      history = mergeCandles(candles, history).slice(-MAX_CANDLES);
+      rebuildRollups();
+    },
+
+    setArchive: (next) => {
+      archive = next;
+      rebuildRollups();
+    },
+
+    rollups: () => rollups,
+
+    restoreState: (stored) => {
+      if (state) return false;
+      state = stored;
+      return true;
+    },
+
+    // Divisor-based Logic:
+    // Each constituent is held in a fixed quantity between rebalances.
+    // Current Index = Sum(Quantity_i * Price_i) / Divisor
+    // The divisor is re-solved at every rebalance, so the level is continuous
+    // all the way back to the base value on the base date.
+    compute: (now) => {
+      if (coins.size === 0) return null;
+
+      const level = composition ? computeIndexLevel(composition, toPriceMap(coins.values())) : BASE_INDEX_VALUE;
+      // Same basket valued at each constituent's 24h open
+      const openPrice = composition ? computeIndexLevel(composition, toPriceMap(coins.values(), true)) : BASE_INDEX_VALUE;
+      const prev = state;
+
+      const change = level - openPrice;
+      state = {
+        currentPrice: level,
+        openPrice,
+        highPrice: prev ? Math.max(prev.highPrice, level) : level,
+        lowPrice: prev ? Math.min(prev.lowPrice, level) : level,
+        change24h: change,
+        changePercent: openPrice === 0 ? 0 : (change / openPrice) * 100,
+        lastUpdate: now
+      };
+      history = applyTick(history, level, now, MAX_CANDLES);
+      const tails: TimeframeSeries = {};
+      ROLLUP_TIMEFRAMES.forEach(tf => {
+        const series = rollUpLatest(rollups[tf] ?? [], history, tf);
+        rollups[tf] = series;
+        tails[tf] = series.slice(-1);
+      });
+
+      const health: Record<string, DataHealth> = {};
+      quality.forEach((q, pair) => {
+        // Staleness is measured from the first tick that sees the pair
+        if (q.lastUpdateAt === null) quality.set(pair, { ...q, lastUpdateAt: now });
+        health[pair] = assessHealth(quality.get(pair)!, now);
+      });
+      const weights = composition
+        ? computeMarketWeights(composition, toPriceMap(coins.values()))
+        : Object.fromEntries(Array.from(coins.values(), c => [c.pair, c.weight]));
+
+      const changed = dirty ? Array.from(coins.values()) : null;
+      dirty = false;
+      return {
+        coins: changed,
+        state,
+        candle: history[history.length - 1],
+        rollups: tails,
+        quality: assessIndexQuality(health, weights)
+      };
+    },
+
+    reset: () => {
+      coins = new Map();
+      quality = new Map();
+      composition = null;
+      history = [];
+      archive = {};
+      rollups = {};
+      state = null;
+      dirty = false;
+    }
+  };
+};
@@ -0,0 +1,166 @@
+import { CandleData, LotSizeRule, RebalanceRecord, Timeframe, TrackingHolding, TrackingPoint, TrackingResult, TrackingSettings } from '../types';
+import { DEFAULT_TRACKING_SETTINGS, TRACKING_STORAGE_KEY } from '../constants';
+import { TIMEFRAME_MS } from './marketData';
+import { computeIndexLevel, computeMarketWeights, PriceMap } from './indexEngine';
+import { alignCloses, annualizedVolatility, periodReturns } from './performance';
+import { recordAt } from './rebalance';
+import { readSettings } from './storage';
+
+// Replicating portfolio: a real basket of a given notional that follows the index.
+// Quantities are rounded down to the exchange lot size and lines below the minimum
+// order size are left out, so some cash stays uninvested. At every rebalance of the
+// index the portfolio trades to the new weights and pays taker fee plus slippage on
+// the traded value; between rebalances both hold fixed quantities.
+
+export const loadTrackingSettings = (): TrackingSettings => readSettings(TRACKING_STORAGE_KEY, DEFAULT_TRACKING_SETTINGS);
+
+export const saveTrackingSettings = (settings: TrackingSettings) => {
+  localStorage.setItem(TRACKING_STORAGE_KEY, JSON.stringify(settings));
+};
+
+const UNRESTRICTED: Omit<LotSizeRule, 'pair'> = { stepSize: 0, minQty: 0, minNotional: 0 };
+
+// Largest multiple of `step` not above `quantity`. The epsilon keeps 0.3 / 0.1 from flooring to 2.
+const roundToStep = (quantity: number, step: number) =>
+  step > 0 ? Math.floor(quantity / step + 1e-9) * step : quantity;
+
+// Quantities for `budget` split by `weights`; pairs without a rule are unrestricted
+export const sizeHoldings = (
+  weights: Record<string, number>,
+  prices: PriceMap,
+  budget: number,
+  rules: Record<string, LotSizeRule>
+): Record<string, number> => {
+  const quantities: Record<string, number> = {};
+  for (const pair of Object.keys(weights)) {
+    const price = prices[pair];
+    if (!(price > 0) || !(weights[pair] > 0)) continue;
+    const rule = rules[pair] ?? UNRESTRICTED;
+    const quantity = roundToStep((weights[pair] * budget) / price, rule.stepSize);
+    quantities[pair] = quantity < rule.minQty || quantity * price < rule.minNotional ? 0 : quantity;
+  }
+  return quantities;
+};
+
+export const describeHoldings = (
+  weights: Record<string, number>,
+  prices: PriceMap,
+  notional: number,
+  rules: Record<string, LotSizeRule>
+): { holdings: TrackingHolding[]; cash: number } => {
+  const quantities = sizeHoldings(weights, prices, notional, rules);
+  const holdings = Object.keys(quantities)
+    .map(pair => ({
+      pair,
+      targetWeight: weights[pair],
+      quantity: quantities[pair],
+      actualWeight: (quantities[pair] * prices[pair]) / notional
+    }))
+    .sort((a, b) => b.targetWeight - a.targetWeight);
+  const invested = holdings.reduce((acc, h) => acc + h.quantity * prices[h.pair], 0);
+  return { holdings, cash: notional - invested };
+};
+
+const valueOf = (quantities: Record<string, number>, prices: PriceMap) =>
+  Object.keys(quantities).reduce((acc, pair) => acc + quantities[pair] * (prices[pair] ?? 0), 0);
+
+const tradedValue = (from: Record<string, number>, to: Record<string, number>, prices: PriceMap) => {
+  const pairs = new Set([...Object.keys(from), ...Object.keys(to)]);
+  let traded = 0;
+  pairs.forEach(pair => {
+    traded += Math.abs((to[pair] ?? 0) - (from[pair] ?? 0)) * (prices[pair] ?? 0);
+  });
+  return traded;
+};
+
+// Pairs held by any basket in effect during [startTime, endTime]
+export const trackedPairs = (log: RebalanceRecord[], startTime: number, endTime: number): string[] => {
+  const records = log.filter(r => r.composition).sort((a, b) => a.timestamp - b.timestamp);
+  const first = recordAt(records, startTime);
+  const inWindow = records.filter(r => r.timestamp > startTime && r.timestamp <= endTime);
+  const pairs = new Set<string>();
+  [first, ...inWindow].forEach(r => r && Object.keys(r.composition!.quantities).forEach(p => pairs.add(p)));
+  return Array.from(pairs);
+};
+
+// Walk the index and the portfolio over `times` (bucket opens of `timeframe`).
+// Starts at the first bucket with a basket in effect; null if there is none.
+export const simulateTracking = (
+  log: RebalanceRecord[],
+  klines: Record<string, CandleData[]>,
+  times: number[],
+  timeframe: Timeframe,
+  settings: TrackingSettings,
+  rules: Record<string, LotSizeRule>
+): TrackingResult | null => {
+  const records = log.filter(r => r.composition).sort((a, b) => a.timestamp - b.timestamp);
+  const closes: Record<string, (number | null)[]> = {};
+  Object.keys(klines).forEach(pair => {
+    closes[pair] = alignCloses(klines[pair], times);
+  });
+  const rate = (settings.feeBps + settings.slippageBps) / 10000;
+
+  let active: RebalanceRecord | null = null;
+  let quantities: Record<string, number> = {};
+  let cash = settings.notional;
+  let baseLevel = 0;
+  let costs = 0;
+  let turnover = 0;
+  let rebalances = 0;
+  const points: TrackingPoint[] = [];
+
+  times.forEach((time, i) => {
+    const record = recordAt(records, time);
+    if (!record) return;
+    const composition = record.composition!;
+    // Reference prices stand in for pairs without a candle yet, as in the live index
+    const prices: PriceMap = { ...composition.referencePrices };
+    Object.keys(closes).forEach(pair => {
+      const close = closes[pair][i];
+      if (close !== null) prices[pair] = close;
+    });
+
+    if (record !== active) {
+      const isInitial = active === null;
+      const value = cash + valueOf(quantities, prices);
+      const weights = computeMarketWeights(composition, prices);
+      // Size once to estimate costs, then again on what is left after paying them
+      const estimate = tradedValue(quantities, sizeHoldings(weights, prices, value, rules), prices) * rate;
+      const target = sizeHoldings(weights, prices, value - estimate, rules);
+      const traded = tradedValue(quantities, target, prices);
+      const cost = traded * rate;
+      cash = value - valueOf(target, prices) - cost;
+      quantities = target;
+      costs += cost;
+      if (isInitial) {
+        baseLevel = computeIndexLevel(composition, prices);
+      } else {
+        turnover += traded / 2 / value;
+        rebalances += 1;
+      }
+      active = record;
+    }
+
+    const level = computeIndexLevel(composition, prices);
+    points.push({
+      time,
+      index: baseLevel > 0 ? (settings.notional * level) / baseLevel : settings.notional,
+      portfolio: cash + valueOf(quantities, prices)
+    });
+  });
+
+  if (points.length === 0) return null;
+  const indexReturns = periodReturns(points.map(p => p.index));
+  const differences = periodReturns(points.map(p => p.portfolio)).map((r, i) => r - indexReturns[i]);
+  const last = points[points.length - 1];
+  return {
+    points,
+    trackingError: annualizedVolatility(differences, TIMEFRAME_MS[timeframe]),
+    // Against the starting notional, so the cost of building the basket counts
+    trackingDifference: (last.portfolio - last.index) / settings.notional,
+    turnover,
+    costs,
+    costDrag: costs / settings.notional,
+    rebalances
+  };
+};
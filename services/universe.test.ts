@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { Coin, UniverseRules } from '../types';
+import { DEFAULT_UNIVERSE_RULES } from '../constants';
+import { selectConstituents } from './universe';
+
+// 14 pairs ranked by volume: R1USDT (rank 1) .. R14USDT (rank 14)
+const ranked: Coin[] = Array.from({ length: 14 }, (_, i) => ({
+  symbol: `R${i + 1}`,
+  pair: `R${i + 1}USDT`,
+  price: 1,
+  change24h: 0,
+  volume24h: 1000 - i,
+  weight: 0
+}));
+
+const pairs = (...ranks: number[]) => ranks.map(r => `R${r}USDT`);
+const range = (from: number, to: number) => Array.from({ length: to - from + 1 }, (_, i) => from + i);
+
+// 10 seats; outsiders join at rank 8 or better, members stay through rank 12
+const rules: UniverseRules = { ...DEFAULT_UNIVERSE_RULES, constituentCount: 10, entryRank: 8, exitRank: 12 };
+
+describe('selectConstituents', () => {
+  it('takes the top ranks when there is no current basket', () => {
+    expect(selectConstituents(ranked, rules, []).map(c => c.pair)).toEqual(pairs(...range(1, 10)));
+  });
+
+  it('keeps members inside the buffer over higher-ranked outsiders', () => {
+    // Rank 11 is a member within the exit rank and keeps its seat; rank 13 is past it and leaves.
+    // That frees one seat, filled in rank order by rank 9; rank 10 stays out.
+    const current = pairs(...range(1, 8), 11, 13);
+    expect(selectConstituents(ranked, rules, current).map(c => c.pair)).toEqual(pairs(...range(1, 9), 11));
+  });
+
+  it('seats every outsider at or above the entry rank first', () => {
+    // Ranks 7 and 8 join, so only 2 of the 4 buffered members (9..12) fit, best ranked first
+    const current = pairs(...range(1, 6), ...range(9, 12));
+    expect(selectConstituents(ranked, rules, current).map(c => c.pair)).toEqual(pairs(...range(1, 10)));
+  });
+});
@@ -0,0 +1,122 @@
+import { Coin, PairInfo, Timeframe, UniverseRules } from '../types';
+import { LISTING_DATE_STORAGE_KEY } from '../constants';
+import { MarketDataSource, chunk } from './marketData';
+import { readJson } from './storage';
+
+// Declarative constituent selection. Exclusions match the base asset the exchange
+// reports in its listing metadata, never substrings of the pair, so JUPUSDT and
+// SUPERUSDT stay eligible while TUSD/DAI/USDP pairs are caught.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Pairs looked up concurrently when a venue has no listing time in its metadata
+const LISTING_LOOKUP_BATCH = 10;
+
+const STABLECOINS = new Set([
+  'USDT', 'USDC', 'FDUSD', 'TUSD', 'DAI', 'USDP', 'PAX', 'BUSD', 'USDD', 'PYUSD', 'USDE', 'USDS',
+  'USD1', 'RLUSD', 'GUSD', 'FRAX', 'LUSD', 'UST', 'USTC', 'SUSD', 'EURI', 'AEUR', 'EUR', 'EURC', 'XUSD'
+]);
+
+const WRAPPED = new Set([
+  'WBTC', 'WETH', 'WBETH', 'BETH', 'STETH', 'WSTETH', 'CBETH', 'RETH', 'WBNB', 'BTCB', 'CBBTC', 'TBTC', 'WSOL', 'BNSOL'
+]);
+
+// Leveraged tokens are <underlying><suffix>: BTCUP, ETHBEAR (Binance), BTC3L, ETH2S (Bybit)
+const LEVERAGED_SUFFIX = /^(.+?)(UP|DOWN|BULL|BEAR|\d+[LS])$/;
+
+// Only a leveraged token if the underlying is itself listed, which keeps JUP, SYRUP etc. in
+export const isLeveragedToken = (baseAsset: string, listedBases: Set<string>): boolean => {
+  const match = baseAsset.match(LEVERAGED_SUFFIX);
+  return !!match && listedBases.has(match[1]);
+};
+
+// Everything that can be decided from metadata alone (listing age needs a lookup)
+export const passesStaticRules = (info: PairInfo, rules: UniverseRules, listedBases: Set<string>): boolean =>
+  info.tradable &&
+  info.quoteAsset === rules.quoteAsset &&
+  !(rules.excludeStablecoins && STABLECOINS.has(info.baseAsset)) &&
+  !(rules.excludeWrapped && WRAPPED.has(info.baseAsset)) &&
+  !(rules.excludeLeveraged && isLeveragedToken(info.baseAsset, listedBases));
+
+// Buffer zone: outsiders need rank <= entryRank to join, members stay while rank <= exitRank.
+// Seats left after entrants and retained members are filled in rank order.
+export const selectConstituents = (ranked: Coin[], rules: UniverseRules, currentPairs: string[]): Coin[] => {
+  const current = new Set(currentPairs);
+  if (current.size === 0) return ranked.slice(0, rules.constituentCount);
+
+  const entrants = ranked.slice(0, rules.entryRank);
+  const retained = ranked.slice(rules.entryRank, rules.exitRank).filter(c => current.has(c.pair));
+  const chosen = new Set([...entrants, ...retained].map(c => c.pair));
+  const rest = ranked.filter(c => !chosen.has(c.pair));
+
+  return [...entrants, ...retained, ...rest]
+    .slice(0, rules.constituentCount)
+    .sort((a, b) => b.volume24h - a.volume24h);
+};
+
+// source id + pair -> listing time. 0 marks pairs the venue has no early klines for.
+const loadListingDates = (): Record<string, number> => readJson(LISTING_DATE_STORAGE_KEY, {});
+
+// Drop candidates younger than minListingAgeDays. Venues that don't publish a listing
+// time get it from their first daily kline (cached, it never changes); pairs whose
+// listing time stays unknown are kept rather than silently excluded.
+const applyListingAge = async (
+  source: MarketDataSource,
+  candidates: Coin[],
+  infoByPair: Map<string, PairInfo>,
+  rules: UniverseRules,
+  now: number
+): Promise<Coin[]> => {
+  if (rules.minListingAgeDays <= 0) return candidates;
+
+  const minAgeMs = rules.minListingAgeDays * DAY_MS;
+  const cache = loadListingDates();
+  const keyOf = (pair: string) => `${source.id}:${pair}`;
+  const listedAt = (pair: string): number | null => infoByPair.get(pair)?.listedAt || cache[keyOf(pair)] || null;
+
+  // Ranks beyond this can't matter to the selection
+  const needed = Math.max(rules.constituentCount, rules.exitRank);
+  const result: Coin[] = [];
+  for (const batch of chunk(candidates, LISTING_LOOKUP_BATCH)) {
+    if (result.length >= needed) break;
+
+    const unknown = batch.filter(c => listedAt(c.pair) === null && !(keyOf(c.pair) in cache));
+    const firsts = await Promise.allSettled(unknown.map(c => source.fetchKlines(c.pair, Timeframe.D1, 0, 1)));
+    firsts.forEach((r, i) => {
+      if (r.status === 'fulfilled') cache[keyOf(unknown[i].pair)] = r.value[0]?.time ?? 0;
+    });
+
+    result.push(...batch.filter(c => {
+      const time = listedAt(c.pair);
+      return time === null || now - time >= minAgeMs;
+    }));
+  }
+
+  localStorage.setItem(LISTING_DATE_STORAGE_KEY, JSON.stringify(cache));
+  return result;
+};
+
+// Tickers + metadata -> the constituent list, ranked by 24h quote volume
+export const buildUniverse = async (
+  source: MarketDataSource,
+  rules: UniverseRules,
+  currentPairs: string[],
+  now: number
+): Promise<Coin[]> => {
+  const [coins, infos] = await Promise.all([source.fetchUniverse(), source.fetchPairInfo()]);
+  const infoByPair = new Map(infos.map(i => [i.pair, i]));
+  const listedBases = new Set(infos.map(i => i.baseAsset));
+
+  const candidates = coins
+    .filter(c => {
+      const info = infoByPair.get(c.pair);
+      return !!info &&
+        passesStaticRules(info, rules, listedBases) &&
+        isFinite(c.price) && c.price > 0 &&
+        c.volume24h >= rules.minVolume24h;
+    })
+    .map(c => ({ ...c, symbol: infoByPair.get(c.pair)!.baseAsset }))
+    .sort((a, b) => b.volume24h - a.volume24h);
+
+  const ranked = await applyListingAge(source, candidates, infoByPair, rules, now);
+  return selectConstituents(ranked, rules, currentPairs);
+};
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { applyWeightCap } from './weighting';
+
+const expectWeights = (actual: Record<string, number>, expected: Record<string, number>) => {
+  expect(Object.keys(actual).sort()).toEqual(Object.keys(expected).sort());
+  Object.entries(expected).forEach(([pair, weight]) => expect(actual[pair]).toBeCloseTo(weight, 10));
+};
+
+describe('applyWeightCap', () => {
+  it('leaves weights already under the cap alone', () => {
+    const weights = { AUSDT: 0.3, BUSDT: 0.3, CUSDT: 0.25, DUSDT: 0.15 };
+    expect(applyWeightCap(weights, 0.3)).toEqual(weights);
+  });
+
+  it('hands the excess to the uncapped constituents pro rata', () => {
+    // A is cut to 0.3; the other 0.7 goes to B..E in proportion to their 0.5 total
+    const capped = applyWeightCap({ AUSDT: 0.5, BUSDT: 0.2, CUSDT: 0.15, DUSDT: 0.1, EUSDT: 0.05 }, 0.3);
+    expectWeights(capped, { AUSDT: 0.3, BUSDT: 0.28, CUSDT: 0.21, DUSDT: 0.14, EUSDT: 0.07 });
+  });
+
+  it('caps again when the redistribution pushes another constituent over', () => {
+    // Round 1: A -> 0.3, B = 0.25 / 0.4 × 0.7 = 0.4375 is now over
+    // Round 2: B -> 0.3, C and D share 0.4 in a 2:1 ratio
+    const capped = applyWeightCap({ AUSDT: 0.6, BUSDT: 0.25, CUSDT: 0.1, DUSDT: 0.05 }, 0.3);
+    expectWeights(capped, { AUSDT: 0.3, BUSDT: 0.3, CUSDT: 4 / 15, DUSDT: 2 / 15 });
+  });
+
+  it('falls back to equal weight when the cap cannot be met', () => {
+    // Three constituents at 30% each only add up to 90%
+    const capped = applyWeightCap({ AUSDT: 0.8, BUSDT: 0.15, CUSDT: 0.05 }, 0.3);
+    expectWeights(capped, { AUSDT: 1 / 3, BUSDT: 1 / 3, CUSDT: 1 / 3 });
+  });
+});
@@ -0,0 +1,87 @@
+import { Coin, WeightingMethod } from '../types';
+import { WEIGHT_CAP } from '../constants';
+
+// A weighting strategy turns the constituent universe into target weights.
+// Weights are keyed by pair and always sum to 1.
+export interface WeightingStrategy {
+  method: WeightingMethod;
+  computeWeights: (coins: Coin[]) => Record<string, number>;
+}
+
+const normalize = (raw: Record<string, number>): Record<string, number> => {
+  const total = Object.values(raw).reduce((acc, v) => acc + v, 0);
+  const weights: Record<string, number> = {};
+  Object.keys(raw).forEach(pair => {
+    weights[pair] = total > 0 ? raw[pair] / total : 0;
+  });
+  return weights;
+};
+
+const byScore = (coins: Coin[], score: (c: Coin) => number) =>
+  normalize(Object.fromEntries(coins.map(c => [c.pair, Math.max(0, score(c))])));
+
+// Cap every weight at `cap` and hand the excess to the uncapped constituents
+// pro rata, repeating until nothing is above the cap.
+export const applyWeightCap = (weights: Record<string, number>, cap: number): Record<string, number> => {
+  const pairs = Object.keys(weights);
+  // Infeasible cap (e.g. 10% with fewer than 10 coins): equal weight is the closest we can get
+  if (pairs.length === 0 || cap * pairs.length < 1) {
+    return Object.fromEntries(pairs.map(p => [p, pairs.length > 0 ? 1 / pairs.length : 0]));
+  }
+
+  const result = { ...weights };
+  const capped = new Set<string>();
+
+  for (let i = 0; i < pairs.length; i++) {
+    const over = pairs.filter(p => !capped.has(p) && result[p] > cap);
+    if (over.length === 0) break;
+
+    over.forEach(p => {
+      result[p] = cap;
+      capped.add(p);
+    });
+
+    const free = pairs.filter(p => !capped.has(p));
+    const excess = 1 - capped.size * cap;
+    const freeTotal = free.reduce((acc, p) => acc + weights[p], 0);
+    free.forEach(p => {
+      result[p] = freeTotal > 0 ? weights[p] / freeTotal * excess : excess / free.length;
+    });
+  }
+
+  return result;
+};
+
+export const volumeWeighting: WeightingStrategy = {
+  method: WeightingMethod.VOLUME,
+  computeWeights: coins => byScore(coins, c => c.volume24h)
+};
+
+export const cappedVolumeWeighting = (cap: number = WEIGHT_CAP): WeightingStrategy => ({
+  method: WeightingMethod.CAPPED_VOLUME,
+  computeWeights: coins => applyWeightCap(volumeWeighting.computeWeights(coins), cap)
+});
+
+export const equalWeighting: WeightingStrategy = {
+  method: WeightingMethod.EQUAL,
+  computeWeights: coins => byScore(coins, () => 1)
+};
+
+// Dampens the dominance of the most liquid pairs without a hard cap
+export const sqrtVolumeWeighting: WeightingStrategy = {
+  method: WeightingMethod.SQRT_VOLUME,
+  computeWeights: coins => byScore(coins, c => Math.sqrt(c.volume24h))
+};
+
+export const WEIGHTING_STRATEGIES: Record<WeightingMethod, WeightingStrategy> = {
+  [WeightingMethod.VOLUME]: volumeWeighting,
+  [WeightingMethod.CAPPED_VOLUME]: cappedVolumeWeighting(),
+  [WeightingMethod.EQUAL]: equalWeighting,
+  [WeightingMethod.SQRT_VOLUME]: sqrtVolumeWeighting
+};
+
+// Fill Coin.weight using the chosen strategy
+export const applyWeighting = (coins: Coin[], strategy: WeightingStrategy): Coin[] => {
+  const weights = strategy.computeWeights(coins);
+  return coins.map(c => ({ ...c, weight: weights[c.pair] ?? 0 }));
+};
@@ -30,26 +30,599 @@ export interface CandleData {
   high: number;
   low: number;
   close: number;
+  volume?: number; // Quote volume (USDT), when the source provides it
+}
+
+export interface IndicatorSettings {
+  sma: { enabled: boolean; period: number };
+  ema: { enabled: boolean; period: number };
+  bollinger: { enabled: boolean; period: number; multiplier: number };
+  vwap: { enabled: boolean };
+  rsi: { enabled: boolean; period: number };
+  macd: { enabled: boolean; fast: number; slow: number; signal: number };
+}
+
+export enum WeightingMethod {
+  VOLUME = 'VOLUME',
+  CAPPED_VOLUME = 'CAPPED_VOLUME',
+  EQUAL = 'EQUAL',
+  SQRT_VOLUME = 'SQRT_VOLUME'
 }
 
 export enum Lang {
   EN = 'EN',
-  TW = 'TW'
+  TW = 'TW',  // Traditional Chinese
+  CN = 'CN',  // Simplified Chinese
+  JA = 'JA',
+  KO = 'KO'
 }
 
+// Message per CLDR plural category; every language has `other`, most use nothing else
+export type PluralForms = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+// UI strings for one language. Messages may contain {name} placeholders, filled
+// in by services/i18n.
 export interface Translation {
   title: string;
-  subtitle: string;
+  subtitle: Record<WeightingMethod, string>; // Describes the active methodology; {count} constituents, {cap} per-constituent cap
+  weighting: string;
+  weightingMethods: Record<WeightingMethod, string>;
   price: string;
   change: string;
   high: string;
   low: string;
   volume: string;
   composition: string;
+  constituentTotal: PluralForms;  // {count}
   symbol: string;
   weight: string;
   lastPrice: string;
   connectStatus: string;
-  rebalanceInfo: string;
+  rebalanceInfo: string;  // {time}: next run in the viewer's time zone
+  nextRebalanceIn: string;
   chart: string;
-}
\ No newline at end of file
+  rebalanceHistory: string;
+  compareFrom: string;
+  compareTo: string;
+  entrants: string;
+  leavers: string;
+  weightChanges: string;
+  noRebalances: string;
+  divisor: string;
+  rebalanceTriggers: Record<RebalanceTrigger, string>;
+  dataSource: string;
+  dataSources: Record<DataSourceId, string>;
+  connectionStates: Record<ConnectionState, string>;
+  lastMessage: PluralForms;  // {count} seconds
+  chartInterval: string;     // {timeframe}
+  record: string;
+  stopRecording: string;
+  loadReplay: string;
+  replayLoadFailed: string;
+  replay: string;
+  play: string;
+  pause: string;
+  exitReplay: string;
+  attribution: string;
+  attributionWindows: Record<AttributionWindow, string>;
+  contribution: string;
+  heatmap: string;
+  weightShort: string;       // {value}: a formatted percentage
+  returnShort: string;
+  percentagePoints: string;
+  noData: string;
+  notEnoughHistory: string;
+  todayContribution: string;
+  orderBook: string;
+  bestBid: string;
+  bestAsk: string;
+  spread: string;
+  depthUnavailable: string;
+  weightHistory: string;
+  universeRules: string;
+  applyAndRebalance: string;
+  quoteAsset: string;
+  constituentCount: string;
+  minVolume: string;
+  minListingAge: string;
+  entryRank: string;
+  exitRank: string;
+  excludeStablecoins: string;
+  excludeLeveraged: string;
+  excludeWrapped: string;
+  invalidBuffer: string;
+  invalidRankBuffer: string;
+  customIndices: string;
+  mainIndex: string;
+  newIndex: string;
+  indexName: string;
+  symbols: string;
+  baseValue: string;
+  baseDate: string;
+  save: string;
+  cancel: string;
+  edit: string;
+  view: string;
+  deleteIndex: string;
+  confirmDelete: string;
+  importIndices: string;
+  exportIndices: string;
+  importFailed: string;
+  rebalanceFailed: string;
+  unpricedPairs: string;
+  noCustomIndices: string;
+  candles: string;
+  compare: string;
+  rebasedAt: string;
+  resetRebase: string;
+  clickToRebase: string;
+  relativeStrength: string;
+  series: string;
+  return: string;
+  volatility: string;
+  riskAnalytics: string;
+  riskLabels: Record<RiskMetric, string>;
+  riskTips: Record<RiskMetric, string>;
+  ongoing: string;
+  durationHours: string;
+  durationDaysHours: string;
+  alerts: string;
+  newAlert: string;
+  alertKinds: Record<AlertKind, string>;
+  alertDirections: Record<AlertDirection, string>;
+  threshold: string;
+  alertWindow: string;
+  cooldown: string;
+  hysteresis: string;
+  minutes: string;
+  constituent: string;
+  alertLog: string;
+  clearLog: string;
+  noAlertRules: string;
+  noAlertEvents: string;
+  enableNotifications: string;
+  notificationsBlocked: string;
+  notificationsUnsupported: string;
+  alertTriggered: string;
+  dataHealth: Record<DataHealth, string>;
+  dataHealthTips: Record<DataHealth, string>;
+  degraded: string;
+  staleWeight: string;
+  exportData: string;
+  exportComposition: string;
+  exportFailed: string;
+  time: string;
+  open: string;
+  candleHigh: string;
+  candleLow: string;
+  close: string;
+  quantity: string;
+  referencePrice: string;
+  trackingSimulator: string;
+  notional: string;
+  takerFee: string;
+  slippage: string;
+  bps: string;
+  runSimulation: string;
+  simulating: string;
+  simulationFailed: string;
+  needsRebalanceHistory: string;
+  trackingError: string;
+  trackingDifference: string;
+  turnover: string;
+  costDrag: string;
+  totalCosts: string;
+  rebalanceCount: string;
+  portfolio: string;
+  targetWeight: string;
+  actualWeight: string;
+  cashResidual: string;
+  belowMinimum: string;
+  lotSizeTip: string;
+  fund: string;
+  nav: string;
+  marketPrice: string;
+  premiumDiscount: string;
+  managementFee: string;
+  feesAccrued: string;
+  creationBand: string;
+  premiumVolatility: string;
+  navHistory: string;
+  date: string;
+  language: string;
+  updated: string;
+  waitingForData: string;
+  footerCopyright: string;  // {year}, {source}
+  footerBaseDate: string;   // {date}
+  ohlcShort: Record<'open' | 'high' | 'low' | 'close', string>;  // Chart tooltip labels
+  fundFlows: Record<FundFlow, string>;
+  searchSymbols: string;
+  columns: string;
+  rankChange: string;
+  lastHour: string;
+  newEntrant: string;
+  noMatches: string;
+  constituentFilters: Record<ConstituentFilter, string>;
+  methodology: string;
+  print: string;
+  keyFacts: string;
+  factsheetIntro: string;        // {name}, {quote}, {source}
+  factsheetIntroCustom: string;  // {name}, {count}, {source}
+  universeMethod: string;        // {entry}, {exit}, {count}
+  weightingDescriptions: Record<WeightingMethod, string>;  // {cap} for the capped scheme
+  indexCalculation: string;
+  calculationMethod: string;
+  rebalanceSchedule: string;     // {time}
+  lastRebalance: string;
+  topHoldings: string;
+  sectorBreakdown: string;
+  sector: string;
+  sectors: Record<Sector, string>;
+  performanceStats: string;
+  factsheetPeriods: Record<FactsheetPeriod, string>;
+  maxDrawdown: string;
+  bestDay: string;
+  worstDay: string;
+  historySince: string;          // {date}
+  generatedAt: string;           // {time}
+  yes: string;
+  no: string;
+}
+
+// Snapshot of the index basket between two rebalances.
+// Level = Sum(quantity_i * price_i) / divisor
+export interface IndexComposition {
+  timestamp: number;                        // When this basket took effect
+  divisor: number;
+  quantities: Record<string, number>;       // pair -> units held
+  referencePrices: Record<string, number>;  // pair -> price used at rebalance
+}
+
+export enum RebalanceTrigger {
+  INITIAL = 'INITIAL',         // First basket ever built on this device
+  SCHEDULED = 'SCHEDULED',     // Daily run
+  METHODOLOGY = 'METHODOLOGY'  // User switched weighting scheme
+}
+
+export interface RebalanceRecord {
+  timestamp: number;
+  trigger: RebalanceTrigger;
+  weighting: WeightingMethod;
+  level: number;                    // Index level at the moment of rebalance
+  divisor: number;                  // Divisor after the rebalance
+  weights: Record<string, number>;  // pair -> target weight
+  composition?: IndexComposition;   // Basket snapshot (missing on records migrated from localStorage)
+}
+
+export interface WeightChange {
+  pair: string;
+  before: number;
+  after: number;
+}
+
+export interface RebalanceDiff {
+  entrants: WeightChange[];
+  leavers: WeightChange[];
+  changes: WeightChange[]; // Constituents present on both sides, sorted by |delta|
+}
+
+export enum Timeframe {
+  M1 = '1m',
+  M5 = '5m',
+  M15 = '15m',
+  H1 = '1h',
+  H4 = '4h',
+  D1 = '1d'
+}
+
+// Index candles by timeframe: the 1m base series and the index worker's roll-ups of it
+export type TimeframeSeries = Partial<Record<Timeframe, CandleData[]>>;
+
+export enum DataSourceId {
+  BINANCE = 'BINANCE',
+  OKX = 'OKX',
+  BYBIT = 'BYBIT',
+  COMPOSITE = 'COMPOSITE'
+}
+
+// Normalized live update, whatever exchange it came from. Pairs are always
+// in canonical "BASEQUOTE" form, e.g. BTCUSDT.
+export interface TickerUpdate {
+  pair: string;
+  price: number;
+  change24h: number;   // Percent
+  volume24h?: number;  // Quote volume, when the stream carries it
+}
+
+// Lifecycle of a managed stream connection:
+//   IDLE -> CONNECTING -> OPEN -> (STALE) -> RECONNECTING -> CONNECTING -> ...
+//   any state -> CLOSED when the owner shuts it down
+export enum ConnectionState {
+  IDLE = 'IDLE',
+  CONNECTING = 'CONNECTING',
+  OPEN = 'OPEN',
+  STALE = 'STALE',               // Socket is open but nothing has arrived for a while
+  RECONNECTING = 'RECONNECTING', // Waiting out the backoff delay
+  CLOSED = 'CLOSED'
+}
+
+export interface ConnectionStatus {
+  state: ConnectionState;
+  latencyMs: number | null;       // Heartbeat round trip
+  lastMessageAt: number | null;
+  reconnectAttempt: number;
+}
+
+export enum AttributionWindow {
+  SINCE_OPEN = 'SINCE_OPEN',          // Each constituent's 24h open
+  ONE_HOUR = 'ONE_HOUR',
+  SINCE_REBALANCE = 'SINCE_REBALANCE'
+}
+
+export interface Contribution {
+  pair: string;
+  symbol: string;
+  weight: number;        // Basket weight at the start of the window (0-1)
+  return: number;        // Constituent return over the window (%)
+  contribution: number;  // weight × return, in index percentage points
+}
+
+export interface OrderBookLevel {
+  price: number;
+  quantity: number;
+}
+
+// Partial book snapshot, best levels first
+export interface OrderBookSnapshot {
+  pair: string;
+  bids: OrderBookLevel[];
+  asks: OrderBookLevel[];
+  time: number;
+}
+
+// Exchange listing metadata used by the universe rules
+export interface PairInfo {
+  pair: string;
+  baseAsset: string;
+  quoteAsset: string;
+  tradable: boolean;         // Listed and currently trading
+  listedAt: number | null;   // Listing time, when the venue publishes it
+}
+
+export type ConstituentCount = 10 | 20 | 50 | 100;
+
+export interface UniverseRules {
+  quoteAsset: string;
+  excludeStablecoins: boolean;
+  excludeLeveraged: boolean;
+  excludeWrapped: boolean;
+  minListingAgeDays: number;
+  minVolume24h: number;      // Quote volume
+  constituentCount: ConstituentCount;
+  // Buffer zone: outsiders join at rank <= entryRank, members stay while rank <= exitRank
+  entryRank: number;
+  exitRank: number;
+}
+
+// User-defined basket tracked with the same engine as the main index
+export interface CustomIndexDefinition {
+  id: string;
+  name: string;
+  pairs: string[];
+  weighting: WeightingMethod;
+  baseValue: number;
+  baseDate: number;
+}
+
+// Problems from the last off-screen rebalance of a custom index
+export interface CustomIndexIssue {
+  unpriced: string[];    // Pairs the data source had no price for, left out of the basket
+  error: string | null;  // Set when the rebalance failed outright
+}
+
+// Worst peak-to-trough fall of a series (fractions, e.g. -0.12 for -12%)
+export interface DrawdownStats {
+  maxDrawdown: number;
+  peakTime: number;
+  troughTime: number;
+  recoveredAt: number | null;  // First time back at the peak, if it happened
+  durationMs: number;          // Peak to recovery, or to the last candle while still under water
+  currentDrawdown: number;
+}
+
+export interface ConcentrationMetrics {
+  herfindahl: number;      // Sum of squared weights, 1/N (equal) .. 1 (single asset)
+  effectiveN: number;      // 1 / Herfindahl
+  top5Share: number;
+}
+
+export enum RiskMetric {
+  REALIZED_VOL = 'REALIZED_VOL',
+  MAX_DRAWDOWN = 'MAX_DRAWDOWN',
+  DRAWDOWN_DURATION = 'DRAWDOWN_DURATION',
+  SHARPE = 'SHARPE',
+  SORTINO = 'SORTINO',
+  BETA = 'BETA',
+  HERFINDAHL = 'HERFINDAHL',
+  EFFECTIVE_N = 'EFFECTIVE_N',
+  TOP5_SHARE = 'TOP5_SHARE'
+}
+
+export enum AlertKind {
+  INDEX_LEVEL = 'INDEX_LEVEL',
+  INDEX_CHANGE = 'INDEX_CHANGE',            // Percent move of the level over windowMinutes
+  CONSTITUENT_PRICE = 'CONSTITUENT_PRICE',
+  CONSTITUENT_WEIGHT = 'CONSTITUENT_WEIGHT' // Market-value weight, in percent
+}
+
+export enum AlertDirection {
+  ABOVE = 'ABOVE',
+  BELOW = 'BELOW'
+}
+
+// Level rules watch whichever index is on screen
+export interface AlertRule {
+  id: string;
+  kind: AlertKind;
+  direction: AlertDirection;
+  threshold: number;
+  pair: string | null;      // Constituent rules only
+  windowMinutes: number;    // INDEX_CHANGE only
+  cooldownMinutes: number;  // Minimum gap between two notifications
+  hysteresis: number;       // Re-arms once the value is back this far past the threshold, in rule units
+  enabled: boolean;
+}
+
+export interface AlertEvent {
+  id: string;
+  time: number;
+  value: number;
+  rule: AlertRule;  // Copy at firing time, so the log survives edits and deletes
+}
+
+// Feed health of one constituent, worst first: HALTED > STALE > OUTLIER > OK
+export enum DataHealth {
+  OK = 'OK',
+  OUTLIER = 'OUTLIER',  // Latest print(s) rejected against the rolling median
+  STALE = 'STALE',      // No accepted update for a while; last good price carried
+  HALTED = 'HALTED'     // Silent long enough to look delisted or suspended
+}
+
+export interface IndexQuality {
+  health: Record<string, DataHealth>;  // pair -> health
+  staleWeight: number;                 // Share of basket value priced from stale or halted feeds (0-1)
+  degraded: boolean;
+}
+
+// Binance order size filters for one pair (exchangeInfo LOT_SIZE and NOTIONAL)
+export interface LotSizeRule {
+  pair: string;
+  stepSize: number;     // Quantity increment, 0 if unrestricted
+  minQty: number;
+  minNotional: number;  // Quote value
+}
+
+export interface TrackingSettings {
+  notional: number;     // Portfolio size in quote currency
+  feeBps: number;       // Taker fee per trade
+  slippageBps: number;  // Estimated execution cost on top of the fee
+}
+
+// One line of the replicating portfolio at current prices
+export interface TrackingHolding {
+  pair: string;
+  targetWeight: number;
+  quantity: number;      // Rounded to the lot size; 0 when below the exchange minimums
+  actualWeight: number;
+}
+
+export interface TrackingPoint {
+  time: number;
+  index: number;      // Index level scaled to the starting notional
+  portfolio: number;  // Holdings plus cash, after costs
+}
+
+export interface TrackingResult {
+  points: TrackingPoint[];
+  trackingError: number;       // Annualized stdev of hourly return differences
+  trackingDifference: number;  // Portfolio minus index total return
+  turnover: number;            // One-way traded value / portfolio value, summed over rebalances after the first
+  costs: number;               // Fees and slippage paid, quote currency
+  costDrag: number;            // costs / starting notional
+  rebalances: number;
+}
+
+// Fund wrapper on top of the index
+export interface FundSettings {
+  managementFeePct: number;  // Annual, accrued daily against NAV
+  bandBps: number;           // Premium/discount at which creations/redemptions kick in
+  premiumVolBps: number;     // Daily noise of the simulated secondary-market premium
+}
+
+export enum FundFlow {
+  NONE = 'NONE',
+  CREATION = 'CREATION',      // Premium hit the band: new shares created and sold
+  REDEMPTION = 'REDEMPTION'   // Discount hit the band: shares bought and redeemed
+}
+
+export interface NavPoint {
+  time: number;         // Day start (UTC)
+  level: number;        // Index close
+  nav: number;          // Per share, after fees
+  marketPrice: number;
+  premium: number;      // marketPrice / nav - 1
+  flow: FundFlow;
+}
+
+// Optional columns of the constituents table, in display order; # and symbol are always shown
+export enum ConstituentColumn {
+  PRICE = 'price',
+  CHANGE = 'change',
+  WEIGHT = 'weight',
+  RANK_CHANGE = 'rankChange',
+  SPARKLINE = 'sparkline',
+  VOLUME = 'volume'
+}
+
+export enum ConstituentFilter {
+  ALL = 'ALL',
+  GAINERS = 'GAINERS',  // 24h change above zero
+  LOSERS = 'LOSERS'     // 24h change below zero
+}
+
+export type ConstituentSortKey = 'rank' | 'symbol' | 'price' | 'change' | 'weight' | 'volume' | 'rankChange';
+
+export interface ConstituentSort {
+  key: ConstituentSortKey;
+  descending: boolean;
+}
+
+export interface ConstituentRow extends Coin {
+  rank: number;               // By current weight, 1 = heaviest
+  rankChange: number | null;  // Places gained since the last rebalance; null for constituents not ranked then
+}
+
+// Rough sector of a constituent's base asset, for the factsheet breakdown
+export enum Sector {
+  LAYER_1 = 'LAYER_1',
+  LAYER_2 = 'LAYER_2',
+  DEFI = 'DEFI',
+  EXCHANGE = 'EXCHANGE',
+  PAYMENTS = 'PAYMENTS',
+  INFRASTRUCTURE = 'INFRASTRUCTURE',
+  AI = 'AI',
+  GAMING = 'GAMING',
+  MEME = 'MEME',
+  OTHER = 'OTHER'
+}
+
+export enum FactsheetPeriod {
+  ONE_WEEK = '1W',
+  ONE_MONTH = '1M',
+  THREE_MONTHS = '3M',
+  YTD = 'YTD',
+  ONE_YEAR = '1Y',
+  INCEPTION = 'INCEPTION'
+}
+
+export interface SectorWeight {
+  sector: Sector;
+  weight: number;
+  count: number;
+}
+
+export interface DailyMove {
+  time: number;
+  return: number;  // Fraction
+}
+
+// Statistics on daily closes; null/NaN where the stored history is too short
+export interface FactsheetStats {
+  returns: Record<FactsheetPeriod, number | null>;  // Fractions
+  historyStart: number | null;                      // First daily close available
+  volatility: number;                               // Annualized
+  maxDrawdown: number;                              // Negative fraction
+  sharpe: number;
+  bestDay: DailyMove | null;
+  worstDay: DailyMove | null;
+}